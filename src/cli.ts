@@ -1,20 +1,492 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Command, InvalidArgumentError } from 'commander';
 import chalk from 'chalk';
-import { OpenAIConnector } from './connectors/index.js';
+import { createConnector, LLMCallLog, LLMConnector, ProviderName, PROVIDERS, DEFAULT_MODELS, API_KEY_ENV, RequestScheduler, CachingConnector, FileCacheStore, CassetteRecorder, RecordingConnector, ReplayConnector, WEB_SEARCH_CONTEXT_SIZES, WebSearchContextSize, WebSearchOptions } from './connectors/index.js';
 import { FlexibleOrchestrator } from './orchestrator.js';
-import { OrchestratorOptions } from './types/index.js';
+import { SEARCH_PROVIDERS, SearchProvider, SearchProviderName, createSearchProvider } from './search/index.js';
+import { LIBRARIAN_MODES, LibrarianMode, WorkerRegistry, librarianExtensions, createCodeWorkerDefinition, createLibrarianWorkerDefinition, createSearchWorkerDefinition, simpleWorkerDefinition } from './workers/index.js';
+import { AgentType, BuiltinAgentType, SynthesisMode, ContextOverflowMode, ContextWindowTable, OrchestratorOptions, OrchestratorResult, OrchestratorRole, PricingTable, RoleConfig, WorkerFailureMode, WorkerResult } from './types/index.js';
+import { WorkerProgressRenderer } from './utils/progress-renderer.js';
+import { OutputFormat, OUTPUT_FORMATS, RunReportRecorder, formatJsonLine, formatMarkdownReport } from './utils/report.js';
+import { formatCost } from './utils/cost.js';
+import { SYNTHESIS_MODES, describeSynthesis } from './utils/synthesis.js';
+import { CONTEXT_OVERFLOW_MODES, describeAdjustment } from './utils/context-budget.js';
+import { DocumentSelection, resolveDocuments } from './utils/document-selection.js';
+import { AGENT_TYPES } from './utils/plan-constraints.js';
 
 const program = new Command();
 
+const ROLES: OrchestratorRole[] = ['orchestrator', 'simple', 'search', 'librarian', 'code', 'synthesizer', 'evaluator'];
+const FAILURE_MODES: WorkerFailureMode[] = ['fail-fast', 'best-effort', 'fallback'];
+
+// Collects repeatable `role=value` options into a map
+function collectRoleAssignment(value: string, previous: Record<string, string> = {}): Record<string, string> {
+  const separator = value.indexOf('=');
+  if (separator === -1) {
+    throw new InvalidArgumentError(`Expected role=value, got "${value}"`);
+  }
+  const role = value.slice(0, separator).trim();
+  if (!ROLES.includes(role as OrchestratorRole)) {
+    throw new InvalidArgumentError(`Unknown role "${role}". Expected one of: ${ROLES.join(', ')}`);
+  }
+  return { ...previous, [role]: value.slice(separator + 1).trim() };
+}
+
+// Collects repeatable `provider=url` options
+function collectProviderUrl(value: string, previous: Partial<Record<ProviderName, string>> = {}): Partial<Record<ProviderName, string>> {
+  const separator = value.indexOf('=');
+  const name = value.slice(0, separator).trim() as ProviderName;
+  if (separator === -1 || !PROVIDERS.includes(name)) {
+    throw new InvalidArgumentError(`Expected provider=url with provider one of: ${PROVIDERS.join(', ')}`);
+  }
+  return { ...previous, [name]: value.slice(separator + 1).trim() };
+}
+
+function parseChoice<T extends string>(choices: T[]): (value: string) => T {
+  return value => {
+    if (!choices.includes(value as T)) {
+      throw new InvalidArgumentError(`Expected one of: ${choices.join(', ')}`);
+    }
+    return value as T;
+  };
+}
+
+// Parses a comma-separated list of agent types
+function parseAgentList(value: string): AgentType[] {
+  const agents = value.split(',').map(agent => agent.trim()).filter(Boolean);
+  const unknown = agents.filter(agent => !AGENT_TYPES.includes(agent as BuiltinAgentType));
+  if (agents.length === 0 || unknown.length > 0) {
+    throw new InvalidArgumentError(`Expected a comma-separated list of: ${AGENT_TYPES.join(', ')}`);
+  }
+  return agents as AgentType[];
+}
+
+// Collects repeatable `agent=count` options into a map
+function collectAgentQuota(value: string, previous: Partial<Record<AgentType, number>> = {}): Partial<Record<AgentType, number>> {
+  const [agent, count] = value.split('=').map(part => part.trim());
+  if (!AGENT_TYPES.includes(agent as BuiltinAgentType) || count === undefined) {
+    throw new InvalidArgumentError(`Expected agent=count with agent one of: ${AGENT_TYPES.join(', ')}`);
+  }
+  return { ...previous, [agent]: parseCount(count) };
+}
+
+// Collects repeatable `model=tokens` options into a context window table; a model may produce up to half its window
+function collectContextWindow(value: string, previous: ContextWindowTable = {}): ContextWindowTable {
+  const separator = value.lastIndexOf('=');
+  const model = value.slice(0, separator).trim();
+  const tokens = Number(value.slice(separator + 1));
+  if (separator === -1 || !model || !Number.isInteger(tokens) || tokens < 1024) {
+    throw new InvalidArgumentError(`Expected model=tokens with at least 1024 tokens, got "${value}"`);
+  }
+  return { ...previous, [model]: { context: tokens, maxOutput: Math.floor(tokens / 2) } };
+}
+
+function parseCount(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new InvalidArgumentError(`Expected a whole number, got "${value}"`);
+  }
+  return parsed;
+}
+
+// Collects a repeatable option into a list
+function collectList(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+// Splits --documents on commas, except those inside glob braces such as `*.{md,txt}`
+function splitDocumentInputs(value: string): string[] {
+  const inputs: string[] = [];
+  let current = '';
+  let braces = 0;
+  for (const char of value) {
+    if (char === ',' && braces === 0) {
+      inputs.push(current);
+      current = '';
+      continue;
+    }
+    braces += char === '{' ? 1 : char === '}' && braces > 0 ? -1 : 0;
+    current += char;
+  }
+  inputs.push(current);
+  return inputs.map(input => input.trim()).filter(Boolean);
+}
+
+// Parses a comma-separated list of domains such as `arxiv.org,nature.com`
+function parseDomainList(value: string): string[] {
+  const domains = value.split(',').map(domain => domain.trim()).filter(Boolean);
+  if (domains.length === 0) {
+    throw new InvalidArgumentError('Expected a comma-separated list of domains');
+  }
+  return domains;
+}
+
+// Parses `country=FR,city=Paris` into a search location
+function parseSearchLocation(value: string): NonNullable<WebSearchOptions['userLocation']> {
+  const fields = ['country', 'region', 'city', 'timezone'];
+  const location: Record<string, string> = {};
+  for (const pair of value.split(',')) {
+    const [field, fieldValue] = pair.split('=').map(part => part.trim());
+    if (!fields.includes(field) || !fieldValue) {
+      throw new InvalidArgumentError(`Expected comma-separated field=value pairs with fields: ${fields.join(', ')}`);
+    }
+    location[field] = fieldValue;
+  }
+  return location;
+}
+
+function parsePositiveNumber(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new InvalidArgumentError(`Expected a positive number, got "${value}"`);
+  }
+  return parsed;
+}
+
 interface CLIOptions {
   model?: string;
+  simpleModel?: string;
   temperature?: number;
   maxTokens?: number;
   context?: string;
   verbose?: boolean;
   documents?: string;
+  include?: string[];
+  exclude?: string[];
+  maxFileSize?: number;
+  provider?: string;
+  baseUrl?: string;
+  providerUrl?: Partial<Record<ProviderName, string>>;
+  roleProvider?: Record<string, string>;
+  roleModel?: Record<string, string>;
+  stream?: boolean;
+  output?: string;
+  out?: string;
+  maxAttempts?: number;
+  timeout?: number;
+  onWorkerFailure?: WorkerFailureMode;
+  minSuccesses?: number;
+  fallbackAgent?: AgentType;
+  budget?: number;
+  pricing?: string;
+  concurrency?: number;
+  tpm?: number;
+  cache?: boolean;
+  refreshCache?: boolean;
+  cacheDir?: string;
+  cacheTtl?: number;
+  cacheWebSearch?: number;
+  record?: string;
+  replay?: string;
+  maxRounds?: number;
+  tokenBudget?: number;
+  minStrategies?: number;
+  maxStrategies?: number;
+  agents?: AgentType[];
+  agentQuota?: Partial<Record<AgentType, number>>;
+  planRepairs?: number;
+  structuredPlans?: boolean;
+  enableCode?: boolean;
+  codeTimeout?: number;
+  codeMemory?: number;
+  codeRepairs?: number;
+  librarianMode?: LibrarianMode;
+  searchContextSize?: WebSearchContextSize;
+  searchLocation?: WebSearchOptions['userLocation'];
+  allowedDomains?: string[];
+  blockedDomains?: string[];
+  searchProvider?: SearchProviderName;
+  searchUrl?: string;
+  searchCorpus?: string;
+  searchPages?: number;
+  synthesis?: SynthesisMode;
+  synthesisSamples?: number;
+  contextWindow?: ContextWindowTable;
+  contextOverflow?: ContextOverflowMode;
+}
+
+function truncate(text: string, length: number = 500): string {
+  return text.length > length ? text.substring(0, length) + '...' : text;
+}
+
+function printDocumentSelection(selection: DocumentSelection, mode: LibrarianMode, print: (message: string) => void): void {
+  const total = selection.files.length + selection.skipped.length;
+  print(chalk.gray(`📚 Documents (${mode} mode): ${selection.files.length} of ${total} files will be used`));
+  selection.files.forEach(file => {
+    print(chalk.gray(`   ✓ ${file.path} (${Math.ceil(file.size / 1024)} KB)`));
+  });
+  selection.skipped.forEach(file => {
+    print(chalk.yellow(`   ✗ ${file.path}: ${file.reason}`));
+  });
+}
+
+function printCallLog(log: LLMCallLog): void {
+  const role = log.role || 'LLM';
+  const icon = log.prompt.startsWith('[FILE-BASED]') ? '📚' : role.includes('SEARCH') ? '🔍' : '🤖';
+
+  console.log(`\n${icon} ${role} Call [${log.timestamp.toISOString()}]${log.cached ? chalk.green(' (cached)') : ''}`);
+  console.log(`Model: ${log.model} | Max Tokens: ${log.maxTokens} | Temperature: ${log.temperature}`);
+  console.log(`Prompt (${log.prompt.length} chars):`);
+  console.log('─'.repeat(50));
+  console.log(truncate(log.prompt));
+  console.log('─'.repeat(50));
+  log.retries?.forEach(retry => {
+    console.log(chalk.yellow(`↻ Attempt ${retry.attempt} failed, retried after ${retry.delayMs}ms: ${retry.error}`));
+  });
+  console.log(`\n✅ ${role} Response (${log.duration}ms):`);
+  if (log.usage) {
+    console.log(`Tokens: ${log.usage.prompt_tokens} + ${log.usage.completion_tokens} = ${log.usage.total_tokens}`);
+  }
+  console.log('─'.repeat(50));
+  console.log(truncate(log.response));
+  console.log('─'.repeat(50));
+}
+
+function printWorkerResults(results: WorkerResult[]): void {
+  console.log(chalk.yellow('\n⚙️  Worker Results:'));
+  results.forEach((workerResult, index) => {
+    console.log(chalk.cyan(`\n${index + 1}. ${workerResult.approach}:`));
+
+    if (workerResult.error) {
+      console.log(chalk.red(`   ❌ Failed: ${workerResult.error}`));
+      return;
+    }
+    
+    // Show worker type and model info
+    if (workerResult.workerType) {
+      const workerEmoji = ({
+        'simple': '⚡',
+        'search': '🔍',
+        'librarian': '📚',
+        'code': '💻'
+      } as Record<string, string>)[workerResult.workerType] || '⚙️';
+      const fallback = workerResult.fallbackFrom ? ` (fallback from ${workerResult.fallbackFrom})` : '';
+      console.log(chalk.gray(`   ${workerEmoji} Worker type: ${workerResult.workerType}${fallback}`));
+    }
+    
+    if (workerResult.model) {
+      console.log(chalk.gray(`   🤖 Model: ${workerResult.model}`));
+    }
+    
+    if (workerResult.duration) {
+      console.log(chalk.gray(`   ⏱️  Duration: ${workerResult.duration}ms`));
+    }
+    
+    // Show search-specific info
+    if (workerResult.searchPerformed) {
+      console.log(chalk.green('   🔍 Web search performed'));
+      if (workerResult.sources && workerResult.sources.length > 0) {
+        console.log(chalk.gray(`   Sources: ${workerResult.sources.length} found`));
+      }
+    } else if (workerResult.workerType === 'search') {
+      console.log(chalk.yellow('   📚 Fallback to training data (web search unavailable)'));
+    }
+    
+    // Show librarian-specific info
+    if (workerResult.filesUsed && workerResult.filesUsed.length > 0) {
+      console.log(chalk.blue(`   📄 Files analyzed: ${workerResult.filesUsed.join(', ')}`));
+    }
+    
+    if (workerResult.passages && workerResult.passages.length > 0) {
+      console.log(chalk.blue(`   🔖 Passages retrieved: ${workerResult.passages.map(passage => passage.id).join(', ')}`));
+    }
+    
+    // Show code-specific info
+    if (workerResult.code) {
+      const repairs = workerResult.code.attempts > 1 ? ` after ${workerResult.code.attempts - 1} repair(s)` : '';
+      console.log(chalk.blue(`   💻 Ran a ${workerResult.code.language} script${repairs}`));
+    }
+    
+    console.log(chalk.white('   ' + workerResult.result.split('\n').join('\n   ')));
+    
+    // Show sources if available
+    if (workerResult.sources && workerResult.sources.length > 0) {
+      console.log(chalk.gray('\n   Sources:'));
+      workerResult.sources.forEach((source, sourceIndex) => {
+        console.log(chalk.gray(`   ${source.id ? `[${source.id}]` : `${sourceIndex + 1}.`} ${source.title} - ${source.url}`));
+        if (source.snippet) {
+          console.log(chalk.gray(`      ${source.snippet}`));
+        }
+      });
+    }
+  });
+  console.log('');
+}
+
+function printUsageLine(result: OrchestratorResult): void {
+  if (result.usage) {
+    console.log(chalk.gray(`\n💰 ${result.usage.total_tokens} tokens in ${result.usage.calls} calls · ${formatCost(result.usage.cost)}`));
+  }
+}
+
+function printBibliography(result: OrchestratorResult): void {
+  if (result.bibliography && result.bibliography.length > 0) {
+    console.log(chalk.yellow('\n📖 Bibliography:'));
+    result.bibliography.forEach(citation => {
+      console.log(chalk.gray(`   [${citation.id}] ${citation.title}${citation.url ? ` - ${citation.url}` : ''}`));
+    });
+  }
+  result.citationIssues?.forEach(issue => {
+    console.log(chalk.yellow(`⚠️  Unknown citation [${issue.id}] in: ${issue.claim}`));
+  });
+}
+
+// One-shot runs always stop after their single round, so there is nothing to say about them
+function printRounds(result: OrchestratorResult): void {
+  const rounds = result.rounds?.length || 1;
+  if (rounds > 1 || (result.stopReason && result.stopReason !== 'max-rounds')) {
+    console.log(chalk.gray(`\n🔁 ${rounds} round${rounds === 1 ? '' : 's'}, stopped: ${result.stopReason}${result.stopError ? ` (${result.stopError})` : ''}`));
+  }
+}
+
+function printSynthesisMode(result: OrchestratorResult): void {
+  if (result.synthesisMode && result.synthesisMode !== 'single') {
+    console.log(chalk.gray(`⚖️  Synthesis: ${describeSynthesis(result.synthesisMode, result.rounds?.[result.rounds.length - 1].synthesisTrace)}`));
+  }
+}
+
+function printContextAdjustments(result: OrchestratorResult): void {
+  if (result.contextAdjustments && result.contextAdjustments.length > 0) {
+    console.log(chalk.yellow('\n✂️  Shrunk to fit context windows:'));
+    result.contextAdjustments.forEach(adjustment => console.log(chalk.gray(`   ${describeAdjustment(adjustment)}`)));
+  }
+}
+
+function printCallSummary(result: OrchestratorResult, logs: LLMCallLog[]): void {
+  console.log(chalk.yellow('📊 Agent Interaction Summary:'));
+  console.log(chalk.cyan(`Total LLM calls: ${logs.length}`));
+  const cachedCalls = logs.filter(log => log.cached).length;
+  if (cachedCalls > 0) {
+    console.log(chalk.cyan(`Served from cache: ${cachedCalls}`));
+  }
+  
+  const totalTokens = logs.reduce((sum, log) => sum + (log.usage?.total_tokens || 0), 0);
+  const totalDuration = logs.reduce((sum, log) => sum + log.duration, 0);
+  
+  if (totalTokens > 0) {
+    console.log(chalk.cyan(`Total tokens used: ${totalTokens}`));
+  }
+  console.log(chalk.cyan(`Total execution time: ${totalDuration}ms`));
+
+  if (result.usage) {
+    console.log(chalk.cyan(`Estimated cost: ${formatCost(result.usage.cost)}`));
+    Object.entries(result.usage.byRole).forEach(([role, totals]) => {
+      console.log(chalk.gray(`   ${role}: ${totals.calls} calls, ${totals.prompt_tokens} + ${totals.completion_tokens} tokens, ${formatCost(totals.cost)}`));
+    });
+    if (result.usage.unpricedModels.length > 0) {
+      console.log(chalk.gray(`   No pricing for: ${result.usage.unpricedModels.join(', ')}`));
+    }
+  }
+  
+  // Show agent statistics
+  const searchResults = result.results.filter(r => r.searchPerformed);
+  if (searchResults.length > 0) {
+    console.log(chalk.cyan(`Web searches performed: ${searchResults.length}`));
+  }
+  
+  const totalSources = result.results.reduce((sum, r) => sum + (r.sources?.length || 0), 0);
+  if (totalSources > 0) {
+    console.log(chalk.cyan(`Sources found: ${totalSources}`));
+  }
+
+  const filesAnalyzed = result.results.filter(r => r.filesUsed && r.filesUsed.length > 0);
+  if (filesAnalyzed.length > 0) {
+    console.log(chalk.cyan(`Document analyses performed: ${filesAnalyzed.length}`));
+  }
+  console.log('');
+}
+
+async function streamOrchestration(
+  orchestrator: FlexibleOrchestrator,
+  task: string,
+  verbose?: boolean,
+  multiRound?: boolean
+): Promise<OrchestratorResult> {
+  // Redrawing lines in place would fight with the verbose call logging
+  const progress = new WorkerProgressRenderer(process.stdout, Boolean(process.stdout.isTTY) && !verbose);
+  let result: OrchestratorResult | null = null;
+  let round = 1;
+  let workerCount = 0;
+
+  for await (const event of orchestrator.orchestrateStream(task)) {
+    switch (event.type) {
+      case 'plan:created':
+        round = event.round;
+        console.log(chalk.yellow(round === 1 ? '🔍 Generated Strategies:' : `\n🔁 Round ${round} Strategies:`));
+        progress.start(event.strategies, workerCount);
+        workerCount += event.strategies.length;
+        break;
+      case 'worker:delta':
+        progress.update(event.index, event.delta);
+        break;
+      case 'worker:end':
+        progress.finish(event.index, event.result);
+        break;
+      case 'worker:error':
+        progress.fail(event.index, event.error);
+        break;
+      case 'synthesis:start':
+        if (verbose) {
+          printWorkerResults(event.results);
+        }
+        console.log(chalk.green(multiRound ? `\n✨ Synthesis (round ${round}):` : '\n✨ Final Synthesis:'));
+        break;
+      case 'synthesis:delta':
+        process.stdout.write(chalk.white(event.delta));
+        break;
+      case 'evaluation:end': {
+        const critique = event.evaluation.critique ? `: ${event.evaluation.critique}` : '';
+        console.log(event.evaluation.accepted
+          ? chalk.green(`\n🧐 Evaluator accepted round ${event.round}${critique}`)
+          : chalk.yellow(`\n🧐 Evaluator found gaps in round ${event.round}${critique}`));
+        break;
+      }
+      case 'done':
+        process.stdout.write('\n');
+        result = event.result;
+        break;
+    }
+  }
+
+  return result!;
+}
+
+async function writeMachineOutput(
+  orchestrator: FlexibleOrchestrator,
+  task: string,
+  format: Exclude<OutputFormat, 'text'>,
+  outPath?: string
+): Promise<void> {
+  const out: NodeJS.WritableStream = outPath ? fs.createWriteStream(outPath) : process.stdout;
+  const recorder = new RunReportRecorder(orchestrator);
+  recorder.start();
+
+  if (format === 'jsonl') {
+    orchestrator.on('llm:call', log => out.write(formatJsonLine({ type: 'llm:call', ...log }) + '\n'));
+
+    for await (const event of orchestrator.orchestrateStream(task)) {
+      // Token deltas would swamp the log; the completed text is in the end events
+      if (event.type === 'worker:delta' || event.type === 'synthesis:delta') continue;
+
+      if (event.type === 'done') {
+        out.write(JSON.stringify({ timestamp: new Date().toISOString(), type: 'done', report: recorder.toReport(event.result) }) + '\n');
+      } else {
+        out.write(formatJsonLine(event) + '\n');
+      }
+    }
+  } else {
+    const result = await orchestrator.orchestrate(task);
+    out.write(format === 'json' ? JSON.stringify(recorder.toReport(result), null, 2) + '\n' : formatMarkdownReport(result));
+  }
+
+  if (outPath) {
+    await new Promise<void>(resolve => out.end(resolve));
+    console.error(chalk.green(`📝 ${format} output written to ${outPath}`));
+  }
 }
 
 program
@@ -27,19 +499,115 @@ program
   .alias('o')
   .description('Execute a task using the orchestrator-workers pattern')
   .argument('<task>', 'Task to be executed')
-  .option('-m, --model <model>', 'OpenAI model to use', 'gpt-4.1')
+  .option('-m, --model <model>', 'Model to use (default: gpt-4.1, or claude-sonnet-4-6 with the anthropic provider)')
+  .option('--simple-model <model>', 'Model for simple workers (default: gpt-4.1-mini, or --model with a self-hosted provider)')
   .option('-t, --temperature <temperature>', 'Temperature for LLM calls', '0.7')
   .option('--max-tokens <tokens>', 'Maximum tokens per LLM call', '1500')
   .option('-c, --context <context>', 'Additional context as JSON string')
   .option('-v, --verbose', 'Verbose output showing all agent interactions and detailed logs')
-  .option('-d, --documents <documents>', 'Comma-separated list of document paths for analysis')
+  .option('-d, --documents <documents>', 'Comma-separated document files, directories or glob patterns for analysis')
+  .option('--include <glob>', 'Only use documents matching this pattern (matched against the file name unless it has a /); repeatable', collectList)
+  .option('--exclude <glob>', 'Skip documents matching this pattern; repeatable', collectList)
+  .option('--max-file-size <mb>', 'Skip documents larger than this many MB', parsePositiveNumber, 20)
+  .option('--librarian-mode <mode>', `How the librarian reads documents: upload them to the provider, or index them locally and retrieve passages (${LIBRARIAN_MODES.join(', ')})`, parseChoice(LIBRARIAN_MODES), 'upload')
+  .option('-p, --provider <provider>', `LLM provider (${PROVIDERS.join(', ')})`, 'openai')
+  .option('--base-url <url>', 'Base URL of the openai-compatible server (e.g. http://localhost:11434/v1 for Ollama); when no role uses that provider, of the --provider API')
+  .option('--provider-url <provider=url>', 'Base URL for one provider, overriding --base-url; repeatable', collectProviderUrl)
+  .option('--role-provider <role=provider>', `Provider for one role (${ROLES.join(', ')}); repeatable`, collectRoleAssignment)
+  .option('--role-model <role=model>', 'Model for one role; repeatable', collectRoleAssignment)
+  .option('--no-stream', 'Wait for the full result instead of streaming worker progress and the synthesis')
+  .option('--max-attempts <n>', 'Attempts per LLM call before giving up on rate limits, server errors and timeouts (default: 3)', parsePositiveNumber)
+  .option('--timeout <seconds>', 'Abort and retry any LLM call that takes longer than this', parsePositiveNumber)
+  .option('--on-worker-failure <mode>', `What to do when a worker fails (${FAILURE_MODES.join(', ')})`, parseChoice(FAILURE_MODES), 'best-effort')
+  .option('--min-successes <n>', 'Minimum successful workers needed to synthesize (default: 1)', parsePositiveNumber)
+  .option('--fallback-agent <type>', `Agent type failed strategies are rerun on with --on-worker-failure fallback (${AGENT_TYPES.join(', ')})`, parseChoice(AGENT_TYPES))
+  .option('--concurrency <n>', 'Maximum LLM requests in flight at once', parsePositiveNumber)
+  .option('--tpm <tokens>', 'Tokens per minute allowed for each model; calls wait until they fit', parsePositiveNumber)
+  .option('--no-cache', 'Send every call to the provider; by default responses other than web searches are cached on disk for --cache-ttl hours')
+  .option('--refresh-cache', 'Ignore cached responses but store the fresh ones')
+  .option('--cache-dir <dir>', 'Directory of the response cache', path.join(os.homedir(), '.cache', 'langelot'))
+  .option('--cache-ttl <hours>', 'Hours a cached response stays valid', parsePositiveNumber, 24)
+  .option('--cache-web-search <hours>', 'Also cache web search answers, for this many hours (default: not cached)', parsePositiveNumber)
+  .option('--record <file>', 'Save every LLM call and its response to a cassette file (calls skip the cache)')
+  .option('--replay <file>', 'Answer LLM calls from a cassette instead of the provider; fails if the prompts differ from the recording')
+  .option('--max-rounds <n>', 'Rounds of plan, execute and synthesize; an evaluator plans each extra round from the gaps it finds (default: 1)', parsePositiveNumber)
+  .option('--token-budget <tokens>', 'Stop starting new rounds once the run has used this many tokens', parsePositiveNumber)
+  .option('--min-strategies <n>', 'Fewest approaches the planner may propose (default: 2)', parsePositiveNumber)
+  .option('--max-strategies <n>', 'Most approaches the planner may propose (default: 3)', parsePositiveNumber)
+  .option('--agents <types>', `Comma-separated agent types the planner may use (${AGENT_TYPES.join(', ')}; default: all registered, code only with --enable-code)`, parseAgentList)
+  .option('--agent-quota <type=n>', 'Minimum approaches of one agent type in the plan; repeatable', collectAgentQuota)
+  .option('--plan-repairs <n>', 'Times the planner is asked to fix a plan that breaks these constraints (default: 2)', parseCount)
+  .option('--no-structured-plans', 'Ask for the plan in the XML format instead of schema-constrained JSON')
+  .option('--synthesis <mode>', `How worker results are combined (${SYNTHESIS_MODES.join(', ')})`, parseChoice(SYNTHESIS_MODES), 'single')
+  .option('--synthesis-samples <n>', 'Syntheses drafted with --synthesis best-of-n (default: 3)', parsePositiveNumber)
+  .option('--context-window <model=tokens>', 'Context window of a model missing from the built-in table, or a smaller one to stay within; *=tokens for every unknown model (default: 8192); repeatable', collectContextWindow)
+  .option('--context-overflow <mode>', `How inputs too large for a model's context window are shrunk (${CONTEXT_OVERFLOW_MODES.join(', ')})`, parseChoice(CONTEXT_OVERFLOW_MODES), 'truncate')
+  .option('--search-provider <provider>', `Search backend search workers query and read pages from themselves instead of the model provider's search tool (${SEARCH_PROVIDERS.join(', ')})`, parseChoice(SEARCH_PROVIDERS))
+  .option('--search-url <url>', 'URL of the SearXNG instance (default: $SEARXNG_URL), or another endpoint for the Brave API')
+  .option('--search-corpus <dir>', 'Directory of HTML and text pages the local search provider searches')
+  .option('--search-pages <n>', 'Pages a search worker reads with --search-provider (default: 4)', parsePositiveNumber)
+  .option('--search-context-size <size>', `How much retrieved content search workers pass to the model (${WEB_SEARCH_CONTEXT_SIZES.join(', ')}; OpenAI only)`, parseChoice(WEB_SEARCH_CONTEXT_SIZES))
+  .option('--search-location <location>', 'Approximate user location for search results, e.g. country=FR,city=Paris (fields: country, region, city, timezone)', parseSearchLocation)
+  .option('--allowed-domains <domains>', 'Comma-separated domains search workers are limited to', parseDomainList)
+  .option('--blocked-domains <domains>', 'Comma-separated domains search workers must not use', parseDomainList)
+  .option('--enable-code', 'Let the planner use the code worker, which runs scripts the model writes in a local sandbox (off by default)')
+  .option('--code-timeout <seconds>', 'Time limit for each script the code worker runs (default: 10)', parsePositiveNumber)
+  .option('--code-memory <mb>', 'Memory limit for each script the code worker runs (default: 256)', parsePositiveNumber)
+  .option('--code-repairs <n>', 'Times the code worker may fix a failing script (default: 2)', parseCount)
+  .option('--budget <usd>', 'Abort the run before a call could push its cost past this many USD', parsePositiveNumber)
+  .option('--pricing <file>', 'JSON file of per-model prices in USD per million tokens, e.g. {"my-model": {"input": 1, "output": 2}}')
+  .option('-o, --output <format>', `Output format (${OUTPUT_FORMATS.join(', ')})`, 'text')
+  .option('--out <file>', 'Write the output to a file instead of stdout (text output saves the synthesis)')
   .action(async (task: string, options: CLIOptions) => {
     try {
-      console.log(chalk.blue('🚀 Starting Langelot orchestration...\n'));
-      
-      // Validate API key
-      if (!process.env.OPENAI_API_KEY) {
-        console.error(chalk.red('❌ Error: OPENAI_API_KEY environment variable is required'));
+      const output = (options.output || 'text') as OutputFormat;
+      if (!OUTPUT_FORMATS.includes(output)) {
+        console.error(chalk.red(`❌ Error: Unknown output format "${options.output}". Expected one of: ${OUTPUT_FORMATS.join(', ')}`));
+        process.exit(1);
+      }
+
+      // Structured output owns stdout, so human-readable status goes to stderr
+      const info = output === 'text' ? console.log : console.error;
+      info(chalk.blue('🚀 Starting Langelot orchestration...\n'));
+
+      if (options.record && options.replay) {
+        console.error(chalk.red('❌ Error: --record and --replay cannot be used together'));
+        process.exit(1);
+      }
+
+      if (options.allowedDomains && options.blockedDomains) {
+        console.error(chalk.red('❌ Error: --allowed-domains and --blocked-domains cannot be used together'));
+        process.exit(1);
+      }
+
+      const provider = (options.provider || 'openai') as ProviderName;
+      const roleProviders = (options.roleProvider || {}) as Partial<Record<OrchestratorRole, ProviderName>>;
+      const usedProviders = new Set<ProviderName>([provider, ...Object.values(roleProviders)]);
+      // With per-role providers, --base-url only points the self-hosted one at its server
+      const baseUrlFor = (name: ProviderName): string | undefined => options.providerUrl?.[name]
+        ?? (name === 'openai-compatible' || (!usedProviders.has('openai-compatible') && name === provider) ? options.baseUrl : undefined);
+
+      for (const name of usedProviders) {
+        if (!PROVIDERS.includes(name)) {
+          console.error(chalk.red(`❌ Error: Unknown provider "${name}". Expected one of: ${PROVIDERS.join(', ')}`));
+          process.exit(1);
+        }
+        if (name === 'openai-compatible' && !baseUrlFor(name)) {
+          console.error(chalk.red('❌ Error: --base-url is required with the openai-compatible provider'));
+          process.exit(1);
+        }
+
+        // Validate API keys (self-hosted OpenAI-compatible servers usually don't need one)
+        const keyEnv = API_KEY_ENV[name];
+        if (keyEnv && !process.env[keyEnv] && !options.replay) {
+          console.error(chalk.red(`❌ Error: ${keyEnv} environment variable is required`));
+          process.exit(1);
+        }
+      }
+
+      const model = options.model || DEFAULT_MODELS[provider];
+      if (!model) {
+        console.error(chalk.red(`❌ Error: --model is required with the ${provider} provider`));
         process.exit(1);
       }
 
@@ -54,139 +622,291 @@ program
         }
       }
 
-      // Parse documents if provided
+      // Expand directories and globs, and decide which files to use before anything is uploaded or indexed
       let documents: string[] = [];
+      let documentSelection: DocumentSelection | null = null;
       if (options.documents) {
-        documents = options.documents.split(',').map(f => f.trim());
+        documentSelection = resolveDocuments(splitDocumentInputs(options.documents), {
+          include: options.include,
+          exclude: options.exclude,
+          maxFileSize: options.maxFileSize! * 1024 * 1024,
+          extensions: librarianExtensions(options.librarianMode),
+        });
+        documents = documentSelection.files.map(file => file.path);
+        if (documents.length === 0) {
+          printDocumentSelection(documentSelection, options.librarianMode!, console.error);
+          console.error(chalk.red('❌ Error: None of the documents can be used'));
+          process.exit(1);
+        }
+      }
+
+      let pricing: PricingTable | undefined;
+      if (options.pricing) {
+        try {
+          pricing = JSON.parse(fs.readFileSync(options.pricing, 'utf-8'));
+        } catch (error) {
+          console.error(chalk.red(`❌ Error: Could not read pricing file ${options.pricing}: ${error}`));
+          process.exit(1);
+        }
+      }
+
+      // A replayed run answers every provider from the same cassette
+      let replay: ReplayConnector | null = null;
+      if (options.replay) {
+        try {
+          replay = new ReplayConnector(options.replay);
+        } catch (error) {
+          console.error(chalk.red(`❌ Error: ${error instanceof Error ? error.message : error}`));
+          process.exit(1);
+        }
+      }
+      const cassette = options.record ? new CassetteRecorder() : null;
+
+      // Initialize one connector per provider and route roles to them
+      const cacheStore = options.cache !== false && !replay ? new FileCacheStore(options.cacheDir!) : null;
+      const connectors = new Map<ProviderName, LLMConnector>();
+      const connectorFor = (name: ProviderName): LLMConnector => {
+        if (replay) {
+          return replay;
+        }
+        if (!connectors.has(name)) {
+          let created = createConnector({
+            provider: name,
+            baseURL: baseUrlFor(name),
+          });
+          if (cacheStore) {
+            created = new CachingConnector(created, {
+              store: cacheStore,
+              ttlMs: options.cacheTtl! * 3600_000,
+              webSearchTtlMs: options.cacheWebSearch ? options.cacheWebSearch * 3600_000 : undefined,
+              // A recording must capture what the provider says now
+              refresh: options.refreshCache || !!cassette,
+              namespace: baseUrlFor(name) ? `${name}:${baseUrlFor(name)}` : name,
+            });
+          }
+          connectors.set(name, cassette ? new RecordingConnector(created, cassette) : created);
+        }
+        return connectors.get(name)!;
+      };
+      const connector = connectorFor(provider);
+
+      const roles: Partial<Record<OrchestratorRole, RoleConfig>> = {};
+      for (const role of ROLES) {
+        const roleProvider = roleProviders[role];
+        const roleModel = options.roleModel?.[role]
+          || (roleProvider && roleProvider !== provider ? DEFAULT_MODELS[roleProvider] : undefined);
+        if (roleProvider && roleProvider !== provider && !roleModel) {
+          console.error(chalk.red(`❌ Error: --role-model ${role}=<model> is required when ${role} uses the ${roleProvider} provider`));
+          process.exit(1);
+        }
+        if (roleProvider || roleModel) {
+          roles[role] = {
+            connector: roleProvider ? connectorFor(roleProvider) : undefined,
+            model: roleModel,
+          };
+        }
+      }
+
+      let searchProvider: SearchProvider | undefined;
+      if (options.searchProvider) {
+        try {
+          searchProvider = await createSearchProvider({
+            provider: options.searchProvider,
+            baseURL: options.searchUrl || (options.searchProvider === 'searxng' ? process.env.SEARXNG_URL : undefined),
+            corpus: options.searchCorpus,
+          });
+        } catch (error) {
+          console.error(chalk.red(`❌ Error: ${error instanceof Error ? error.message : error}`));
+          process.exit(1);
+        }
+      }
+
+      // Search settings, librarian modes and sandbox limits are options of the worker definitions themselves
+      const workers = new WorkerRegistry({ builtins: false })
+        .register(simpleWorkerDefinition)
+        .register(createSearchWorkerDefinition({
+          provider: searchProvider,
+          maxPages: options.searchPages ? Math.floor(options.searchPages) : undefined,
+          search: {
+            contextSize: options.searchContextSize,
+            userLocation: options.searchLocation,
+            allowedDomains: options.allowedDomains,
+            blockedDomains: options.blockedDomains,
+          },
+        }))
+        .register(createLibrarianWorkerDefinition({ mode: options.librarianMode }));
+      if (options.enableCode) {
+        workers.register(createCodeWorkerDefinition({
+          maxRepairs: options.codeRepairs,
+          sandbox: {
+            ...(options.codeTimeout ? { timeoutMs: options.codeTimeout * 1000 } : {}),
+            ...(options.codeMemory ? { memoryMb: Math.floor(options.codeMemory) } : {}),
+          },
+        }));
+      }
+      const requested = [...(options.agents || []), ...Object.keys(options.agentQuota || {}), options.fallbackAgent];
+      if (!options.enableCode && requested.includes('code')) {
+        console.error(chalk.red('❌ Error: the code agent runs generated scripts and needs --enable-code'));
+        process.exit(1);
       }
 
-      // Initialize connector and orchestrator
-      const connector = new OpenAIConnector(undefined, options.verbose);
       const orchestratorOptions: OrchestratorOptions = {
-        model: options.model || 'gpt-4.1',
+        model,
+        // gpt-4.1-mini only exists on OpenAI, so default simple workers to the main model elsewhere
+        simpleModel: options.simpleModel || (provider === 'openai' ? 'gpt-4.1-mini' : model),
         temperature: parseFloat(String(options.temperature || '0.7')),
         maxTokens: parseInt(String(options.maxTokens || '1500')),
         context,
         documents,
+        roles,
+        retry: {
+          ...(options.maxAttempts ? { maxAttempts: Math.floor(options.maxAttempts) } : {}),
+          ...(options.timeout ? { timeoutMs: options.timeout * 1000 } : {}),
+        },
+        workerFailure: {
+          mode: options.onWorkerFailure || 'best-effort',
+          minSuccesses: options.minSuccesses ? Math.floor(options.minSuccesses) : undefined,
+          fallbackAgent: options.fallbackAgent,
+        },
+        pricing,
+        budgetUsd: options.budget,
+        maxRounds: options.maxRounds ? Math.floor(options.maxRounds) : undefined,
+        tokenBudget: options.tokenBudget,
+        minStrategies: options.minStrategies ? Math.floor(options.minStrategies) : undefined,
+        maxStrategies: options.maxStrategies ? Math.floor(options.maxStrategies) : undefined,
+        allowedAgents: options.agents,
+        agentQuotas: options.agentQuota,
+        planRepairs: options.planRepairs,
+        structuredPlans: options.structuredPlans,
+        synthesis: {
+          mode: options.synthesis || 'single',
+          samples: options.synthesisSamples ? Math.floor(options.synthesisSamples) : undefined,
+        },
+        contextWindows: options.contextWindow,
+        contextOverflow: options.contextOverflow,
+        workers,
+        scheduler: options.concurrency || options.tpm
+          ? new RequestScheduler({
+              maxConcurrency: options.concurrency ? Math.floor(options.concurrency) : undefined,
+              tokensPerMinute: options.tpm,
+            })
+          : undefined,
       };
 
       const orchestrator = new FlexibleOrchestrator(connector, orchestratorOptions);
+      if (options.verbose && output === 'text') {
+        orchestrator.on('llm:call', printCallLog);
+        orchestrator.on('worker:error', event => {
+          console.log(chalk.red(`\n❌ Worker "${event.approach}" (${event.agentType}) failed after ${event.duration}ms: ${event.error.message}`));
+        });
+      }
 
-      console.log(chalk.green(`📋 Task: ${task}`));
+      info(chalk.green(`📋 Task: ${task}`));
       if (Object.keys(context).length > 0) {
-        console.log(chalk.gray(`📝 Context: ${JSON.stringify(context, null, 2)}`));
+        info(chalk.gray(`📝 Context: ${JSON.stringify(context, null, 2)}`));
+      }
+      info(chalk.gray(`🤖 Model: ${orchestratorOptions.model}`));
+      if (provider !== 'openai' || baseUrlFor(provider)) {
+        info(chalk.gray(`🔌 Provider: ${provider}${baseUrlFor(provider) ? ` (${baseUrlFor(provider)})` : ''}`));
       }
-      console.log(chalk.gray(`🤖 Model: ${orchestratorOptions.model}`));
+      Object.entries(roles).forEach(([role, config]) => {
+        info(chalk.gray(`   ${role}: ${roleProviders[role as OrchestratorRole] || provider} / ${config?.model || 'default model'}`));
+      });
       if (options.verbose) {
-        console.log(chalk.gray(`🔧 Verbose mode enabled - showing all agent interactions`));
+        info(chalk.gray(`🔧 Verbose mode enabled - showing all agent interactions`));
       }
-      if (documents.length > 0) {
-        console.log(chalk.gray(`📚 Documents available: ${documents.length} files`));
+      if (documentSelection) {
+        printDocumentSelection(documentSelection, options.librarianMode!, info);
       }
-      console.log('');
-
-      // Execute orchestration
-      const result = await orchestrator.orchestrate(task);
-
-      // Display summary (non-verbose output)
-      if (!options.verbose) {
-        console.log(chalk.yellow('🔍 Generated Strategies:'));
-        result.strategies.forEach((strategy, index) => {
-          console.log(chalk.cyan(`${index + 1}. ${strategy.approach}`));
-        });
-        console.log('');
+      if (options.budget) {
+        info(chalk.gray(`💰 Budget: ${formatCost(options.budget)}`));
+      }
+      if (replay) {
+        info(chalk.gray(`📼 Replaying: ${options.replay}`));
+      }
+      if (cassette) {
+        info(chalk.gray(`📼 Recording to: ${options.record}`));
       }
+      if (cacheStore) {
+        info(chalk.gray(`🗄️  Response cache: ${options.cacheDir}${options.refreshCache ? ' (refreshing)' : ''}`));
+      }
+      if (options.concurrency || options.tpm) {
+        const limits = [
+          options.concurrency && `${Math.floor(options.concurrency)} concurrent requests`,
+          options.tpm && `${options.tpm} tokens/min per model`,
+        ].filter(Boolean);
+        info(chalk.gray(`🚦 Rate limits: ${limits.join(', ')}`));
+      }
+      info('');
 
-      // Show worker results in verbose mode
-      if (options.verbose) {
-        console.log(chalk.yellow('\n⚙️  Worker Results:'));
-        result.results.forEach((workerResult, index) => {
-          console.log(chalk.cyan(`\n${index + 1}. ${workerResult.approach}:`));
-          
-          // Show worker type and model info
-          if (workerResult.workerType) {
-            const workerEmoji = {
-              'simple': '⚡',
-              'search': '🔍',
-              'librarian': '📚'
-            }[workerResult.workerType] || '⚙️';
-            console.log(chalk.gray(`   ${workerEmoji} Worker type: ${workerResult.workerType}`));
-          }
-          
-          if (workerResult.model) {
-            console.log(chalk.gray(`   🤖 Model: ${workerResult.model}`));
-          }
-          
-          if (workerResult.duration) {
-            console.log(chalk.gray(`   ⏱️  Duration: ${workerResult.duration}ms`));
-          }
-          
-          // Show search-specific info
-          if (workerResult.searchPerformed) {
-            console.log(chalk.green('   🔍 Web search performed'));
-            if (workerResult.sources && workerResult.sources.length > 0) {
-              console.log(chalk.gray(`   Sources: ${workerResult.sources.length} found`));
-            }
-          } else if (workerResult.workerType === 'search') {
-            console.log(chalk.yellow('   📚 Fallback to training data (web search unavailable)'));
+      const execute = async (): Promise<void> => {
+        if (output !== 'text') {
+          await writeMachineOutput(orchestrator, task, output, options.out);
+          return;
+        }
+
+        // Execute orchestration, streaming worker progress and the synthesis unless disabled
+        if (options.stream !== false) {
+          const result = await streamOrchestration(orchestrator, task, options.verbose, (options.maxRounds || 1) > 1);
+          printBibliography(result);
+          printRounds(result);
+          printSynthesisMode(result);
+          printContextAdjustments(result);
+          if (options.verbose) {
+            printCallSummary(result, orchestrator.getCallLogs());
+          } else {
+            printUsageLine(result);
           }
-          
-          // Show librarian-specific info
-          if (workerResult.filesUsed && workerResult.filesUsed.length > 0) {
-            console.log(chalk.blue(`   📄 Files analyzed: ${workerResult.filesUsed.join(', ')}`));
+          if (options.out) {
+            fs.writeFileSync(options.out, result.synthesis);
           }
-          
-          console.log(chalk.white('   ' + workerResult.result.split('\n').join('\n   ')));
-          
-          // Show sources if available
-          if (workerResult.sources && workerResult.sources.length > 0) {
-            console.log(chalk.gray('\n   Sources:'));
-            workerResult.sources.forEach((source, sourceIndex) => {
-              console.log(chalk.gray(`   ${sourceIndex + 1}. ${source.title} - ${source.url}`));
-              if (source.snippet) {
-                console.log(chalk.gray(`      ${source.snippet}`));
-              }
-            });
-          }
-        });
-        console.log('');
-      }
+          return;
+        }
 
-      // Show call logs summary if verbose
-      if (options.verbose) {
-        const logs = connector.getCallLogs();
-        console.log(chalk.yellow('📊 Agent Interaction Summary:'));
-        console.log(chalk.cyan(`Total LLM calls: ${logs.length}`));
-        
-        const totalTokens = logs.reduce((sum, log) => sum + (log.usage?.total_tokens || 0), 0);
-        const totalDuration = logs.reduce((sum, log) => sum + log.duration, 0);
-        
-        if (totalTokens > 0) {
-          console.log(chalk.cyan(`Total tokens used: ${totalTokens}`));
+        const result = await orchestrator.orchestrate(task);
+
+        // Display summary (non-verbose output)
+        if (!options.verbose) {
+          console.log(chalk.yellow('🔍 Generated Strategies:'));
+          result.strategies.forEach((strategy, index) => {
+            const error = result.results[index]?.error;
+            console.log(chalk.cyan(`${index + 1}. ${strategy.approach}`) + (error ? chalk.red(` (failed: ${error})`) : ''));
+          });
+          console.log('');
+        }
+
+        // Show worker results and call logs summary in verbose mode
+        if (options.verbose) {
+          printWorkerResults(result.results);
+          printCallSummary(result, orchestrator.getCallLogs());
         }
-        console.log(chalk.cyan(`Total execution time: ${totalDuration}ms`));
-        
-        // Show agent statistics
-        const searchResults = result.results.filter(r => r.searchPerformed);
-        if (searchResults.length > 0) {
-          console.log(chalk.cyan(`Web searches performed: ${searchResults.length}`));
+
+        printRounds(result);
+        printSynthesisMode(result);
+        console.log(chalk.green('✨ Final Synthesis:'));
+        console.log(chalk.white(result.synthesis));
+        printBibliography(result);
+        printContextAdjustments(result);
+        if (!options.verbose) {
+          printUsageLine(result);
         }
-        
-        const totalSources = result.results.reduce((sum, r) => sum + (r.sources?.length || 0), 0);
-        if (totalSources > 0) {
-          console.log(chalk.cyan(`Sources found: ${totalSources}`));
+
+        if (options.out) {
+          fs.writeFileSync(options.out, result.synthesis);
         }
+      };
 
-        const filesAnalyzed = result.results.filter(r => r.filesUsed && r.filesUsed.length > 0);
-        if (filesAnalyzed.length > 0) {
-          console.log(chalk.cyan(`Document analyses performed: ${filesAnalyzed.length}`));
+      try {
+        await execute();
+        // Best-effort runs can absorb a drifted worker call, so check the whole recording was used
+        replay?.verify();
+      } finally {
+        if (cassette) {
+          cassette.save(options.record!);
+          info(chalk.gray(`📼 Cassette saved to ${options.record}`));
         }
-        console.log('');
       }
 
-      console.log(chalk.green('✨ Final Synthesis:'));
-      console.log(chalk.white(result.synthesis));
-
     } catch (error) {
       console.error(chalk.red(`❌ Error: ${error}`));
       process.exit(1);
@@ -213,8 +933,8 @@ program
     console.log(chalk.white('• Document upload and analysis support'));
     console.log('');
     console.log(chalk.yellow('Requirements:'));
-    console.log(chalk.white('• OPENAI_API_KEY environment variable'));
-    console.log(chalk.white('• OpenAI API access'));
+    console.log(chalk.white('• OPENAI_API_KEY environment variable (ANTHROPIC_API_KEY for the anthropic provider)'));
+    console.log(chalk.white('• OpenAI or Anthropic API access, or an OpenAI-compatible server via --base-url'));
   });
 
 // Handle unhandled promise rejections
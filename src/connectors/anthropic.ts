@@ -0,0 +1,460 @@
+import Anthropic from '@anthropic-ai/sdk';
+import fs from 'fs';
+import path from 'path';
+import {
+  LLMConnector,
+  LLMResponse,
+  FileUploadResponse,
+  WebSearchResponse,
+  WebSearchOptions,
+  WebSearchSource,
+  LLMCallLog,
+  CallListener,
+  CallLogRecorder,
+  JsonSchemaFormat,
+} from './connector.js';
+import { RetryPolicy, RetryRecord, DEFAULT_RETRY_POLICY, withRetry } from './retry.js';
+
+// The Messages API requires max_tokens on every request; used where the caller has no opinion
+const DEFAULT_MAX_TOKENS = 4096;
+
+interface StoredDocument {
+  name: string;
+  mediaType: 'application/pdf' | 'text/plain';
+  data: string;
+}
+
+/**
+ * Connector for the Anthropic Messages API. Documents are not uploaded anywhere:
+ * `uploadFile` keeps them in memory under a local ID and `fileBasedCall` sends them
+ * inline as document content blocks.
+ */
+export class AnthropicConnector implements LLMConnector {
+  private client: Anthropic;
+  private recorder: CallLogRecorder = new CallLogRecorder();
+  private retryPolicy: RetryPolicy = { ...DEFAULT_RETRY_POLICY };
+  private documents: Map<string, StoredDocument> = new Map();
+
+  constructor(apiKey?: string, baseURL?: string) {
+    this.client = new Anthropic({
+      apiKey: apiKey || process.env.ANTHROPIC_API_KEY,
+      baseURL,
+      // Retries are handled by our own policy so they show up in the call logs
+      maxRetries: 0,
+    });
+  }
+
+  getCallLogs(): LLMCallLog[] {
+    return this.recorder.getLogs();
+  }
+
+  clearLogs(): void {
+    this.recorder.clear();
+  }
+
+  onCall(listener: CallListener): () => void {
+    return this.recorder.subscribe(listener);
+  }
+
+  setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    this.retryPolicy = { ...this.retryPolicy, ...policy };
+  }
+
+  async llmCall(
+    prompt: string,
+    model: string = 'claude-sonnet-4-6',
+    maxTokens: number = 1000,
+    temperature: number = 0.7,
+    role?: string
+  ): Promise<LLMResponse> {
+    const startTime = Date.now();
+    const timestamp = new Date();
+
+    try {
+      const { value: response, attempts, retries } = await withRetry(
+        signal => this.client.messages.create({
+          model,
+          max_tokens: maxTokens,
+          temperature,
+          messages: [{ role: 'user', content: prompt }],
+        }, { signal }),
+        this.retryPolicy
+      );
+
+      const responseContent = this.extractText(response.content);
+      if (!responseContent) {
+        throw new Error('No content received from Anthropic');
+      }
+
+      const duration = Date.now() - startTime;
+      const usage = this.mapUsage(response.usage);
+
+      // Log the call
+      const callLog: LLMCallLog = {
+        timestamp,
+        role,
+        prompt,
+        model: response.model || model,
+        maxTokens,
+        temperature,
+        response: responseContent,
+        usage,
+        duration,
+        attempts,
+        retries,
+      };
+      this.recorder.record(callLog);
+
+      return {
+        content: responseContent,
+        model: response.model || model,
+        usage,
+      };
+    } catch (error) {
+      throw new Error(`Anthropic API call failed: ${error}`);
+    }
+  }
+
+  /**
+   * The Messages API has no JSON mode, so the schema becomes the input of a tool the
+   * model is forced to call, and the tool input is returned as the JSON content.
+   */
+  async structuredCall(
+    prompt: string,
+    format: JsonSchemaFormat,
+    model: string = 'claude-sonnet-4-6',
+    maxTokens: number = 1000,
+    temperature: number = 0.7,
+    role?: string
+  ): Promise<LLMResponse> {
+    const startTime = Date.now();
+    const timestamp = new Date();
+
+    try {
+      const { value: response, attempts, retries } = await withRetry(
+        signal => this.client.messages.create({
+          model,
+          max_tokens: maxTokens,
+          temperature,
+          tools: [{ name: format.name, input_schema: format.schema as Anthropic.Tool.InputSchema }],
+          tool_choice: { type: 'tool', name: format.name },
+          messages: [{ role: 'user', content: prompt }],
+        }, { signal }),
+        this.retryPolicy
+      );
+
+      const toolUse = response.content.find((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use');
+      if (!toolUse) {
+        throw new Error('No structured output received from Anthropic');
+      }
+      const responseContent = JSON.stringify(toolUse.input);
+
+      const duration = Date.now() - startTime;
+      const usage = this.mapUsage(response.usage);
+
+      this.recorder.record({
+        timestamp,
+        role,
+        prompt,
+        model: response.model || model,
+        maxTokens,
+        temperature,
+        response: responseContent,
+        usage,
+        duration,
+        attempts,
+        retries,
+      });
+
+      return {
+        content: responseContent,
+        model: response.model || model,
+        usage,
+      };
+    } catch (error) {
+      throw new Error(`Anthropic structured call failed: ${error}`);
+    }
+  }
+
+  async *llmStream(
+    prompt: string,
+    model: string = 'claude-sonnet-4-6',
+    maxTokens: number = 1000,
+    temperature: number = 0.7,
+    role?: string
+  ): AsyncGenerator<string> {
+    const startTime = Date.now();
+    const timestamp = new Date();
+
+    let responseContent = '';
+    let responseModel = model;
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let attempts = 0;
+    let retries: RetryRecord[] = [];
+
+    try {
+      const outcome = await withRetry(
+        signal => this.client.messages.create({
+          model,
+          max_tokens: maxTokens,
+          temperature,
+          messages: [{ role: 'user', content: prompt }],
+          stream: true,
+        }, { signal }),
+        this.retryPolicy
+      );
+      attempts = outcome.attempts;
+      retries = outcome.retries;
+
+      for await (const event of outcome.value) {
+        if (event.type === 'message_start') {
+          responseModel = event.message.model || model;
+          inputTokens = event.message.usage?.input_tokens || 0;
+        } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+          responseContent += event.delta.text;
+          yield event.delta.text;
+        } else if (event.type === 'message_delta') {
+          outputTokens = event.usage?.output_tokens || 0;
+        }
+      }
+    } catch (error) {
+      throw new Error(`Anthropic streaming call failed: ${error}`);
+    }
+
+    const duration = Date.now() - startTime;
+    this.recorder.record({
+      timestamp,
+      role,
+      prompt,
+      model: responseModel,
+      maxTokens,
+      temperature,
+      response: responseContent,
+      usage: {
+        prompt_tokens: inputTokens,
+        completion_tokens: outputTokens,
+        total_tokens: inputTokens + outputTokens,
+      },
+      duration,
+      attempts,
+      retries,
+    });
+
+  }
+
+  async webSearchCall(
+    input: string,
+    model: string = 'claude-sonnet-4-6',
+    role?: string,
+    options: WebSearchOptions = {},
+    maxTokens: number = DEFAULT_MAX_TOKENS
+  ): Promise<WebSearchResponse> {
+    const startTime = Date.now();
+    const timestamp = new Date();
+
+    try {
+      const { value: response, attempts, retries } = await withRetry(
+        signal => this.client.messages.create({
+          model,
+          max_tokens: maxTokens,
+          tools: [this.webSearchTool(options)],
+          messages: [{ role: 'user', content: input }],
+        }, { signal }),
+        this.retryPolicy
+      );
+
+      const duration = Date.now() - startTime;
+      const responseContent = this.extractText(response.content);
+      const sources = this.extractSources(response.content);
+      const usage = this.mapUsage(response.usage);
+
+      // Log the call
+      const callLog: LLMCallLog = {
+        timestamp,
+        role,
+        prompt: input,
+        model: response.model || model,
+        maxTokens,
+        temperature: 0, // Not set for tool calls
+        response: responseContent,
+        usage,
+        duration,
+        attempts,
+        retries,
+      };
+      this.recorder.record(callLog);
+
+      return {
+        content: responseContent,
+        model: response.model || model,
+        sources,
+        usage,
+      };
+    } catch (error) {
+      throw new Error(`Anthropic Web Search API call failed: ${error}`);
+    }
+  }
+
+  async uploadFile(filePath: string, purpose: string = 'user_data'): Promise<FileUploadResponse> {
+    const extension = path.extname(filePath).toLowerCase();
+    const mediaType = extension === '.pdf' ? 'application/pdf' : 'text/plain';
+
+    try {
+      const buffer = await fs.promises.readFile(filePath);
+      const id = `local-doc-${this.documents.size + 1}`;
+      this.documents.set(id, {
+        name: path.basename(filePath),
+        mediaType,
+        data: mediaType === 'application/pdf' ? buffer.toString('base64') : buffer.toString('utf-8'),
+      });
+
+      return {
+        id,
+        object: 'file',
+        bytes: buffer.length,
+        created_at: Math.floor(Date.now() / 1000),
+        filename: path.basename(filePath),
+        purpose,
+      };
+    } catch (error) {
+      throw new Error(`Anthropic document load failed: ${error}`);
+    }
+  }
+
+  async fileBasedCall(
+    textContent: string,
+    fileIds: string[],
+    model: string = 'claude-sonnet-4-6',
+    role?: string,
+    maxTokens: number = DEFAULT_MAX_TOKENS
+  ): Promise<LLMResponse> {
+    const startTime = Date.now();
+    const timestamp = new Date();
+
+    try {
+      const documentBlocks: Anthropic.DocumentBlockParam[] = fileIds.map(fileId => {
+        const document = this.documents.get(fileId);
+        if (!document) {
+          throw new Error(`Unknown document ID: ${fileId}`);
+        }
+        return {
+          type: 'document',
+          title: document.name,
+          source: document.mediaType === 'application/pdf'
+            ? { type: 'base64', media_type: 'application/pdf', data: document.data }
+            : { type: 'text', media_type: 'text/plain', data: document.data },
+        };
+      });
+
+      const { value: response, attempts, retries } = await withRetry(
+        signal => this.client.messages.create({
+          model,
+          max_tokens: maxTokens,
+          messages: [
+            {
+              role: 'user',
+              content: [...documentBlocks, { type: 'text', text: textContent }],
+            },
+          ],
+        }, { signal }),
+        this.retryPolicy
+      );
+
+      const responseContent = this.extractText(response.content);
+      if (!responseContent) {
+        throw new Error('No content received from Anthropic file-based call');
+      }
+
+      const duration = Date.now() - startTime;
+      const usage = this.mapUsage(response.usage);
+
+      // Log the call
+      const callLog: LLMCallLog = {
+        timestamp,
+        role,
+        prompt: `[FILE-BASED] ${textContent}`,
+        model: response.model || model,
+        maxTokens,
+        temperature: 0, // Not set for document calls
+        response: responseContent,
+        usage,
+        duration,
+        attempts,
+        retries,
+      };
+      this.recorder.record(callLog);
+
+      return {
+        content: responseContent,
+        model: response.model || model,
+        usage,
+      };
+    } catch (error) {
+      throw new Error(`Anthropic file-based API call failed: ${error}`);
+    }
+  }
+
+  private extractText(content: Anthropic.ContentBlock[]): string {
+    return content
+      .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+      .map(block => block.text)
+      .join('');
+  }
+
+  // The context size has no Anthropic equivalent and is ignored
+  private webSearchTool({ userLocation, allowedDomains, blockedDomains }: WebSearchOptions): Anthropic.WebSearchTool20250305 {
+    return {
+      type: 'web_search_20250305',
+      name: 'web_search',
+      max_uses: 5,
+      ...(userLocation ? { user_location: { type: 'approximate', ...userLocation } } : {}),
+      ...(allowedDomains?.length ? { allowed_domains: allowedDomains } : {}),
+      ...(blockedDomains?.length ? { blocked_domains: blockedDomains } : {}),
+    };
+  }
+
+  private extractSources(content: Anthropic.ContentBlock[]): WebSearchSource[] {
+    const sources = new Map<string, WebSearchSource>();
+    let offset = 0;
+
+    // Prefer the passages the model actually cited, then fill in the remaining search results.
+    // A citation covers its whole text block, at the block's position in the joined text.
+    for (const block of content) {
+      if (block.type !== 'text') continue;
+      for (const citation of block.citations || []) {
+        if (citation.type === 'web_search_result_location' && !sources.has(citation.url)) {
+          sources.set(citation.url, {
+            title: citation.title || citation.url,
+            url: citation.url,
+            snippet: citation.cited_text,
+            startIndex: offset,
+            endIndex: offset + block.text.length,
+          });
+        }
+      }
+      offset += block.text.length;
+    }
+
+    for (const block of content) {
+      if (block.type !== 'web_search_tool_result' || !Array.isArray(block.content)) continue;
+      for (const result of block.content) {
+        if (!sources.has(result.url)) {
+          sources.set(result.url, { title: result.title, url: result.url });
+        }
+      }
+    }
+
+    return [...sources.values()];
+  }
+
+  private mapUsage(usage: Anthropic.Usage): NonNullable<LLMResponse['usage']> {
+    const promptTokens = usage?.input_tokens || 0;
+    const completionTokens = usage?.output_tokens || 0;
+    return {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    };
+  }
+}
@@ -0,0 +1,316 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import {
+  LLMConnector,
+  LLMResponse,
+  FileUploadResponse,
+  WebSearchResponse,
+  WebSearchOptions,
+  LLMCallLog,
+  CallListener,
+  JsonSchemaFormat,
+  CallLogRecorder,
+} from './connector.js';
+import { RetryPolicy } from './retry.js';
+
+export interface CacheEntry {
+  createdAt: number;
+  /** Unset when the entry never expires */
+  expiresAt?: number;
+  response: WebSearchResponse;
+}
+
+/**
+ * Storage backend for `CachingConnector`. Keys are hex digests, safe to use as file names.
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export class MemoryCacheStore implements CacheStore {
+  private entries: Map<string, CacheEntry> = new Map();
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return this.entries.get(key);
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.set(key, entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * One JSON file per entry in `directory`, so the cache survives between CLI runs.
+ */
+export class FileCacheStore implements CacheStore {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.pathFor(key), 'utf-8'));
+    } catch {
+      // Missing or unreadable entries are plain misses
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    // Write then rename so a concurrent reader never sees half a file
+    const temporary = `${this.pathFor(key)}.${process.pid}.tmp`;
+    await fs.promises.writeFile(temporary, JSON.stringify(entry));
+    await fs.promises.rename(temporary, this.pathFor(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.pathFor(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    await fs.promises.rm(this.directory, { recursive: true, force: true });
+  }
+
+  private pathFor(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+}
+
+export interface CachingConnectorOptions {
+  store?: CacheStore;
+  /** Entry lifetime; unset means entries never expire */
+  ttlMs?: number;
+  /** Lifetime of web search answers, which go stale sooner than the rest; unset leaves web search uncached */
+  webSearchTtlMs?: number;
+  /** Skip lookups but still store fresh responses, replacing what was cached */
+  refresh?: boolean;
+  /** Mixed into every key, e.g. the provider and base URL, so backends sharing a store don't collide */
+  namespace?: string;
+}
+
+type CallKind = 'llm' | 'structured' | 'web-search' | 'file-based';
+
+/**
+ * Serves repeated calls from a cache. A call's key covers the call kind, role, model,
+ * prompt, temperature, max tokens, output schema and file IDs. Hits are recorded in the call log with
+ * `cached: true` and no usage, since nothing was sent to the provider; misses are
+ * recorded by the wrapped connector as usual. Web search calls are only cached with
+ * `webSearchTtlMs`.
+ */
+export class CachingConnector implements LLMConnector {
+  private inner: LLMConnector;
+  private store: CacheStore;
+  private ttlMs?: number;
+  private webSearchTtlMs?: number;
+  private refresh: boolean;
+  private namespace: string;
+  private recorder: CallLogRecorder = new CallLogRecorder();
+
+  constructor(inner: LLMConnector, options: CachingConnectorOptions = {}) {
+    this.inner = inner;
+    this.store = options.store || new MemoryCacheStore();
+    this.ttlMs = options.ttlMs;
+    this.webSearchTtlMs = options.webSearchTtlMs;
+    this.refresh = options.refresh || false;
+    this.namespace = options.namespace || '';
+
+    inner.onCall(log => this.recorder.record(log));
+  }
+
+  getCallLogs(): LLMCallLog[] {
+    return this.recorder.getLogs();
+  }
+
+  clearLogs(): void {
+    this.recorder.clear();
+    this.inner.clearLogs();
+  }
+
+  onCall(listener: CallListener): () => void {
+    return this.recorder.subscribe(listener);
+  }
+
+  setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    this.inner.setRetryPolicy(policy);
+  }
+
+  async llmCall(
+    prompt: string,
+    model?: string,
+    maxTokens?: number,
+    temperature?: number,
+    role?: string
+  ): Promise<LLMResponse> {
+    const key = this.keyFor('llm', { role, model, prompt, maxTokens, temperature });
+    const cached = await this.lookup(key, prompt, model, maxTokens, temperature, role);
+    if (cached) {
+      return cached;
+    }
+
+    const response = await this.inner.llmCall(prompt, model, maxTokens, temperature, role);
+    await this.save(key, response);
+    return response;
+  }
+
+  async structuredCall(
+    prompt: string,
+    format: JsonSchemaFormat,
+    model?: string,
+    maxTokens?: number,
+    temperature?: number,
+    role?: string
+  ): Promise<LLMResponse> {
+    const key = this.keyFor('structured', { role, model, prompt, maxTokens, temperature, format });
+    const cached = await this.lookup(key, prompt, model, maxTokens, temperature, role);
+    if (cached) {
+      return cached;
+    }
+
+    const response = await this.inner.structuredCall(prompt, format, model, maxTokens, temperature, role);
+    await this.save(key, response);
+    return response;
+  }
+
+  async *llmStream(
+    prompt: string,
+    model?: string,
+    maxTokens?: number,
+    temperature?: number,
+    role?: string
+  ): AsyncGenerator<string> {
+    const key = this.keyFor('llm', { role, model, prompt, maxTokens, temperature });
+    const cached = await this.lookup(key, prompt, model, maxTokens, temperature, role);
+    if (cached) {
+      yield cached.content;
+      return;
+    }
+
+    // The stream only yields text, so pick the model and usage up from the call log
+    let recorded: LLMCallLog | undefined;
+    const unsubscribe = this.inner.onCall(log => {
+      if (log.prompt === prompt && log.role === role) recorded = log;
+    });
+
+    let content = '';
+    try {
+      for await (const delta of this.inner.llmStream(prompt, model, maxTokens, temperature, role)) {
+        content += delta;
+        yield delta;
+      }
+    } finally {
+      unsubscribe();
+    }
+
+    await this.save(key, { content, model: recorded?.model || model || '', usage: recorded?.usage });
+  }
+
+  async webSearchCall(input: string, model?: string, role?: string, options?: WebSearchOptions, maxTokens?: number): Promise<WebSearchResponse> {
+    if (this.webSearchTtlMs === undefined) {
+      return this.inner.webSearchCall(input, model, role, options, maxTokens);
+    }
+    const key = this.keyFor('web-search', { role, model, prompt: input, search: options, maxTokens });
+    const cached = await this.lookup(key, input, model, maxTokens || 0, 0, role);
+    if (cached) {
+      return cached;
+    }
+
+    const response = await this.inner.webSearchCall(input, model, role, options, maxTokens);
+    await this.save(key, response, this.webSearchTtlMs);
+    return response;
+  }
+
+  uploadFile(filePath: string, purpose?: string): Promise<FileUploadResponse> {
+    return this.inner.uploadFile(filePath, purpose);
+  }
+
+  async fileBasedCall(
+    textContent: string,
+    fileIds: string[],
+    model?: string,
+    role?: string,
+    maxTokens?: number
+  ): Promise<LLMResponse> {
+    const key = this.keyFor('file-based', { role, model, prompt: textContent, fileIds, maxTokens });
+    const cached = await this.lookup(key, `[FILE-BASED] ${textContent}`, model, maxTokens || 0, 0, role);
+    if (cached) {
+      return cached;
+    }
+
+    const response = await this.inner.fileBasedCall(textContent, fileIds, model, role, maxTokens);
+    await this.save(key, response);
+    return response;
+  }
+
+  private keyFor(kind: CallKind, parts: Record<string, unknown>): string {
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify({ namespace: this.namespace, kind, ...parts }))
+      .digest('hex');
+  }
+
+  private async lookup(
+    key: string,
+    prompt: string,
+    model: string | undefined,
+    maxTokens: number | undefined,
+    temperature: number | undefined,
+    role: string | undefined
+  ): Promise<WebSearchResponse | null> {
+    if (this.refresh) {
+      return null;
+    }
+
+    const entry = await this.store.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      await this.store.delete(key);
+      return null;
+    }
+
+    this.recorder.record({
+      timestamp: new Date(),
+      role,
+      prompt,
+      model: entry.response.model || model || '',
+      maxTokens: maxTokens || 0,
+      temperature: temperature || 0,
+      response: entry.response.content,
+      duration: 0,
+      cached: true,
+    });
+
+    // Nothing was spent on this call, which rate limiters and budgets wrapped around us should see
+    return { ...entry.response, usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 } };
+  }
+
+  private async save(key: string, response: WebSearchResponse, ttlMs: number | undefined = this.ttlMs): Promise<void> {
+    const now = Date.now();
+    try {
+      await this.store.set(key, {
+        createdAt: now,
+        expiresAt: ttlMs !== undefined ? now + ttlMs : undefined,
+        response,
+      });
+    } catch (error) {
+      // The response is still good; only the next identical call misses
+      console.warn(`Response cache write failed: ${error}`);
+    }
+  }
+}
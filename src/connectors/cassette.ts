@@ -0,0 +1,381 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  LLMConnector,
+  LLMResponse,
+  FileUploadResponse,
+  WebSearchResponse,
+  WebSearchOptions,
+  LLMCallLog,
+  CallListener,
+  JsonSchemaFormat,
+  CallLogRecorder,
+} from './connector.js';
+import { RetryPolicy } from './retry.js';
+
+export type CassetteCallKind = 'llm' | 'structured' | 'web-search' | 'file-based' | 'upload';
+
+export interface CassetteInteraction {
+  kind: CassetteCallKind;
+  role?: string;
+  model?: string;
+  /** Prompt as sent; for uploads, the file's base name */
+  prompt: string;
+  maxTokens?: number;
+  temperature?: number;
+  /** Name of the output schema of a structured call */
+  schema?: string;
+  fileIds?: string[];
+  response?: WebSearchResponse;
+  file?: FileUploadResponse;
+  /** Message of the error the call ended with; replay throws it again */
+  error?: string;
+  duration: number;
+}
+
+export interface Cassette {
+  version: 1;
+  recordedAt: string;
+  interactions: CassetteInteraction[];
+}
+
+export function loadCassette(filePath: string): Cassette {
+  let cassette: Cassette;
+  try {
+    cassette = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read cassette ${filePath}: ${error}`);
+  }
+  if (cassette.version !== 1 || !Array.isArray(cassette.interactions)) {
+    throw new Error(`${filePath} is not a version 1 cassette`);
+  }
+  return cassette;
+}
+
+/**
+ * Collects the interactions of every `RecordingConnector` attached to it, so a run that
+ * mixes providers still ends up in a single cassette.
+ */
+export class CassetteRecorder {
+  private interactions: CassetteInteraction[] = [];
+
+  add(interaction: CassetteInteraction): void {
+    this.interactions.push(interaction);
+  }
+
+  toCassette(): Cassette {
+    return { version: 1, recordedAt: new Date().toISOString(), interactions: [...this.interactions] };
+  }
+
+  save(filePath: string): void {
+    fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(this.toCassette(), null, 2) + '\n');
+  }
+}
+
+/**
+ * Passes calls through to a live connector and writes each one, with its response, usage
+ * and sources, to a `CassetteRecorder`. Failed calls are recorded with their error so a
+ * replay takes the same fallback paths.
+ */
+export class RecordingConnector implements LLMConnector {
+  private inner: LLMConnector;
+  private cassette: CassetteRecorder;
+
+  constructor(inner: LLMConnector, cassette: CassetteRecorder) {
+    this.inner = inner;
+    this.cassette = cassette;
+  }
+
+  getCallLogs(): LLMCallLog[] {
+    return this.inner.getCallLogs();
+  }
+
+  clearLogs(): void {
+    this.inner.clearLogs();
+  }
+
+  onCall(listener: CallListener): () => void {
+    return this.inner.onCall(listener);
+  }
+
+  setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    this.inner.setRetryPolicy(policy);
+  }
+
+  async llmCall(
+    prompt: string,
+    model?: string,
+    maxTokens?: number,
+    temperature?: number,
+    role?: string
+  ): Promise<LLMResponse> {
+    return this.capture(
+      { kind: 'llm', role, model, prompt, maxTokens, temperature },
+      () => this.inner.llmCall(prompt, model, maxTokens, temperature, role),
+      response => ({ response })
+    );
+  }
+
+  async structuredCall(
+    prompt: string,
+    format: JsonSchemaFormat,
+    model?: string,
+    maxTokens?: number,
+    temperature?: number,
+    role?: string
+  ): Promise<LLMResponse> {
+    return this.capture(
+      { kind: 'structured', role, model, prompt, maxTokens, temperature, schema: format.name },
+      () => this.inner.structuredCall(prompt, format, model, maxTokens, temperature, role),
+      response => ({ response })
+    );
+  }
+
+  async *llmStream(
+    prompt: string,
+    model?: string,
+    maxTokens?: number,
+    temperature?: number,
+    role?: string
+  ): AsyncGenerator<string> {
+    const startTime = Date.now();
+    // The stream only yields text, so pick the model and usage up from the call log
+    let recorded: LLMCallLog | undefined;
+    const unsubscribe = this.inner.onCall(log => {
+      if (log.prompt === prompt && log.role === role) recorded = log;
+    });
+
+    // Recorded as a plain call so the cassette replays whether or not the run streams
+    const interaction: CassetteInteraction = { kind: 'llm', role, model, prompt, maxTokens, temperature, duration: 0 };
+    let content = '';
+    try {
+      for await (const delta of this.inner.llmStream(prompt, model, maxTokens, temperature, role)) {
+        content += delta;
+        yield delta;
+      }
+    } catch (error) {
+      this.cassette.add({ ...interaction, error: errorMessage(error), duration: Date.now() - startTime });
+      throw error;
+    } finally {
+      unsubscribe();
+    }
+
+    this.cassette.add({
+      ...interaction,
+      response: { content, model: recorded?.model || model || '', usage: recorded?.usage },
+      duration: Date.now() - startTime,
+    });
+  }
+
+  async webSearchCall(input: string, model?: string, role?: string, options?: WebSearchOptions, maxTokens?: number): Promise<WebSearchResponse> {
+    return this.capture(
+      { kind: 'web-search', role, model, prompt: input, maxTokens },
+      () => this.inner.webSearchCall(input, model, role, options, maxTokens),
+      response => ({ response })
+    );
+  }
+
+  async uploadFile(filePath: string, purpose?: string): Promise<FileUploadResponse> {
+    return this.capture(
+      { kind: 'upload', prompt: path.basename(filePath) },
+      () => this.inner.uploadFile(filePath, purpose),
+      file => ({ file })
+    );
+  }
+
+  async fileBasedCall(
+    textContent: string,
+    fileIds: string[],
+    model?: string,
+    role?: string,
+    maxTokens?: number
+  ): Promise<LLMResponse> {
+    return this.capture(
+      { kind: 'file-based', role, model, prompt: textContent, fileIds, maxTokens },
+      () => this.inner.fileBasedCall(textContent, fileIds, model, role, maxTokens),
+      response => ({ response })
+    );
+  }
+
+  private async capture<T>(
+    call: Omit<CassetteInteraction, 'duration'>,
+    send: () => Promise<T>,
+    outcome: (value: T) => Pick<CassetteInteraction, 'response' | 'file'>
+  ): Promise<T> {
+    const startTime = Date.now();
+    try {
+      const value = await send();
+      this.cassette.add({ ...call, ...outcome(value), duration: Date.now() - startTime });
+      return value;
+    } catch (error) {
+      this.cassette.add({ ...call, error: errorMessage(error), duration: Date.now() - startTime });
+      throw error;
+    }
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Where two prompts first differ, with a little context on each side
+function describeDrift(recorded: string, actual: string): string {
+  let index = 0;
+  while (index < recorded.length && index < actual.length && recorded[index] === actual[index]) {
+    index++;
+  }
+  const excerpt = (text: string) => JSON.stringify(text.slice(Math.max(0, index - 40), index + 60));
+  return `first difference at character ${index}\n  recorded: ${excerpt(recorded)}\n  actual:   ${excerpt(actual)}`;
+}
+
+/**
+ * Answers calls from a cassette without touching the network. Calls are matched by kind
+ * and role in recorded order, so parallel workers may finish in any order. Calls recorded
+ * as failed throw their recorded error. A call whose prompt differs from the recording, or
+ * that was never recorded, throws; `verify` reports those failures again along with
+ * recorded calls the run never made.
+ */
+export class ReplayConnector implements LLMConnector {
+  private source: string;
+  private queues: Map<string, CassetteInteraction[]> = new Map();
+  private failures: string[] = [];
+  private recorder: CallLogRecorder = new CallLogRecorder();
+
+  constructor(cassette: Cassette | string) {
+    this.source = typeof cassette === 'string' ? cassette : 'cassette';
+    const loaded = typeof cassette === 'string' ? loadCassette(cassette) : cassette;
+    loaded.interactions.forEach(interaction => {
+      const key = this.keyFor(interaction.kind, interaction.role);
+      this.queues.set(key, [...(this.queues.get(key) || []), interaction]);
+    });
+  }
+
+  getCallLogs(): LLMCallLog[] {
+    return this.recorder.getLogs();
+  }
+
+  clearLogs(): void {
+    this.recorder.clear();
+  }
+
+  onCall(listener: CallListener): () => void {
+    return this.recorder.subscribe(listener);
+  }
+
+  setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    // Nothing to retry: replayed calls cannot fail transiently
+  }
+
+  /**
+   * Throws if any call drifted from the recording or recorded calls were left unused.
+   */
+  verify(): void {
+    const unused = [...this.queues.values()].flat();
+    const problems = [
+      ...this.failures,
+      ...unused.map(interaction => `recorded ${interaction.kind} call for ${interaction.role || 'LLM'} was never made`),
+    ];
+    if (problems.length > 0) {
+      throw new Error(`Replay of ${this.source} did not match the recording:\n- ${problems.join('\n- ')}`);
+    }
+  }
+
+  async llmCall(
+    prompt: string,
+    model?: string,
+    maxTokens?: number,
+    temperature?: number,
+    role?: string
+  ): Promise<LLMResponse> {
+    const interaction = this.next('llm', role, prompt);
+    this.log(interaction, prompt, role);
+    return interaction.response!;
+  }
+
+  async structuredCall(
+    prompt: string,
+    format: JsonSchemaFormat,
+    model?: string,
+    maxTokens?: number,
+    temperature?: number,
+    role?: string
+  ): Promise<LLMResponse> {
+    const interaction = this.next('structured', role, prompt);
+    this.log(interaction, prompt, role);
+    return interaction.response!;
+  }
+
+  async *llmStream(
+    prompt: string,
+    model?: string,
+    maxTokens?: number,
+    temperature?: number,
+    role?: string
+  ): AsyncGenerator<string> {
+    const interaction = this.next('llm', role, prompt);
+    yield interaction.response!.content;
+    this.log(interaction, prompt, role);
+  }
+
+  async webSearchCall(input: string, model?: string, role?: string, options?: WebSearchOptions, maxTokens?: number): Promise<WebSearchResponse> {
+    const interaction = this.next('web-search', role, input);
+    this.log(interaction, input, role);
+    return interaction.response!;
+  }
+
+  async uploadFile(filePath: string, purpose?: string): Promise<FileUploadResponse> {
+    return this.next('upload', undefined, path.basename(filePath)).file!;
+  }
+
+  async fileBasedCall(
+    textContent: string,
+    fileIds: string[],
+    model?: string,
+    role?: string,
+    maxTokens?: number
+  ): Promise<LLMResponse> {
+    const interaction = this.next('file-based', role, textContent);
+    this.log(interaction, `[FILE-BASED] ${textContent}`, role);
+    return interaction.response!;
+  }
+
+  private keyFor(kind: CassetteCallKind, role?: string): string {
+    return `${kind}:${role || ''}`;
+  }
+
+  private next(kind: CassetteCallKind, role: string | undefined, prompt: string): CassetteInteraction {
+    const queue = this.queues.get(this.keyFor(kind, role)) || [];
+    const interaction = queue.shift();
+
+    let failure: string | null = null;
+    if (!interaction) {
+      failure = `unexpected ${kind} call for ${role || 'LLM'}: nothing left in the recording`;
+    } else if (interaction.prompt !== prompt) {
+      failure = `${kind} prompt for ${role || 'LLM'} drifted from the recording, ${describeDrift(interaction.prompt, prompt)}`;
+    }
+
+    if (failure) {
+      this.failures.push(failure);
+      throw new Error(`Cassette replay failed: ${failure}`);
+    }
+    if (interaction!.error !== undefined) {
+      throw new Error(interaction!.error);
+    }
+    return interaction!;
+  }
+
+  private log(interaction: CassetteInteraction, prompt: string, role?: string): void {
+    this.recorder.record({
+      timestamp: new Date(),
+      role,
+      prompt,
+      model: interaction.response?.model || interaction.model || '',
+      maxTokens: interaction.maxTokens || 0,
+      temperature: interaction.temperature || 0,
+      response: interaction.response?.content || '',
+      usage: interaction.response?.usage,
+      duration: interaction.duration,
+    });
+  }
+}
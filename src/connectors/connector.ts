@@ -0,0 +1,197 @@
+import type { RetryPolicy, RetryRecord } from './retry.js';
+
+export interface LLMResponse {
+  content: string;
+  model: string;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+/**
+ * JSON schema a structured call's output must follow. Providers that enforce schemas
+ * need every property listed in `required` and `additionalProperties: false`.
+ */
+export interface JsonSchemaFormat {
+  /** Identifier the provider reports the schema under (letters, digits, `_` and `-`) */
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface FileUploadResponse {
+  id: string;
+  object: string;
+  bytes: number;
+  created_at: number;
+  filename: string;
+  purpose: string;
+}
+
+/** A page the search answer cites or the search returned */
+export interface WebSearchSource {
+  title: string;
+  url: string;
+  /** The cited text, or the sentence of the answer that cites the page */
+  snippet?: string;
+  /** Where the citation sits in `content`: the range of the answer it is attached to */
+  startIndex?: number;
+  endIndex?: number;
+}
+
+export type WebSearchContextSize = 'low' | 'medium' | 'high';
+
+export const WEB_SEARCH_CONTEXT_SIZES: WebSearchContextSize[] = ['low', 'medium', 'high'];
+
+/**
+ * Settings of the provider's search tool. Providers apply what they support: OpenAI has
+ * no domain blocklist, so sources from blocked domains are only dropped from the response.
+ */
+export interface WebSearchOptions {
+  /** How much retrieved content goes into the model's context (OpenAI only) */
+  contextSize?: WebSearchContextSize;
+  /** Approximate location of the user, to localize results; `country` is a two-letter ISO code */
+  userLocation?: {
+    country?: string;
+    region?: string;
+    city?: string;
+    /** IANA time zone, e.g. `Europe/Paris` */
+    timezone?: string;
+  };
+  /** Only search these domains, e.g. `['arxiv.org']` */
+  allowedDomains?: string[];
+  /** Never use results from these domains */
+  blockedDomains?: string[];
+}
+
+export interface WebSearchResponse {
+  content: string;
+  model: string;
+  sources?: WebSearchSource[];
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+export interface LLMCallLog {
+  timestamp: Date;
+  role?: string;
+  prompt: string;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  response: string;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+  duration: number;
+  /** Attempts it took to get the response, including the successful one */
+  attempts?: number;
+  /** Failed attempts that were retried, in order */
+  retries?: RetryRecord[];
+  /** Served from a response cache; nothing was sent to the provider */
+  cached?: boolean;
+}
+
+export type CallListener = (log: LLMCallLog) => void;
+
+/**
+ * Call log storage shared by the connectors. Every recorded call is also pushed to
+ * the listeners registered through `subscribe`.
+ */
+export class CallLogRecorder {
+  private logs: LLMCallLog[] = [];
+  private listeners: Set<CallListener> = new Set();
+
+  record(log: LLMCallLog): void {
+    this.logs.push(log);
+    this.listeners.forEach(listener => listener(log));
+  }
+
+  getLogs(): LLMCallLog[] {
+    return [...this.logs];
+  }
+
+  clear(): void {
+    this.logs = [];
+  }
+
+  subscribe(listener: CallListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+/**
+ * Provider-agnostic surface used by the orchestrator and every worker.
+ * Implementations record each completed call, which makes it visible through both
+ * `getCallLogs` and the `onCall` listeners.
+ */
+export interface LLMConnector {
+  llmCall(
+    prompt: string,
+    model?: string,
+    maxTokens?: number,
+    temperature?: number,
+    role?: string
+  ): Promise<LLMResponse>;
+
+  /**
+   * Same request as `llmCall`, yielding text deltas as they arrive. The call is recorded
+   * once the stream completes.
+   */
+  llmStream(
+    prompt: string,
+    model?: string,
+    maxTokens?: number,
+    temperature?: number,
+    role?: string
+  ): AsyncIterable<string>;
+
+  /**
+   * Same request as `llmCall`, with the output constrained to JSON matching `format`.
+   * `content` is the JSON text. Backends that cannot constrain output throw.
+   */
+  structuredCall(
+    prompt: string,
+    format: JsonSchemaFormat,
+    model?: string,
+    maxTokens?: number,
+    temperature?: number,
+    role?: string
+  ): Promise<LLMResponse>;
+
+  /** `maxTokens` caps the answer; without it the provider's default applies */
+  webSearchCall(input: string, model?: string, role?: string, options?: WebSearchOptions, maxTokens?: number): Promise<WebSearchResponse>;
+
+  uploadFile(filePath: string, purpose?: string): Promise<FileUploadResponse>;
+
+  fileBasedCall(
+    textContent: string,
+    fileIds: string[],
+    model?: string,
+    role?: string,
+    maxTokens?: number
+  ): Promise<LLMResponse>;
+
+  getCallLogs(): LLMCallLog[];
+
+  clearLogs(): void;
+
+  /**
+   * Registers a listener for every completed call. Returns a function that removes it.
+   */
+  onCall(listener: CallListener): () => void;
+
+  /**
+   * Overrides part of the retry and timeout policy applied to every provider request.
+   */
+  setRetryPolicy(policy: Partial<RetryPolicy>): void;
+}
@@ -0,0 +1,47 @@
+import { LLMConnector } from './connector.js';
+import { OpenAIConnector } from './openai.js';
+import { OpenAICompatibleConnector } from './openai-compatible.js';
+import { AnthropicConnector } from './anthropic.js';
+
+export type ProviderName = 'openai' | 'openai-compatible' | 'anthropic';
+
+export const PROVIDERS: ProviderName[] = ['openai', 'openai-compatible', 'anthropic'];
+
+// Self-hosted servers serve whatever was pulled, so there is no sensible default there
+export const DEFAULT_MODELS: Partial<Record<ProviderName, string>> = {
+  openai: 'gpt-4.1',
+  anthropic: 'claude-sonnet-4-6',
+};
+
+// Environment variable each hosted provider reads its API key from
+export const API_KEY_ENV: Partial<Record<ProviderName, string>> = {
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+};
+
+export interface ConnectorConfig {
+  provider?: ProviderName;
+  baseURL?: string;
+  apiKey?: string;
+}
+
+export function createConnector(config: ConnectorConfig = {}): LLMConnector {
+  const provider = config.provider || 'openai';
+
+  switch (provider) {
+    case 'openai':
+      return new OpenAIConnector(config.apiKey, config.baseURL);
+
+    case 'openai-compatible':
+      if (!config.baseURL) {
+        throw new Error('The openai-compatible provider requires a base URL (e.g. http://localhost:11434/v1)');
+      }
+      return new OpenAICompatibleConnector(config.baseURL, config.apiKey);
+
+    case 'anthropic':
+      return new AnthropicConnector(config.apiKey, config.baseURL);
+
+    default:
+      throw new Error(`Unknown provider "${provider}". Expected one of: ${PROVIDERS.join(', ')}`);
+  }
+}
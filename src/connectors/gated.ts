@@ -0,0 +1,150 @@
+import {
+  LLMConnector,
+  LLMResponse,
+  FileUploadResponse,
+  WebSearchResponse,
+  WebSearchOptions,
+  LLMCallLog,
+  CallListener,
+  JsonSchemaFormat,
+} from './connector.js';
+import { RetryPolicy } from './retry.js';
+
+// Output allowance for web search and file-based calls made without maxTokens
+const UNBOUNDED_CALL_MAX_TOKENS = 2000;
+
+export interface GatedCall {
+  prompt: string;
+  model: string;
+  maxTokens: number;
+  role?: string;
+}
+
+/**
+ * Passed back when a call finishes. `usage` is missing for failed calls and streams.
+ */
+export type ReleaseCall = (usage?: LLMResponse['usage']) => void;
+
+/**
+ * Something that must let a call through before it is sent: a budget, a rate limiter, ...
+ * `acquire` resolves (possibly after waiting) with a release function, or throws to refuse the call.
+ */
+export interface CallGate {
+  acquire(call: GatedCall): ReleaseCall | Promise<ReleaseCall>;
+}
+
+/**
+ * Wraps a connector so every provider call passes through a `CallGate` first.
+ * Uploads are not gated since they consume no tokens.
+ */
+export class GatedConnector implements LLMConnector {
+  private inner: LLMConnector;
+  private gate: CallGate;
+
+  constructor(inner: LLMConnector, gate: CallGate) {
+    this.inner = inner;
+    this.gate = gate;
+  }
+
+  async llmCall(
+    prompt: string,
+    model?: string,
+    maxTokens?: number,
+    temperature?: number,
+    role?: string
+  ): Promise<LLMResponse> {
+    const release = await this.gate.acquire({ prompt, model: model || '', maxTokens: maxTokens || 1000, role });
+    let usage: LLMResponse['usage'];
+    try {
+      const response = await this.inner.llmCall(prompt, model, maxTokens, temperature, role);
+      usage = response.usage;
+      return response;
+    } finally {
+      release(usage);
+    }
+  }
+
+  async structuredCall(
+    prompt: string,
+    format: JsonSchemaFormat,
+    model?: string,
+    maxTokens?: number,
+    temperature?: number,
+    role?: string
+  ): Promise<LLMResponse> {
+    const release = await this.gate.acquire({ prompt, model: model || '', maxTokens: maxTokens || 1000, role });
+    let usage: LLMResponse['usage'];
+    try {
+      const response = await this.inner.structuredCall(prompt, format, model, maxTokens, temperature, role);
+      usage = response.usage;
+      return response;
+    } finally {
+      release(usage);
+    }
+  }
+
+  async *llmStream(
+    prompt: string,
+    model?: string,
+    maxTokens?: number,
+    temperature?: number,
+    role?: string
+  ): AsyncGenerator<string> {
+    const release = await this.gate.acquire({ prompt, model: model || '', maxTokens: maxTokens || 1000, role });
+    try {
+      yield* this.inner.llmStream(prompt, model, maxTokens, temperature, role);
+    } finally {
+      release();
+    }
+  }
+
+  async webSearchCall(input: string, model?: string, role?: string, options?: WebSearchOptions, maxTokens?: number): Promise<WebSearchResponse> {
+    const release = await this.gate.acquire({ prompt: input, model: model || '', maxTokens: maxTokens || UNBOUNDED_CALL_MAX_TOKENS, role });
+    let usage: LLMResponse['usage'];
+    try {
+      const response = await this.inner.webSearchCall(input, model, role, options, maxTokens);
+      usage = response.usage;
+      return response;
+    } finally {
+      release(usage);
+    }
+  }
+
+  uploadFile(filePath: string, purpose?: string): Promise<FileUploadResponse> {
+    return this.inner.uploadFile(filePath, purpose);
+  }
+
+  async fileBasedCall(
+    textContent: string,
+    fileIds: string[],
+    model?: string,
+    role?: string,
+    maxTokens?: number
+  ): Promise<LLMResponse> {
+    const release = await this.gate.acquire({ prompt: textContent, model: model || '', maxTokens: maxTokens || UNBOUNDED_CALL_MAX_TOKENS, role });
+    let usage: LLMResponse['usage'];
+    try {
+      const response = await this.inner.fileBasedCall(textContent, fileIds, model, role, maxTokens);
+      usage = response.usage;
+      return response;
+    } finally {
+      release(usage);
+    }
+  }
+
+  getCallLogs(): LLMCallLog[] {
+    return this.inner.getCallLogs();
+  }
+
+  clearLogs(): void {
+    this.inner.clearLogs();
+  }
+
+  onCall(listener: CallListener): () => void {
+    return this.inner.onCall(listener);
+  }
+
+  setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    this.inner.setRetryPolicy(policy);
+  }
+}
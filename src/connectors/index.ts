@@ -1 +1,11 @@
-export * from './openai.js';
\ No newline at end of file
+export * from './connector.js';
+export * from './retry.js';
+export * from './openai.js';
+export * from './openai-compatible.js';
+export * from './anthropic.js';
+export * from './mock.js';
+export * from './factory.js';
+export * from './gated.js';
+export * from './scheduler.js';
+export * from './cache.js';
+export * from './cassette.js';
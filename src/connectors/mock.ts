@@ -0,0 +1,227 @@
+import path from 'path';
+import {
+  LLMConnector,
+  LLMResponse,
+  FileUploadResponse,
+  WebSearchResponse,
+  WebSearchOptions,
+  LLMCallLog,
+  CallListener,
+  JsonSchemaFormat,
+  CallLogRecorder,
+} from './connector.js';
+import { RetryPolicy, DEFAULT_RETRY_POLICY, withRetry } from './retry.js';
+
+export interface MockReply {
+  content: string;
+  sources?: WebSearchResponse['sources'];
+  usage?: LLMResponse['usage'];
+}
+
+export type MockResponder =
+  | string
+  | MockReply
+  | Array<string | MockReply>
+  | ((prompt: string, role: string) => string | MockReply);
+
+export interface MockConnectorOptions {
+  /**
+   * Canned responses keyed by role. A key matches a role exactly or as a prefix,
+   * so `SIMPLE-WORKER` answers every `SIMPLE-WORKER (...)` call. Arrays are
+   * replayed in order, one entry per call. The `*` key answers any other role.
+   */
+  responses: Record<string, MockResponder>;
+  model?: string;
+  /**
+   * Answer `structuredCall` from the same responses. Off by default, where structured
+   * calls fail like they do on a backend without JSON schema support.
+   */
+  structuredOutput?: boolean;
+}
+
+/**
+ * Deterministic connector for offline runs and tests. It never touches the network
+ * and answers every call from the scripted responses it was built with.
+ */
+export class MockConnector implements LLMConnector {
+  private responses: Record<string, MockResponder>;
+  private model: string;
+  private structuredOutput: boolean;
+  private replayIndex: Map<string, number> = new Map();
+  private uploadCount: number = 0;
+  private recorder: CallLogRecorder = new CallLogRecorder();
+  private retryPolicy: RetryPolicy = { ...DEFAULT_RETRY_POLICY };
+
+  constructor(options: MockConnectorOptions) {
+    this.responses = options.responses;
+    this.model = options.model || 'mock-model';
+    this.structuredOutput = options.structuredOutput || false;
+  }
+
+  getCallLogs(): LLMCallLog[] {
+    return this.recorder.getLogs();
+  }
+
+  clearLogs(): void {
+    this.recorder.clear();
+    this.replayIndex.clear();
+  }
+
+  onCall(listener: CallListener): () => void {
+    return this.recorder.subscribe(listener);
+  }
+
+  setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    this.retryPolicy = { ...this.retryPolicy, ...policy };
+  }
+
+  async llmCall(
+    prompt: string,
+    model: string = this.model,
+    maxTokens: number = 1000,
+    temperature: number = 0.7,
+    role: string = 'LLM'
+  ): Promise<LLMResponse> {
+    const reply = await this.respond(prompt, role, model, maxTokens, temperature);
+    return { content: reply.content, model, usage: reply.usage };
+  }
+
+  async structuredCall(
+    prompt: string,
+    format: JsonSchemaFormat,
+    model: string = this.model,
+    maxTokens: number = 1000,
+    temperature: number = 0.7,
+    role: string = 'LLM'
+  ): Promise<LLMResponse> {
+    if (!this.structuredOutput) {
+      throw new Error('Structured output is not enabled on this MockConnector');
+    }
+    const reply = await this.respond(prompt, role, model, maxTokens, temperature);
+    return { content: reply.content, model, usage: reply.usage };
+  }
+
+  async *llmStream(
+    prompt: string,
+    model: string = this.model,
+    maxTokens: number = 1000,
+    temperature: number = 0.7,
+    role: string = 'LLM'
+  ): AsyncGenerator<string> {
+    const reply = await this.respond(prompt, role, model, maxTokens, temperature);
+
+    // Word-sized deltas, keeping whitespace so the pieces join back to the full reply
+    for (const delta of reply.content.match(/\s*\S+\s*/g) || [reply.content]) {
+      yield delta;
+    }
+  }
+
+  async webSearchCall(
+    input: string,
+    model: string = this.model,
+    role: string = 'WEB-SEARCH',
+    options?: WebSearchOptions,
+    maxTokens: number = 0
+  ): Promise<WebSearchResponse> {
+    const reply = await this.respond(input, role, model, maxTokens, 0);
+    return { content: reply.content, model, sources: reply.sources || [], usage: reply.usage };
+  }
+
+  async uploadFile(filePath: string, purpose: string = 'user_data'): Promise<FileUploadResponse> {
+    this.uploadCount++;
+    return {
+      id: `file-mock-${this.uploadCount}`,
+      object: 'file',
+      bytes: 0,
+      created_at: 0,
+      filename: path.basename(filePath),
+      purpose,
+    };
+  }
+
+  async fileBasedCall(
+    textContent: string,
+    fileIds: string[],
+    model: string = this.model,
+    role: string = 'FILE-BASED',
+    maxTokens: number = 0
+  ): Promise<LLMResponse> {
+    const reply = await this.respond(`[FILE-BASED] ${textContent}`, role, model, maxTokens, 0);
+    return { content: reply.content, model, usage: reply.usage };
+  }
+
+  /**
+   * Picks the scripted reply and records the call. Errors thrown by a function responder
+   * go through the retry policy like provider errors, so giving them a `status` of 429
+   * or 5xx simulates a flaky backend.
+   */
+  private async respond(
+    prompt: string,
+    role: string,
+    model: string,
+    maxTokens: number,
+    temperature: number
+  ): Promise<MockReply> {
+    const { value: reply, attempts, retries } = await withRetry(
+      async () => this.nextReply(prompt, role),
+      this.retryPolicy
+    );
+
+    this.recorder.record({
+      timestamp: new Date(),
+      role,
+      prompt,
+      model,
+      maxTokens,
+      temperature,
+      response: reply.content,
+      usage: reply.usage,
+      duration: 0,
+      attempts,
+      retries,
+    });
+
+    return reply;
+  }
+
+  private nextReply(prompt: string, role: string): MockReply {
+    const key = this.resolveKey(role);
+    if (!key) {
+      throw new Error(`MockConnector has no response for role "${role}"`);
+    }
+
+    const responder = this.responses[key];
+    let reply: string | MockReply;
+
+    if (Array.isArray(responder)) {
+      const index = this.replayIndex.get(key) || 0;
+      if (index >= responder.length) {
+        throw new Error(`MockConnector ran out of responses for role "${key}" after ${responder.length} calls`);
+      }
+      this.replayIndex.set(key, index + 1);
+      reply = responder[index];
+    } else if (typeof responder === 'function') {
+      reply = responder(prompt, role);
+    } else {
+      reply = responder;
+    }
+
+    return typeof reply === 'string' ? { content: reply } : reply;
+  }
+
+  private resolveKey(role: string): string | null {
+    if (role in this.responses) {
+      return role;
+    }
+
+    // Longest prefix wins so `SIMPLE-WORKER (Dates)` can be scripted separately from `SIMPLE-WORKER`
+    const prefixes = Object.keys(this.responses)
+      .filter(key => key !== '*' && role.startsWith(key))
+      .sort((a, b) => b.length - a.length);
+    if (prefixes.length > 0) {
+      return prefixes[0];
+    }
+
+    return '*' in this.responses ? '*' : null;
+  }
+}
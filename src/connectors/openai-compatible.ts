@@ -0,0 +1,230 @@
+import OpenAI from 'openai';
+import {
+  LLMConnector,
+  LLMResponse,
+  FileUploadResponse,
+  WebSearchResponse,
+  WebSearchOptions,
+  LLMCallLog,
+  CallListener,
+  CallLogRecorder,
+  JsonSchemaFormat,
+} from './connector.js';
+import { RetryPolicy, RetryRecord, DEFAULT_RETRY_POLICY, withRetry } from './retry.js';
+
+/**
+ * Connector for self-hosted servers (Ollama, llama.cpp, vLLM, ...) that only implement
+ * the OpenAI `/v1/chat/completions` endpoint. Hosted tools such as web search and file
+ * inputs are not available there, so those calls fail with an explicit error that the
+ * workers already treat as a signal to fall back to plain LLM calls.
+ */
+export class OpenAICompatibleConnector implements LLMConnector {
+  private client: OpenAI;
+  private baseURL: string;
+  private recorder: CallLogRecorder = new CallLogRecorder();
+  private retryPolicy: RetryPolicy = { ...DEFAULT_RETRY_POLICY };
+
+  constructor(baseURL: string, apiKey?: string) {
+    this.baseURL = baseURL;
+    this.client = new OpenAI({
+      baseURL,
+      // Most local servers ignore the key, but the SDK refuses to start without one
+      apiKey: apiKey || process.env.OPENAI_API_KEY || 'not-needed',
+      // Retries are handled by our own policy so they show up in the call logs
+      maxRetries: 0,
+    });
+  }
+
+  getCallLogs(): LLMCallLog[] {
+    return this.recorder.getLogs();
+  }
+
+  clearLogs(): void {
+    this.recorder.clear();
+  }
+
+  onCall(listener: CallListener): () => void {
+    return this.recorder.subscribe(listener);
+  }
+
+  setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    this.retryPolicy = { ...this.retryPolicy, ...policy };
+  }
+
+  async llmCall(
+    prompt: string,
+    model: string = 'gpt-4.1',
+    maxTokens: number = 1000,
+    temperature: number = 0.7,
+    role?: string
+  ): Promise<LLMResponse> {
+    return this.complete(prompt, model, maxTokens, temperature, role);
+  }
+
+  /**
+   * Sends `response_format: json_schema`, which vLLM, llama.cpp and Ollama enforce. Servers
+   * that reject it fail the call like any other error.
+   */
+  async structuredCall(
+    prompt: string,
+    format: JsonSchemaFormat,
+    model: string = 'gpt-4.1',
+    maxTokens: number = 1000,
+    temperature: number = 0.7,
+    role?: string
+  ): Promise<LLMResponse> {
+    return this.complete(prompt, model, maxTokens, temperature, role, format);
+  }
+
+  private async complete(
+    prompt: string,
+    model: string,
+    maxTokens: number,
+    temperature: number,
+    role: string | undefined,
+    format?: JsonSchemaFormat
+  ): Promise<LLMResponse> {
+    const startTime = Date.now();
+    const timestamp = new Date();
+
+    try {
+      const { value: response, attempts, retries } = await withRetry(
+        signal => this.client.chat.completions.create({
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          max_tokens: maxTokens,
+          temperature,
+          ...(format ? { response_format: { type: 'json_schema', json_schema: { name: format.name, schema: format.schema, strict: true } } } : {}),
+        }, { signal }),
+        this.retryPolicy
+      );
+
+      const responseContent = response.choices[0]?.message?.content;
+      if (!responseContent) {
+        throw new Error(`No content received from ${this.baseURL}`);
+      }
+
+      const duration = Date.now() - startTime;
+      const usage = response.usage ? {
+        prompt_tokens: response.usage.prompt_tokens || 0,
+        completion_tokens: response.usage.completion_tokens || 0,
+        total_tokens: response.usage.total_tokens || 0,
+      } : undefined;
+
+      // Log the call
+      const callLog: LLMCallLog = {
+        timestamp,
+        role,
+        prompt,
+        model: response.model || model,
+        maxTokens,
+        temperature,
+        response: responseContent,
+        usage,
+        duration,
+        attempts,
+        retries,
+      };
+      this.recorder.record(callLog);
+
+      return {
+        content: responseContent,
+        model: response.model || model,
+        usage,
+      };
+    } catch (error) {
+      throw new Error(`Chat Completions call to ${this.baseURL} failed: ${error}`);
+    }
+  }
+
+  async *llmStream(
+    prompt: string,
+    model: string = 'gpt-4.1',
+    maxTokens: number = 1000,
+    temperature: number = 0.7,
+    role?: string
+  ): AsyncGenerator<string> {
+    const startTime = Date.now();
+    const timestamp = new Date();
+
+    let responseContent = '';
+    let responseModel = model;
+    let usage: LLMCallLog['usage'];
+    let attempts = 0;
+    let retries: RetryRecord[] = [];
+
+    try {
+      const outcome = await withRetry(
+        signal => this.client.chat.completions.create({
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          max_tokens: maxTokens,
+          temperature,
+          stream: true,
+          stream_options: { include_usage: true },
+        }, { signal }),
+        this.retryPolicy
+      );
+      attempts = outcome.attempts;
+      retries = outcome.retries;
+
+      for await (const chunk of outcome.value) {
+        responseModel = chunk.model || responseModel;
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          responseContent += delta;
+          yield delta;
+        }
+        if (chunk.usage) {
+          usage = {
+            prompt_tokens: chunk.usage.prompt_tokens || 0,
+            completion_tokens: chunk.usage.completion_tokens || 0,
+            total_tokens: chunk.usage.total_tokens || 0,
+          };
+        }
+      }
+    } catch (error) {
+      throw new Error(`Chat Completions stream from ${this.baseURL} failed: ${error}`);
+    }
+
+    const duration = Date.now() - startTime;
+    this.recorder.record({
+      timestamp,
+      role,
+      prompt,
+      model: responseModel,
+      maxTokens,
+      temperature,
+      response: responseContent,
+      usage,
+      duration,
+      attempts,
+      retries,
+    });
+
+  }
+
+  async webSearchCall(
+    input: string,
+    model: string = 'gpt-4.1',
+    role?: string,
+    options?: WebSearchOptions,
+    maxTokens?: number
+  ): Promise<WebSearchResponse> {
+    throw new Error(`Web search is not supported by the OpenAI-compatible backend at ${this.baseURL}`);
+  }
+
+  async uploadFile(filePath: string, purpose: string = 'user_data'): Promise<FileUploadResponse> {
+    throw new Error(`File uploads are not supported by the OpenAI-compatible backend at ${this.baseURL}`);
+  }
+
+  async fileBasedCall(
+    textContent: string,
+    fileIds: string[],
+    model: string = 'gpt-4.1',
+    role?: string,
+    maxTokens?: number
+  ): Promise<LLMResponse> {
+    throw new Error(`File-based calls are not supported by the OpenAI-compatible backend at ${this.baseURL}`);
+  }
+}
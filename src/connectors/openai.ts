@@ -1,145 +1,100 @@
 import OpenAI from 'openai';
 import fs from 'fs';
-
-export interface LLMResponse {
-  content: string;
-  model: string;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
-}
-
-export interface FileUploadResponse {
-  id: string;
-  object: string;
-  bytes: number;
-  created_at: number;
-  filename: string;
-  purpose: string;
-}
-
-export interface WebSearchResponse {
-  content: string;
-  model: string;
-  sources?: Array<{
-    title: string;
-    url: string;
-    snippet?: string;
-  }>;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
-}
-
-export interface LLMCallLog {
-  timestamp: Date;
-  prompt: string;
-  model: string;
-  maxTokens: number;
-  temperature: number;
-  response: string;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
-  duration: number;
+import {
+  LLMConnector,
+  LLMResponse,
+  FileUploadResponse,
+  WebSearchResponse,
+  WebSearchOptions,
+  WebSearchSource,
+  LLMCallLog,
+  CallListener,
+  CallLogRecorder,
+  JsonSchemaFormat,
+} from './connector.js';
+import { RetryPolicy, RetryRecord, DEFAULT_RETRY_POLICY, withRetry } from './retry.js';
+import { inDomains } from '../utils/domains.js';
+
+// The sentence a citation at `index` belongs to. OpenAI puts citations right after the claim
+// as `([domain](url))`, so earlier citations end sentences too.
+function citedSentence(text: string, index: number): string {
+  const before = text.slice(0, index).replace(/\s*\(\[[^\]]*\]\([^)]*\)\)/g, '\n').trimEnd();
+  const sentences = before.split(/(?<=[.!?])\s+|\n+/);
+  return sentences[sentences.length - 1].trim();
 }
 
-export class OpenAIConnector {
+export class OpenAIConnector implements LLMConnector {
   private client: OpenAI;
-  private verbose: boolean = false;
-  private callLogs: LLMCallLog[] = [];
+  private recorder: CallLogRecorder = new CallLogRecorder();
+  private retryPolicy: RetryPolicy = { ...DEFAULT_RETRY_POLICY };
 
-  constructor(apiKey?: string, verbose: boolean = false) {
+  constructor(apiKey?: string, baseURL?: string) {
     this.client = new OpenAI({
       apiKey: apiKey || process.env.OPENAI_API_KEY,
+      baseURL,
+      // Retries are handled by our own policy so they show up in the call logs
+      maxRetries: 0,
     });
-    this.verbose = verbose;
-  }
-
-  setVerbose(verbose: boolean): void {
-    this.verbose = verbose;
   }
 
   getCallLogs(): LLMCallLog[] {
-    return [...this.callLogs];
+    return this.recorder.getLogs();
   }
 
   clearLogs(): void {
-    this.callLogs = [];
+    this.recorder.clear();
+  }
+
+  onCall(listener: CallListener): () => void {
+    return this.recorder.subscribe(listener);
+  }
+
+  setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    this.retryPolicy = { ...this.retryPolicy, ...policy };
   }
 
   async webSearchCall(
     input: string,
     model: string = 'gpt-4.1',
-    role?: string
+    role?: string,
+    options: WebSearchOptions = {},
+    maxTokens?: number
   ): Promise<WebSearchResponse> {
     const startTime = Date.now();
     const timestamp = new Date();
 
-    if (this.verbose) {
-      console.log(`\n🔍 ${role || 'WEB-SEARCH'} Call [${timestamp.toISOString()}]`);
-      console.log(`Model: ${model} | Tool: web_search_preview`);
-      console.log(`Input (${input.length} chars):`);
-      console.log('─'.repeat(50));
-      console.log(input);
-      console.log('─'.repeat(50));
-    }
-
     try {
-      // Use the responses.create method with web_search_preview tool
-      const response = await this.client.responses.create({
-        model,
-        tools: [{ type: "web_search_preview" }],
-        input,
-      });
-      if (this.verbose) {
-        console.log('Response:');
-        console.log(response);
-      }
+      const { value: response, attempts, retries } = await withRetry(
+        signal => this.client.responses.create({
+          model,
+          tools: [this.webSearchTool(options)],
+          input,
+          ...(maxTokens ? { max_output_tokens: maxTokens } : {}),
+        }, { signal }),
+        this.retryPolicy
+      );
 
       const duration = Date.now() - startTime;
       const responseContent = response.output_text;
-      
-      // Extract sources if available (may not be present in all response types)
-      const sources = (response as any).sources || [];
-      
-      const usage = response.usage ? {
-        prompt_tokens: (response.usage as any).prompt_tokens || 0,
-        completion_tokens: (response.usage as any).completion_tokens || 0,
-        total_tokens: (response.usage as any).total_tokens || 0,
-      } : undefined;
+      const sources = this.extractSources(response.output)
+        .filter(source => !options.blockedDomains?.length || !inDomains(source.url, options.blockedDomains));
+
+      const usage = this.mapUsage(response.usage);
 
       // Log the call
-      const callLog: LLMCallLog = {
+      this.recorder.record({
         timestamp,
+        role,
         prompt: input,
         model: response.model || model,
-        maxTokens: 0, // Not applicable for responses API
+        maxTokens: maxTokens || 0,
         temperature: 0, // Not applicable for responses API
         response: responseContent,
         usage,
         duration,
-      };
-      this.callLogs.push(callLog);
-
-      if (this.verbose) {
-        console.log(`\n✅ ${role || 'WEB-SEARCH'} Response (${duration}ms):`);
-        if (usage) {
-          console.log(`Tokens: ${usage.prompt_tokens} + ${usage.completion_tokens} = ${usage.total_tokens}`);
-        }
-        if (sources.length > 0) {
-          console.log(`Sources found: ${sources.length}`);
-        }
-        console.log('─'.repeat(50));
-        console.log(responseContent);
-        console.log('─'.repeat(50));
-      }
+        attempts,
+        retries,
+      });
 
       return {
         content: responseContent,
@@ -148,39 +103,97 @@ export class OpenAIConnector {
         usage,
       };
     } catch (error) {
-      const duration = Date.now() - startTime;
-      if (this.verbose) {
-        console.log(`\n❌ ${role || 'WEB-SEARCH'} Error (${duration}ms): ${error}`);
-      }
       throw new Error(`OpenAI Web Search API call failed: ${error}`);
     }
   }
 
+  // Domain filters only exist on the GA web_search tool
+  private webSearchTool(options: WebSearchOptions): OpenAI.Responses.Tool {
+    const { contextSize, userLocation, allowedDomains } = options;
+    const settings = {
+      ...(contextSize ? { search_context_size: contextSize } : {}),
+      ...(userLocation ? { user_location: { type: 'approximate' as const, ...userLocation } } : {}),
+    };
+    if (allowedDomains?.length) {
+      return { type: 'web_search', ...settings, filters: { allowed_domains: allowedDomains } };
+    }
+    return { type: 'web_search_preview', ...settings };
+  }
+
+  /**
+   * Sources from the `url_citation` annotations of the answer, one per page in order of
+   * first citation. Annotation offsets count within their text part; they are shifted to
+   * count within `output_text`, which joins every part.
+   */
+  private extractSources(output: OpenAI.Responses.ResponseOutputItem[]): WebSearchSource[] {
+    const sources = new Map<string, WebSearchSource>();
+    let offset = 0;
+
+    for (const item of output) {
+      if (item.type !== 'message') continue;
+      for (const part of item.content) {
+        if (part.type !== 'output_text') continue;
+        for (const annotation of part.annotations) {
+          if (annotation.type === 'url_citation' && !sources.has(annotation.url)) {
+            sources.set(annotation.url, {
+              title: annotation.title || annotation.url,
+              url: annotation.url,
+              snippet: citedSentence(part.text, annotation.start_index) || undefined,
+              startIndex: offset + annotation.start_index,
+              endIndex: offset + annotation.end_index,
+            });
+          }
+        }
+        offset += part.text.length;
+      }
+    }
+
+    return [...sources.values()];
+  }
+
   async llmCall(
     prompt: string,
     model: string = 'gpt-4.1',
     maxTokens: number = 1000,
     temperature: number = 0.7,
     role?: string
+  ): Promise<LLMResponse> {
+    return this.createResponse(prompt, model, maxTokens, temperature, role);
+  }
+
+  async structuredCall(
+    prompt: string,
+    format: JsonSchemaFormat,
+    model: string = 'gpt-4.1',
+    maxTokens: number = 1000,
+    temperature: number = 0.7,
+    role?: string
+  ): Promise<LLMResponse> {
+    return this.createResponse(prompt, model, maxTokens, temperature, role, format);
+  }
+
+  private async createResponse(
+    prompt: string,
+    model: string,
+    maxTokens: number,
+    temperature: number,
+    role: string | undefined,
+    format?: JsonSchemaFormat
   ): Promise<LLMResponse> {
     const startTime = Date.now();
     const timestamp = new Date();
 
-    if (this.verbose) {
-      console.log(`\n🤖 ${role || 'LLM'} Call [${timestamp.toISOString()}]`);
-      console.log(`Model: ${model} | Max Tokens: ${maxTokens} | Temperature: ${temperature}`);
-      console.log(`Prompt (${prompt.length} chars):`);
-      console.log('─'.repeat(50));
-      console.log(prompt.length > 500 ? prompt.substring(0, 500) + '...' : prompt);
-      console.log('─'.repeat(50));
-    }
-
     try {
-      const response = await this.client.responses.create({
-        model,
-        input: prompt,
-        temperature,
-      });
+      const { value: response, attempts, retries } = await withRetry(
+        signal => this.client.responses.create({
+          model,
+          input: prompt,
+          temperature,
+          max_output_tokens: maxTokens,
+          ...(format ? { text: { format: { type: 'json_schema', name: format.name, schema: format.schema, strict: true } } } : {}),
+        }, { signal }),
+        this.retryPolicy
+      );
 
       const responseContent = response.output_text;
       if (!responseContent) {
@@ -188,15 +201,12 @@ export class OpenAIConnector {
       }
 
       const duration = Date.now() - startTime;
-      const usage = response.usage ? {
-        prompt_tokens: (response.usage as any).prompt_tokens || 0,
-        completion_tokens: (response.usage as any).completion_tokens || 0,
-        total_tokens: (response.usage as any).total_tokens || 0,
-      } : undefined;
+      const usage = this.mapUsage(response.usage);
 
       // Log the call
-      const callLog: LLMCallLog = {
+      this.recorder.record({
         timestamp,
+        role,
         prompt,
         model: response.model || model,
         maxTokens,
@@ -204,18 +214,9 @@ export class OpenAIConnector {
         response: responseContent,
         usage,
         duration,
-      };
-      this.callLogs.push(callLog);
-
-      if (this.verbose) {
-        console.log(`\n✅ ${role || 'LLM'} Response (${duration}ms):`);
-        if (usage) {
-          console.log(`Tokens: ${usage.prompt_tokens} + ${usage.completion_tokens} = ${usage.total_tokens}`);
-        }
-        console.log('─'.repeat(50));
-        console.log(responseContent.length > 500 ? responseContent.substring(0, 500) + '...' : responseContent);
-        console.log('─'.repeat(50));
-      }
+        attempts,
+        retries,
+      });
 
       return {
         content: responseContent,
@@ -223,35 +224,77 @@ export class OpenAIConnector {
         usage,
       };
     } catch (error) {
-      const duration = Date.now() - startTime;
-      if (this.verbose) {
-        console.log(`\n❌ ${role || 'LLM'} Error (${duration}ms): ${error}`);
-      }
       throw new Error(`OpenAI API call failed: ${error}`);
     }
   }
 
-  async uploadFile(filePath: string, purpose: string = 'user_data'): Promise<FileUploadResponse> {
+  async *llmStream(
+    prompt: string,
+    model: string = 'gpt-4.1',
+    maxTokens: number = 1000,
+    temperature: number = 0.7,
+    role?: string
+  ): AsyncGenerator<string> {
     const startTime = Date.now();
     const timestamp = new Date();
 
-    if (this.verbose) {
-      console.log(`\n📁 FILE-UPLOAD Call [${timestamp.toISOString()}]`);
-      console.log(`File: ${filePath} | Purpose: ${purpose}`);
-    }
+    let responseContent = '';
+    let responseModel = model;
+    let usage: LLMCallLog['usage'];
+    let attempts = 0;
+    let retries: RetryRecord[] = [];
 
     try {
-      const file = await this.client.files.create({
-        file: fs.createReadStream(filePath),
-        purpose: purpose as any,
-      });
+      const outcome = await withRetry(
+        signal => this.client.responses.create({
+          model,
+          input: prompt,
+          temperature,
+          max_output_tokens: maxTokens,
+          stream: true,
+        }, { signal }),
+        this.retryPolicy
+      );
+      attempts = outcome.attempts;
+      retries = outcome.retries;
+
+      for await (const event of outcome.value) {
+        if (event.type === 'response.output_text.delta') {
+          responseContent += event.delta;
+          yield event.delta;
+        } else if (event.type === 'response.completed') {
+          responseModel = event.response.model || model;
+          usage = this.mapUsage(event.response.usage);
+        }
+      }
+    } catch (error) {
+      throw new Error(`OpenAI streaming call failed: ${error}`);
+    }
 
-      const duration = Date.now() - startTime;
+    this.recorder.record({
+      timestamp,
+      role,
+      prompt,
+      model: responseModel,
+      maxTokens,
+      temperature,
+      response: responseContent,
+      usage,
+      duration: Date.now() - startTime,
+      attempts,
+      retries,
+    });
+  }
 
-      if (this.verbose) {
-        console.log(`\n✅ FILE-UPLOAD Response (${duration}ms):`);
-        console.log(`File ID: ${file.id} | Size: ${file.bytes} bytes`);
-      }
+  async uploadFile(filePath: string, purpose: string = 'user_data'): Promise<FileUploadResponse> {
+    try {
+      const { value: file } = await withRetry(
+        signal => this.client.files.create({
+          file: fs.createReadStream(filePath),
+          purpose: purpose as any,
+        }, { signal }),
+        this.retryPolicy
+      );
 
       return {
         id: file.id,
@@ -262,10 +305,6 @@ export class OpenAIConnector {
         purpose: file.purpose,
       };
     } catch (error) {
-      const duration = Date.now() - startTime;
-      if (this.verbose) {
-        console.log(`\n❌ FILE-UPLOAD Error (${duration}ms): ${error}`);
-      }
       throw new Error(`OpenAI file upload failed: ${error}`);
     }
   }
@@ -274,20 +313,12 @@ export class OpenAIConnector {
     textContent: string,
     fileIds: string[],
     model: string = 'gpt-4.1',
-    role?: string
+    role?: string,
+    maxTokens?: number
   ): Promise<LLMResponse> {
     const startTime = Date.now();
     const timestamp = new Date();
 
-    if (this.verbose) {
-      console.log(`\n📚 FILE-BASED Call [${timestamp.toISOString()}]`);
-      console.log(`Model: ${model} | Files: ${fileIds.length}`);
-      console.log(`Text content (${textContent.length} chars):`);
-      console.log('─'.repeat(50));
-      console.log(textContent.length > 500 ? textContent.substring(0, 500) + '...' : textContent);
-      console.log('─'.repeat(50));
-    }
-
     try {
       // Build input array with files and text
       const inputContent = [
@@ -301,15 +332,19 @@ export class OpenAIConnector {
         },
       ];
 
-      const response = await this.client.responses.create({
-        model,
-        input: [
-          {
-            role: "user",
-            content: inputContent,
-          },
-        ],
-      });
+      const { value: response, attempts, retries } = await withRetry(
+        signal => this.client.responses.create({
+          model,
+          input: [
+            {
+              role: "user",
+              content: inputContent,
+            },
+          ],
+          ...(maxTokens ? { max_output_tokens: maxTokens } : {}),
+        }, { signal }),
+        this.retryPolicy
+      );
 
       const responseContent = response.output_text;
       if (!responseContent) {
@@ -317,34 +352,22 @@ export class OpenAIConnector {
       }
 
       const duration = Date.now() - startTime;
-      const usage = response.usage ? {
-        prompt_tokens: (response.usage as any).prompt_tokens || 0,
-        completion_tokens: (response.usage as any).completion_tokens || 0,
-        total_tokens: (response.usage as any).total_tokens || 0,
-      } : undefined;
+      const usage = this.mapUsage(response.usage);
 
       // Log the call
-      const callLog: LLMCallLog = {
+      this.recorder.record({
         timestamp,
+        role,
         prompt: `[FILE-BASED] ${textContent}`,
         model: response.model || model,
-        maxTokens: 0, // Not applicable for responses API
+        maxTokens: maxTokens || 0,
         temperature: 0, // Not applicable for responses API
         response: responseContent,
         usage,
         duration,
-      };
-      this.callLogs.push(callLog);
-
-      if (this.verbose) {
-        console.log(`\n✅ ${role || 'FILE-BASED'} Response (${duration}ms):`);
-        if (usage) {
-          console.log(`Tokens: ${usage.prompt_tokens} + ${usage.completion_tokens} = ${usage.total_tokens}`);
-        }
-        console.log('─'.repeat(50));
-        console.log(responseContent.length > 500 ? responseContent.substring(0, 500) + '...' : responseContent);
-        console.log('─'.repeat(50));
-      }
+        attempts,
+        retries,
+      });
 
       return {
         content: responseContent,
@@ -352,11 +375,21 @@ export class OpenAIConnector {
         usage,
       };
     } catch (error) {
-      const duration = Date.now() - startTime;
-      if (this.verbose) {
-        console.log(`\n❌ ${role || 'FILE-BASED'} Error (${duration}ms): ${error}`);
-      }
       throw new Error(`OpenAI file-based API call failed: ${error}`);
     }
   }
-}
\ No newline at end of file
+
+  // The Responses API reports input/output tokens rather than the Chat Completions prompt/completion names
+  private mapUsage(usage: OpenAI.Responses.ResponseUsage | undefined): LLMResponse['usage'] {
+    if (!usage) {
+      return undefined;
+    }
+    const promptTokens = usage.input_tokens || 0;
+    const completionTokens = usage.output_tokens || 0;
+    return {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: usage.total_tokens || promptTokens + completionTokens,
+    };
+  }
+}
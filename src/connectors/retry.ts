@@ -0,0 +1,135 @@
+export interface RetryPolicy {
+  /** Attempts per call, including the first one */
+  maxAttempts: number;
+  /** Delay before the first retry; doubled for each following retry */
+  initialDelayMs: number;
+  maxDelayMs: number;
+  /** Randomizes each delay between 50% and 100% of its value so parallel workers don't retry in lockstep */
+  jitter: boolean;
+  /** Per-attempt timeout. For streams it covers the wait for the response to start. Unset means no timeout */
+  timeoutMs?: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: true,
+};
+
+export interface RetryRecord {
+  attempt: number;
+  error: string;
+  delayMs: number;
+}
+
+export interface RetryOutcome<T> {
+  value: T;
+  attempts: number;
+  retries: RetryRecord[];
+}
+
+const RETRYABLE_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN'];
+
+/**
+ * Rate limits, server errors and dropped connections are worth another attempt;
+ * anything else (bad request, auth, unsupported feature) fails straight away.
+ */
+export function isRetryableError(error: unknown): boolean {
+  const candidate = error as { status?: unknown; code?: unknown; cause?: { code?: unknown } } | null;
+  if (!candidate || typeof candidate !== 'object') {
+    return false;
+  }
+
+  if (typeof candidate.status === 'number') {
+    return candidate.status === 408 || candidate.status === 409 || candidate.status === 429 || candidate.status >= 500;
+  }
+
+  // The SDKs report network failures as status-less APIConnectionError / APIConnectionTimeoutError
+  if (/Connection/.test(candidate.constructor?.name || '')) {
+    return true;
+  }
+
+  const code = candidate.code ?? candidate.cause?.code;
+  return typeof code === 'string' && RETRYABLE_CODES.includes(code);
+}
+
+/**
+ * Delay requested by the server through `retry-after-ms` or `retry-after` (seconds or
+ * an HTTP date), if the error carries response headers.
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  const headers = (error as { headers?: unknown } | null)?.headers;
+  if (!headers || typeof headers !== 'object') {
+    return undefined;
+  }
+
+  const read = (name: string): string | undefined => {
+    if (typeof (headers as Headers).get === 'function') {
+      return (headers as Headers).get(name) ?? undefined;
+    }
+    const value = (headers as Record<string, unknown>)[name];
+    return typeof value === 'string' ? value : undefined;
+  };
+
+  const milliseconds = Number(read('retry-after-ms'));
+  if (read('retry-after-ms') && Number.isFinite(milliseconds) && milliseconds >= 0) {
+    return milliseconds;
+  }
+
+  const retryAfter = read('retry-after');
+  if (!retryAfter) {
+    return undefined;
+  }
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function backoffDelay(policy: RetryPolicy, retryIndex: number): number {
+  const delay = Math.min(policy.maxDelayMs, policy.initialDelayMs * 2 ** retryIndex);
+  return policy.jitter ? Math.round(delay / 2 + Math.random() * (delay / 2)) : delay;
+}
+
+/**
+ * Runs `operation` under the retry policy. Each attempt gets its own AbortSignal, which
+ * is aborted when `timeoutMs` expires; the timed-out attempt then counts as retryable.
+ * The last error is rethrown unchanged once attempts run out or a non-retryable error occurs.
+ */
+export async function withRetry<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): Promise<RetryOutcome<T>> {
+  const retries: RetryRecord[] = [];
+  const maxAttempts = Math.max(1, policy.maxAttempts);
+
+  for (let attempt = 1; ; attempt++) {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = policy.timeoutMs
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, policy.timeoutMs)
+      : undefined;
+
+    try {
+      const value = await operation(controller.signal);
+      return { value, attempts: attempt, retries };
+    } catch (error) {
+      const failure = timedOut ? new Error(`Request timed out after ${policy.timeoutMs}ms`) : error;
+      if (attempt >= maxAttempts || !(timedOut || isRetryableError(error))) {
+        throw failure;
+      }
+
+      const delayMs = getRetryAfterMs(error) ?? backoffDelay(policy, attempt - 1);
+      retries.push({ attempt, error: String(failure), delayMs });
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
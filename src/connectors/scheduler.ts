@@ -0,0 +1,190 @@
+import { estimateTokens } from '../utils/cost.js';
+import { CallGate, GatedCall, ReleaseCall } from './gated.js';
+
+export interface RequestSchedulerOptions {
+  /** Requests in flight at once across everything sharing the scheduler (default: unlimited) */
+  maxConcurrency?: number;
+  /**
+   * Tokens per minute allowed for each model. A number applies to every model separately;
+   * a map sets limits per model, with `*` as the fallback. Unset means no token limit.
+   */
+  tokensPerMinute?: number | Record<string, number>;
+}
+
+interface Waiter {
+  call: GatedCall;
+  tokens: number;
+  resolve: (release: ReleaseCall) => void;
+}
+
+interface ClientState {
+  waiters: Waiter[];
+  inFlight: number;
+  /** Dispatch sequence number of the client's latest call; 0 if it has none yet */
+  lastServed: number;
+}
+
+interface TokenSpend {
+  at: number;
+  tokens: number;
+}
+
+const WINDOW_MS = 60_000;
+
+/**
+ * Shared rate limiter for provider requests. It caps concurrent requests and the tokens
+ * sent to each model over a sliding one-minute window, and serves waiting clients in
+ * turn so one large orchestration cannot starve another sharing the same scheduler.
+ *
+ * Each orchestration run gets its own gate through `forClient`; token use is booked from
+ * a prompt-length estimate plus `maxTokens` and corrected to the real usage when the call
+ * returns it.
+ */
+export class RequestScheduler {
+  private maxConcurrency: number;
+  private tokensPerMinute: RequestSchedulerOptions['tokensPerMinute'];
+  private clients: Map<unknown, ClientState> = new Map();
+  private active: number = 0;
+  private dispatchCount: number = 0;
+  private spend: Map<string, TokenSpend[]> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private timerDue: number = Infinity;
+
+  constructor(options: RequestSchedulerOptions = {}) {
+    this.maxConcurrency = options.maxConcurrency || Infinity;
+    this.tokensPerMinute = options.tokensPerMinute;
+  }
+
+  /**
+   * A gate whose waiting calls are queued under `client`; clients take turns.
+   */
+  forClient(client: unknown): CallGate {
+    return {
+      acquire: call => this.acquire(call, client),
+    };
+  }
+
+  acquire(call: GatedCall, client: unknown = null): Promise<ReleaseCall> {
+    return new Promise(resolve => {
+      let state = this.clients.get(client);
+      if (!state) {
+        state = { waiters: [], inFlight: 0, lastServed: 0 };
+        this.clients.set(client, state);
+      }
+      state.waiters.push({ call, tokens: estimateTokens(call.prompt) + call.maxTokens, resolve });
+      this.pump();
+    });
+  }
+
+  /** Requests currently in flight */
+  get inFlight(): number {
+    return this.active;
+  }
+
+  /** Calls waiting for a slot */
+  get pending(): number {
+    return [...this.clients.values()].reduce((total, state) => total + state.waiters.length, 0);
+  }
+
+  private limitFor(model: string): number {
+    if (typeof this.tokensPerMinute === 'number') {
+      return this.tokensPerMinute;
+    }
+    return this.tokensPerMinute?.[model] ?? this.tokensPerMinute?.['*'] ?? Infinity;
+  }
+
+  private usedTokens(model: string, now: number): number {
+    const entries = (this.spend.get(model) || []).filter(entry => now - entry.at < WINDOW_MS);
+    this.spend.set(model, entries);
+    return entries.reduce((total, entry) => total + entry.tokens, 0);
+  }
+
+  // How long until `tokens` fit under the model's limit; 0 when they fit now
+  private waitFor(model: string, tokens: number, now: number): number {
+    const limit = this.limitFor(model);
+    const used = this.usedTokens(model, now);
+    // A single call larger than the limit still runs once the window is empty
+    if (used + tokens <= limit || used === 0) {
+      return 0;
+    }
+
+    const entries = this.spend.get(model)!;
+    let freed = 0;
+    for (const entry of entries) {
+      freed += entry.tokens;
+      if (used - freed + tokens <= limit) {
+        return entry.at + WINDOW_MS - now;
+      }
+    }
+    return entries[entries.length - 1].at + WINDOW_MS - now;
+  }
+
+  private pump(): void {
+    const now = Date.now();
+    let nextWake = Infinity;
+
+    while (this.active < this.maxConcurrency) {
+      // Each client offers its oldest call that fits the token limits, keeping calls to one
+      // model in order; the client served least recently goes first
+      let next: { client: unknown; state: ClientState; index: number } | null = null;
+      for (const [client, state] of this.clients) {
+        if (next && state.lastServed >= next.state.lastServed) continue;
+
+        const blocked = new Set<string>();
+        const index = state.waiters.findIndex(waiter => {
+          if (blocked.has(waiter.call.model)) return false;
+          const wait = this.waitFor(waiter.call.model, waiter.tokens, now);
+          if (wait > 0) {
+            blocked.add(waiter.call.model);
+            nextWake = Math.min(nextWake, wait);
+          }
+          return wait === 0;
+        });
+        if (index !== -1) {
+          next = { client, state, index };
+        }
+      }
+      if (!next) break;
+
+      const [waiter] = next.state.waiters.splice(next.index, 1);
+      next.state.lastServed = ++this.dispatchCount;
+      this.dispatch(next.client, next.state, waiter, now);
+    }
+
+    // One timer for the earliest moment a held call could fit
+    if (nextWake !== Infinity && now + nextWake < this.timerDue) {
+      if (this.timer) clearTimeout(this.timer);
+      this.timerDue = now + nextWake;
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.timerDue = Infinity;
+        this.pump();
+      }, nextWake);
+    }
+  }
+
+  private dispatch(client: unknown, state: ClientState, waiter: Waiter, now: number): void {
+    const entry: TokenSpend = { at: now, tokens: waiter.tokens };
+    const entries = this.spend.get(waiter.call.model) || [];
+    entries.push(entry);
+    this.spend.set(waiter.call.model, entries);
+    this.active++;
+    state.inFlight++;
+
+    let released = false;
+    waiter.resolve(usage => {
+      if (released) return;
+      released = true;
+      if (usage) {
+        entry.tokens = usage.total_tokens;
+      }
+      this.active--;
+      state.inFlight--;
+      // Keep an idle client's turn history only while it still has calls around
+      if (state.inFlight === 0 && state.waiters.length === 0) {
+        this.clients.delete(client);
+      }
+      this.pump();
+    });
+  }
+}
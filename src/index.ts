@@ -1,6 +1,28 @@
-export { OpenAIConnector } from './connectors/index.js';
+export { OpenAIConnector, OpenAICompatibleConnector, AnthropicConnector, MockConnector, GatedConnector, RequestScheduler, CachingConnector, MemoryCacheStore, FileCacheStore, CassetteRecorder, RecordingConnector, ReplayConnector, loadCassette, createConnector, PROVIDERS, DEFAULT_MODELS, WEB_SEARCH_CONTEXT_SIZES, DEFAULT_RETRY_POLICY, withRetry } from './connectors/index.js';
+export type { LLMConnector, ConnectorConfig, ProviderName, LLMResponse, WebSearchResponse, WebSearchOptions, WebSearchSource, WebSearchContextSize, FileUploadResponse, LLMCallLog, MockConnectorOptions, MockReply, MockResponder, JsonSchemaFormat, RetryPolicy, RetryRecord, CallGate, GatedCall, ReleaseCall, RequestSchedulerOptions, CacheStore, CacheEntry, CachingConnectorOptions, Cassette, CassetteInteraction, CassetteCallKind } from './connectors/index.js';
 export { FlexibleOrchestrator } from './orchestrator.js';
 export { Worker } from './worker.js';
-export { WebSearchWorker, SimpleWorker, LibrarianWorker } from './workers/index.js';
+export { WebSearchWorker, SimpleWorker, LibrarianWorker, CodeWorker, WorkerRegistry, BUILTIN_WORKERS, simpleWorkerDefinition, searchWorkerDefinition, librarianWorkerDefinition, codeWorkerDefinition, createCodeWorkerDefinition, createLibrarianWorkerDefinition, createSearchWorkerDefinition, LIBRARIAN_MODES, UPLOAD_EXTENSIONS, librarianExtensions } from './workers/index.js';
+export type { WorkerRegistryOptions, WebSearchWorkerOptions, CodeWorkerOptions, CodeWorkerResult, LibrarianMode, LibrarianWorkerOptions } from './workers/index.js';
 export * from './types/index.js';
-export { extractXml, extractSingleXml, parseSubtaskStrategies, parseWorkerResults } from './utils/xml-parser.js';
\ No newline at end of file
+export { extractXml, extractSingleXml, parseStrategyBlocks, parseSubtaskStrategies, parseWorkerResults } from './utils/xml-parser.js';
+export type { StrategyParseResult } from './utils/xml-parser.js';
+export { planSchema, parseStrategyJson } from './utils/plan-schema.js';
+export { runSandboxed, CODE_LANGUAGES, DEFAULT_SANDBOX_OPTIONS } from './utils/sandbox.js';
+export type { CodeLanguage, SandboxOptions, SandboxResult } from './utils/sandbox.js';
+export { DocumentIndex, DOCUMENT_HANDLERS, chunkText, extractText, htmlToText } from './utils/document-index.js';
+export type { ChunkOptions, DocumentIndexOptions, RetrievedPassage, TextExtractor } from './utils/document-index.js';
+export { resolveDocuments, globToRegExp, DEFAULT_MAX_FILE_SIZE } from './utils/document-selection.js';
+export type { DocumentSelection, DocumentSelectionOptions, SelectedDocument, SkippedDocument } from './utils/document-selection.js';
+export { Bibliography, findCitations, markCitations } from './utils/citations.js';
+export { SYNTHESIS_MODES, parseResultScores, selectByScore, parseChoice, describeSynthesis } from './utils/synthesis.js';
+export { PageFetcher, SearxngSearchProvider, BraveSearchProvider, LocalSearchProvider, createSearchProvider, extractReadableText, parseRobots, robotsAllow, SEARCH_PROVIDERS, DEFAULT_PAGE_FETCHER_OPTIONS } from './search/index.js';
+export type { SearchProvider, SearchHit, SearchQueryOptions, PageContent, PageFetcherOptions, LocalPage, SearchProviderName, SearchProviderConfig } from './search/index.js';
+export { sortTaskGraph, repairTaskGraph } from './utils/task-graph.js';
+export { AGENT_TYPES, checkPlan, validatePlanConstraints } from './utils/plan-constraints.js';
+export type { PlanConstraints } from './utils/plan-constraints.js';
+export { RunReportRecorder, formatJsonLine, formatMarkdownReport, OUTPUT_FORMATS } from './utils/report.js';
+export type { OutputFormat, RunReport, RunTimings } from './utils/report.js';
+export { DEFAULT_PRICING, findPricing, estimateCost, summarizeUsage, formatCost, estimateTokens, BudgetGuard } from './utils/cost.js';
+export { ContextBudget, DEFAULT_CONTEXT_WINDOWS, FALLBACK_CONTEXT_WINDOW, CONTEXT_OVERFLOW_MODES, findContextWindow, countTokens, truncateToTokens, shareTokens, describeAdjustment } from './utils/context-budget.js';
+export type { BudgetedInput, FitRequest, FittedPrompt } from './utils/context-budget.js';
@@ -1,58 +1,312 @@
 import path from 'path';
-import { OpenAIConnector, LLMResponse } from './connectors/index.js';
-import { parseSubtaskStrategies, parseWorkerResults } from './utils/xml-parser.js';
-import { OrchestratorOptions, SubtaskStrategy, WorkerResult, OrchestratorResult } from './types/index.js';
-import { WebSearchWorker, WebSearchResult, SimpleWorker, LibrarianWorker } from './workers/index.js';
+import { EventEmitter } from 'events';
+import { LLMConnector, LLMCallLog, CallGate, GatedConnector, RequestScheduler } from './connectors/index.js';
+import { extractSingleXml, parseStrategyBlocks, parseSubtaskStrategies, parseWorkerResults, StrategyParseResult } from './utils/xml-parser.js';
+import { planSchema, parseStrategyJson } from './utils/plan-schema.js';
+import {
+  OrchestratorOptions,
+  OrchestratorRole,
+  OrchestratorEvents,
+  AgentType,
+  OrchestratorEventName,
+  OrchestratorStreamEvent,
+  SubtaskStrategy,
+  TokenUsage,
+  WorkerResult,
+  WorkerEnvironment,
+  OrchestratorResult,
+  OrchestrationRound,
+  OrchestrationStopReason,
+  RoundEvaluation,
+  Citation,
+  ResultScore,
+  SynthesisTrace,
+  ContextAdjustment,
+} from './types/index.js';
+import { AsyncQueue } from './utils/async-queue.js';
+import { sortTaskGraph, repairTaskGraph } from './utils/task-graph.js';
+import { checkPlan, validatePlanConstraints } from './utils/plan-constraints.js';
+import { BudgetGuard, DEFAULT_PRICING, summarizeUsage } from './utils/cost.js';
+import { Bibliography } from './utils/citations.js';
+import { CONTEXT_OVERFLOW_MODES, ContextBudget, DEFAULT_CONTEXT_WINDOWS } from './utils/context-budget.js';
+import { SYNTHESIS_MODES, parseChoice, parseResultScores, selectByScore } from './utils/synthesis.js';
+import { WorkerRegistry } from './workers/index.js';
+
+type Emit = <K extends Exclude<OrchestratorEventName, 'llm:call'>>(event: K, payload: OrchestratorEvents[K]) => void;
+
+// State of one `run`: where events go, the calls it made, and the gates its calls pass through
+interface RunContext {
+  emit: Emit;
+  streaming: boolean;
+  logs: LLMCallLog[];
+  budget: BudgetGuard | null;
+  schedule: CallGate | null;
+  // Each worker's `setup` result, made on first use and kept for later rounds; null if the worker is unavailable
+  workers: Map<AgentType, Promise<{ state: unknown } | null>>;
+  // Cleared once the planner's backend refuses JSON plans, so later plan calls go straight to XML
+  structuredPlans: boolean;
+  bibliography: Bibliography;
+  // Context windows of the run's models; every call passes through it and shrunk inputs land in `adjustments`
+  contextBudget: ContextBudget;
+  adjustments: ContextAdjustment[];
+  // The orchestrator's context, shrunk to fit next to the other prompt inputs
+  context: Record<string, any>;
+}
+
+type PlanFormat = 'json' | 'xml';
+
+interface PlanResponse extends StrategyParseResult {
+  content: string;
+}
+
+// What a synthesis prompt adds to the results beyond the citable sources
+interface SynthesisNotes {
+  /** The evaluator's critique of the previous round */
+  critique?: string;
+  /** A judge's scores of the results */
+  scores?: ResultScore[];
+  /** A first draft and a critic's objections to it, to be revised */
+  draft?: string;
+  objections?: string;
+}
+
+// "a", "a and b", "a, b, and c"
+function joinList(items: string[]): string {
+  if (items.length <= 2) {
+    return items.join(' and ');
+  }
+  return `${items.slice(0, -1).join(', ')}, and ${items[items.length - 1]}`;
+}
+
+function sumUsage(logs: LLMCallLog[]): TokenUsage | undefined {
+  const withUsage = logs.filter(log => log.usage);
+  if (withUsage.length === 0) {
+    return undefined;
+  }
+  return withUsage.reduce(
+    (total, log) => ({
+      prompt_tokens: total.prompt_tokens + log.usage!.prompt_tokens,
+      completion_tokens: total.completion_tokens + log.usage!.completion_tokens,
+      total_tokens: total.total_tokens + log.usage!.total_tokens,
+    }),
+    { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
+  );
+}
 
 export class FlexibleOrchestrator {
-  private connector: OpenAIConnector;
-  private options: Required<OrchestratorOptions>;
+  private connector: LLMConnector;
+  private options: Required<Omit<OrchestratorOptions, 'scheduler' | 'workers'>>;
+  private scheduler?: RequestScheduler;
+  private workers: WorkerRegistry;
+  private events: EventEmitter = new EventEmitter();
+  // Call logs of each in-flight run, used to attribute usage to workers and synthesis
+  private activeRuns: Set<LLMCallLog[]> = new Set();
 
-  constructor(connector: OpenAIConnector, options: OrchestratorOptions = {}) {
+  constructor(connector: LLMConnector, options: OrchestratorOptions = {}) {
     this.connector = connector;
+    this.workers = options.workers || new WorkerRegistry();
     this.options = {
       model: options.model || 'gpt-4.1',
+      simpleModel: options.simpleModel || 'gpt-4.1-mini',
       maxTokens: options.maxTokens || 1500,
       temperature: options.temperature || 0.7,
       context: options.context || {},
       documents: options.documents || [],
+      roles: options.roles || {},
+      retry: options.retry || {},
+      workerFailure: options.workerFailure || { mode: 'best-effort' },
+      pricing: { ...DEFAULT_PRICING, ...options.pricing },
+      budgetUsd: options.budgetUsd ?? Infinity,
+      maxRounds: options.maxRounds || 1,
+      tokenBudget: options.tokenBudget ?? Infinity,
+      minStrategies: options.minStrategies || Math.min(2, options.maxStrategies || 2),
+      maxStrategies: options.maxStrategies || Math.max(3, options.minStrategies || 0),
+      allowedAgents: options.allowedAgents || this.workers.names(),
+      agentQuotas: options.agentQuotas || {},
+      planRepairs: options.planRepairs ?? 2,
+      structuredPlans: options.structuredPlans ?? true,
+      synthesis: {
+        mode: options.synthesis?.mode || 'single',
+        samples: options.synthesis?.samples ?? 3,
+        minScore: options.synthesis?.minScore ?? 5,
+      },
+      contextWindows: { ...DEFAULT_CONTEXT_WINDOWS, ...options.contextWindows },
+      contextOverflow: options.contextOverflow || 'truncate',
     };
+    validatePlanConstraints(this.options);
+    if (!SYNTHESIS_MODES.includes(this.options.synthesis.mode)) {
+      throw new Error(`Unknown synthesis mode "${this.options.synthesis.mode}". Expected one of: ${SYNTHESIS_MODES.join(', ')}`);
+    }
+    if (!Number.isInteger(this.options.synthesis.samples) || this.options.synthesis.samples! < 1) {
+      throw new Error(`synthesis.samples must be a whole number of at least 1, got ${this.options.synthesis.samples}`);
+    }
+    if (!CONTEXT_OVERFLOW_MODES.includes(this.options.contextOverflow)) {
+      throw new Error(`Unknown context overflow mode "${this.options.contextOverflow}". Expected one of: ${CONTEXT_OVERFLOW_MODES.join(', ')}`);
+    }
+    const unknown = [...this.options.allowedAgents, this.options.workerFailure.fallbackAgent || 'simple']
+      .filter(agent => !this.workers.has(agent));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown agent type "${unknown[0]}"; registered workers: ${this.workers.names().join(', ')}`);
+    }
+    this.scheduler = options.scheduler;
+
+    this.getConnectors().forEach(connector => {
+      if (options.retry) {
+        connector.setRetryPolicy(options.retry);
+      }
+      connector.onCall(log => {
+        this.activeRuns.forEach(runLogs => runLogs.push(log));
+        this.events.emit('llm:call', log);
+      });
+    });
   }
 
-  private getOrchestratorPrompt(task: string): string {
-    const contextInfo = Object.keys(this.options.context).length > 0 
-      ? `\n\nAdditional context: ${JSON.stringify(this.options.context, null, 2)}`
+  on<K extends OrchestratorEventName>(event: K, listener: (payload: OrchestratorEvents[K]) => void): this {
+    this.events.on(event, listener);
+    return this;
+  }
+
+  once<K extends OrchestratorEventName>(event: K, listener: (payload: OrchestratorEvents[K]) => void): this {
+    this.events.once(event, listener);
+    return this;
+  }
+
+  off<K extends OrchestratorEventName>(event: K, listener: (payload: OrchestratorEvents[K]) => void): this {
+    this.events.off(event, listener);
+    return this;
+  }
+
+  private getConnectors(): LLMConnector[] {
+    const connectors = new Set<LLMConnector>([this.connector]);
+    Object.values(this.options.roles).forEach(role => {
+      if (role?.connector) connectors.add(role.connector);
+    });
+    return [...connectors];
+  }
+
+  private connectorFor(role: OrchestratorRole | AgentType, run: RunContext): LLMConnector {
+    let connector = this.options.roles[role]?.connector || this.connector;
+    // The budget is checked once the scheduler lets the call through, against up-to-date spend
+    if (run.budget) {
+      connector = new GatedConnector(connector, run.budget);
+    }
+    if (run.schedule) {
+      connector = new GatedConnector(connector, run.schedule);
+    }
+    // A prompt too large for the model is refused before it waits on the scheduler
+    return new GatedConnector(connector, run.contextBudget);
+  }
+
+  private modelFor(role: OrchestratorRole | AgentType): string {
+    const override = this.options.roles[role]?.model;
+    if (override) {
+      return override;
+    }
+    return role === 'simple' ? this.options.simpleModel : this.options.model;
+  }
+
+  // `maxTokens`, capped at what the role's model can produce
+  private maxTokensFor(role: OrchestratorRole | AgentType, run: RunContext): number {
+    return run.contextBudget.outputTokens(this.modelFor(role), this.options.maxTokens);
+  }
+
+  /**
+   * Call logs from every connector used by this orchestrator, in call order.
+   */
+  getCallLogs(): LLMCallLog[] {
+    return this.getConnectors()
+      .flatMap(connector => connector.getCallLogs())
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  private getOrchestratorPrompt(task: string, context: Record<string, any>, format: PlanFormat = 'xml'): string {
+    const contextInfo = Object.keys(context).length > 0 
+      ? `\n\nAdditional context: ${JSON.stringify(context, null, 2)}`
       : '';
 
     const documentsInfo = this.options.documents.length > 0
       ? `\n\nAvailable documents for analysis: ${this.options.documents.map(d => path.basename(d)).join(', ')}`
       : '';
 
-    return `You are a task orchestrator. Your job is to analyze a complex task and break it down into 2-3 distinct subtask approaches that can be handled by specialized AI agents.
+    const { minStrategies, maxStrategies, allowedAgents, agentQuotas } = this.options;
+    const range = minStrategies === maxStrategies ? `${minStrategies}` : `${minStrategies}-${maxStrategies}`;
+    const approaches = maxStrategies === 1 ? 'approach' : 'approaches';
+    const agentChoices = allowedAgents.join('|');
+
+    const allowed = this.workers.list().filter(worker => allowedAgents.includes(worker.name));
+    const agentLines = allowed.map(worker => {
+      const documents = worker.capabilities?.documents
+        ? this.options.documents.length > 0 ? ' (documents are available)' : ' (no documents provided)'
+        : '';
+      return `- ${worker.name.toUpperCase()} (${this.modelFor(worker.name)}): ${worker.description}${documents}`;
+    });
+    const hints = this.agentHints();
+
+    const quotas = Object.entries(agentQuotas).filter(([, count]) => count);
+    const quotaInfo = quotas.length > 0
+      ? `\n\nThe plan must include ${joinList(quotas.map(([agent, count]) => `at least ${count} ${agent.toUpperCase()} approach${count === 1 ? '' : 'es'}`))}.`
+      : '';
+
+    // Three worked templates are enough to show the format, however many approaches are allowed
+    const templates = Array.from({ length: Math.min(maxStrategies, 3) }, (_, i) => `<approach>Brief name for approach ${i + 1}</approach>
+<id>short-id-${i + 1}</id>
+<agent>${agentChoices}</agent>
+<depends_on>${i === 0 ? 'none' : 'none, or comma-separated ids of approaches whose results this one needs'}</depends_on>
+<description>Detailed description of what this approach should accomplish and why this agent type is best suited for it</description>`).join('\n\n');
+    const moreTemplates = maxStrategies > 3 ? `\n\nContinue in the same format for further approaches, up to ${maxStrategies} in total.` : '';
+    const formatInfo = format === 'json'
+      ? `Respond with a JSON object with an "approaches" array holding one entry per approach:
+{
+  "approaches": [
+    {
+      "name": "Brief name for the approach",
+      "id": "short-id",
+      "agent": "${agentChoices}",
+      "depends_on": ["ids of approaches whose results this one needs; empty for none"],
+      "description": "Detailed description of what this approach should accomplish and why this agent type is best suited for it"
+    }
+  ]
+}`
+      : `Format your response as follows:
+${templates}${moreTemplates}`;
+    const dependsOnField = format === 'json' ? '"depends_on"' : '<depends_on>';
+
+    return `You are a task orchestrator. Your job is to analyze a complex task and break it down into ${range} distinct subtask ${approaches} that can be handled by specialized AI agents.
 
 Task: ${task}${contextInfo}${documentsInfo}
 
 Available agent types:
-- SIMPLE: Fast, cost-effective agent (gpt-4.1-mini) for straightforward tasks that don't need real-time data or documents
-- SEARCH: Web search agent (gpt-4.1) that can access current information, news, trends, and real-time data
-- LIBRARIAN: Document analysis agent (gpt-4.1) that can analyze uploaded documents${this.options.documents.length > 0 ? ' (documents are available)' : ' (no documents provided)'}
+${agentLines.join('\n')}
 
-Please analyze this task and generate 2-3 different approaches. For each approach, choose the most appropriate agent type based on the requirements.
+Please analyze this task and generate ${range} different ${approaches}. For each approach, choose the most appropriate agent type based on the requirements.${quotaInfo}
 
-Format your response as follows:
-<approach>Brief name for approach 1</approach>
-<agent>simple|search|librarian</agent>
-<description>Detailed description of what this approach should accomplish and why this agent type is best suited for it</description>
+${formatInfo}
 
-<approach>Brief name for approach 2</approach>
-<agent>simple|search|librarian</agent>
-<description>Detailed description of what this approach should accomplish and why this agent type is best suited for it</description>
+Approaches run in parallel unless they depend on each other. An approach that lists ids in ${dependsOnField} starts after those approaches finish and receives their results, which suits ordered work such as "search for facts, then analyze them, then draft". Only add a dependency when an approach needs another's output, and never make approaches depend on each other in a cycle.
 
-<approach>Brief name for approach 3</approach>
-<agent>simple|search|librarian</agent>
-<description>Detailed description of what this approach should accomplish and why this agent type is best suited for it</description>
+Focus on creating complementary approaches that together will provide a comprehensive solution. Choose agent types strategically${hints ? ` - use ${hints}` : ''}.`;
+  }
 
-Focus on creating complementary approaches that together will provide a comprehensive solution. Choose agent types strategically - use SEARCH for current information, LIBRARIAN for document analysis, and SIMPLE for reasoning tasks.`;
+  // "SEARCH for current information, and SIMPLE for reasoning tasks" over the allowed workers that say what they are for
+  private agentHints(): string {
+    return joinList(
+      this.workers
+        .list()
+        .filter(worker => worker.useFor && this.options.allowedAgents.includes(worker.name))
+        .map(worker => `${worker.name.toUpperCase()} for ${worker.useFor}`)
+    );
+  }
+
+  private getPlanRepairPrompt(task: string, context: Record<string, any>, plan: string, problems: string[], format: PlanFormat): string {
+    return `${this.getOrchestratorPrompt(task, context, format)}
+
+Your previous plan was:
+${plan}
+
+It breaks these requirements:
+${problems.map(problem => `- ${problem}`).join('\n')}
+
+Respond with a corrected plan in the same format.`;
   }
 
   private getWorkerPrompt(task: string, approach: string, description: string): string {
@@ -74,157 +328,860 @@ Your detailed result here
 </result>`;
   }
 
-  private getSynthesisPrompt(task: string, results: WorkerResult[]): string {
-    const resultsText = results.map(r => 
+  private formatResults(results: WorkerResult[]): string {
+    return results.filter(r => !r.error).map(r =>
       `Approach: ${r.approach}\nResult:\n${r.result}`
     ).join('\n\n---\n\n');
+  }
+
+  private getSynthesisPrompt(task: string, results: WorkerResult[], citations: Citation[] = [], notes: SynthesisNotes = {}): string {
+    const resultsText = this.formatResults(results);
+
+    const failed = results.filter(r => r.error);
+    const missingInfo = failed.length > 0
+      ? `\n\nMissing approaches (these workers failed, so their results are not available):\n${failed.map(r => `- ${r.approach}: ${r.error}`).join('\n')}\n\nDo not invent results for the missing approaches; point out any gaps they leave in the answer.`
+      : '';
+
+    const critiqueInfo = notes.critique
+      ? `\n\nReviewer feedback on the previous synthesis (the latest approaches were run to address it):\n${notes.critique}`
+      : '';
+
+    const scoresInfo = notes.scores && notes.scores.length > 0
+      ? `\n\nA judge scored the results from 1 to 10 (results under ${this.options.synthesis.minScore} were left out); where results conflict, prefer the higher-scored one:\n${notes.scores.map(s => `- ${s.approach}: ${s.score} - ${s.rationale}`).join('\n')}`
+      : '';
+
+    const citationsInfo = citations.length > 0
+      ? `\n\nCitable sources:\n${citations.map(c => `[${c.id}] ${c.title}${c.url ? ` - ${c.url}` : ''}`).join('\n')}`
+      : '';
+    const citationRule = citations.length > 0
+      ? `\n5. Keeps citation markers such as [${citations[0].id}] after the claims they support, citing only the sources listed above`
+      : '';
+
+    const revisionInfo = notes.draft
+      ? `\n\nA first draft of this synthesis:\n${notes.draft}\n\nA critic's objections to the draft:\n${notes.objections}\n\nFix what the critic rightly objects to and keep what the draft got right. Do not mention the draft or the critic.`
+      : '';
 
     return `You are a synthesis specialist. Your job is to combine multiple approaches to a task into a comprehensive, cohesive final result.
 
 Original Task: ${task}
 
 Worker Results:
-${resultsText}
+${resultsText}${citationsInfo}${missingInfo}${scoresInfo}${critiqueInfo}
 
 Please synthesize these results into a single, comprehensive response that:
 1. Incorporates the best elements from each approach
 2. Resolves any conflicts or contradictions
 3. Provides a cohesive, well-structured final answer
-4. Maintains the strengths of each individual approach
+4. Maintains the strengths of each individual approach${citationRule}${revisionInfo}
 
 Provide your synthesis:`;
   }
 
+  private getSummaryPrompt(task: string, result: WorkerResult, words: number = 300): string {
+    return `You are condensing one worker's result so it can be merged with the results of other approaches.
+
+Original Task: ${task}
+Approach: ${result.approach}
+
+Result:
+${result.result}
+
+Summarize the facts, figures, conclusions and caveats of this result that matter for the task in at most ${words} words, and leave out everything else. Keep citation markers such as [S1] next to the claims they support.
+
+Provide your summary:`;
+  }
+
+  private getCriticPrompt(task: string, results: WorkerResult[], draft: string): string {
+    return `You are a critic reviewing a draft answer against the worker results it was built from.
+
+Original Task: ${task}
+
+Worker Results:
+${this.formatResults(results)}
+
+Draft Answer:
+${draft}
+
+List the problems of the draft: claims the results do not support, contradictions between results it glossed over or settled the wrong way, important findings it left out, and citation markers on the wrong claims. Be specific and quote the draft. If the draft has no problems, say so.
+
+Provide your critique:`;
+  }
+
+  private getJudgePrompt(task: string, results: WorkerResult[]): string {
+    return `You are a judge scoring worker results before they are merged into an answer.
+
+Original Task: ${task}
+
+Worker Results:
+${this.formatResults(results)}
+
+Score every result from 1 to 10 against this rubric:
+- Relevance: does it address the task?
+- Support: are its claims backed by sources, documents, computations or sound reasoning?
+- Accuracy: is it free of errors and of contradictions with better-supported results?
+- Completeness: does it cover its approach fully?
+
+For each result respond with:
+<assessment>
+<approach>Approach name exactly as given</approach>
+<score>1-10</score>
+<rationale>One or two sentences on the score</rationale>
+</assessment>`;
+  }
+
+  private getPickPrompt(task: string, candidates: string[]): string {
+    return `You are a judge choosing the best of several candidate answers to a task.
+
+Original Task: ${task}
+
+${candidates.map((candidate, index) => `Candidate ${index + 1}:\n${candidate}`).join('\n\n---\n\n')}
+
+Pick the candidate that is the most accurate, complete, well supported and clearly written. Respond with its number as <choice>n</choice>, followed by one sentence on why.`;
+  }
+
+  private getEvaluatorPrompt(task: string, context: Record<string, any>, strategies: SubtaskStrategy[], synthesis: string): string {
+    const contextInfo = Object.keys(context).length > 0
+      ? `\n\nAdditional context: ${JSON.stringify(context, null, 2)}`
+      : '';
+    const hints = this.agentHints();
+
+    return `You are a critical reviewer. Your job is to judge whether a synthesized answer fully accomplishes a task, and to plan follow-up work if it does not.
+
+Original Task: ${task}${contextInfo}
+
+Approaches already run:
+${strategies.map(s => `- ${s.approach}${s.id ? ` [id: ${s.id}]` : ''} (${s.agentType}): ${s.description}`).join('\n')}
+
+Synthesized Answer:
+${synthesis}
+
+If the answer is complete, accurate and well supported, respond with:
+<verdict>accept</verdict>
+<critique>Why the answer is sufficient</critique>
+
+Otherwise respond with:
+<verdict>revise</verdict>
+<critique>What is missing, wrong or unsupported in the answer</critique>
+
+followed by 1-3 new approaches that fill those gaps, each formatted as:
+<approach>Brief name for the approach</approach>
+<id>new-short-id</id>
+<agent>${this.options.allowedAgents.join('|')}</agent>
+<depends_on>none, or comma-separated ids of approaches (new or already run) whose results this one needs</depends_on>
+<description>What this approach should find or produce to close the gap</description>
+
+Do not repeat approaches that were already run, and give new approaches ids that are not used yet.${hints ? ` Use ${hints}.` : ''}`;
+  }
+
   async orchestrate(task: string): Promise<OrchestratorResult> {
+    return this.run(task);
+  }
+
+  /**
+   * Runs the same pipeline as `orchestrate`, yielding the plan, worker progress and
+   * synthesis tokens as they are produced. The final event carries the full result.
+   */
+  async *orchestrateStream(task: string): AsyncGenerator<OrchestratorStreamEvent> {
+    const queue = new AsyncQueue<OrchestratorStreamEvent>();
+
+    this.run(task, (event, payload) => queue.push({ type: event, ...payload } as OrchestratorStreamEvent)).then(
+      result => {
+        queue.push({ type: 'done', result });
+        queue.close();
+      },
+      error => queue.fail(error)
+    );
+
+    yield* queue;
+  }
+
+  private async run(task: string, sink?: Emit): Promise<OrchestratorResult> {
+    const emit: Emit = (event, payload) => {
+      this.events.emit(event, payload);
+      sink?.(event, payload);
+    };
+    const runLogs: LLMCallLog[] = [];
+    const run: RunContext = {
+      emit,
+      streaming: Boolean(sink),
+      logs: runLogs,
+      budget: Number.isFinite(this.options.budgetUsd)
+        ? new BudgetGuard(this.options.budgetUsd, runLogs, this.options.pricing)
+        : null,
+      // Each run queues as its own client so concurrent runs take turns
+      schedule: this.scheduler?.forClient(runLogs) || null,
+      structuredPlans: this.options.structuredPlans,
+      workers: new Map(),
+      bibliography: new Bibliography(),
+      contextBudget: new ContextBudget(this.options.contextWindows, adjustment => {
+        run.adjustments.push(adjustment);
+        emit('context:adjust', adjustment);
+      }),
+      adjustments: [],
+      context: this.options.context,
+    };
+    this.activeRuns.add(runLogs);
+
     try {
+      run.context = await this.fitContext(run);
+
       // Step 1: Generate subtask strategies with agent type selection
-      const orchestratorPrompt = this.getOrchestratorPrompt(task);
-      const orchestratorResponse = await this.connector.llmCall(
-        orchestratorPrompt,
-        this.options.model,
-        this.options.maxTokens,
-        this.options.temperature,
-        'ORCHESTRATOR'
-      );
+      const strategies = await this.plan(task, run);
 
-      const strategies = parseSubtaskStrategies(orchestratorResponse.content);
-      
-      if (strategies.length === 0) {
-        throw new Error('Failed to generate subtask strategies');
-      }
+      const allStrategies: SubtaskStrategy[] = [];
+      const allResults: WorkerResult[] = [];
+      const rounds: OrchestrationRound[] = [];
+      let pending = strategies;
+      let critique: string | undefined;
+      let stopReason: OrchestrationStopReason | undefined;
+      let stopError: string | undefined;
+      // Once a round has a synthesis, a failure after it ends the run with that synthesis
+      const stopOnError = (error: unknown) => {
+        stopReason = run.budget?.exceeded ? 'budget' : 'error';
+        if (stopReason === 'error') {
+          stopError = error instanceof Error ? error.message : String(error);
+          console.warn(`Stopping after round ${rounds.length}: ${stopError}`);
+        }
+      };
 
-      // Step 2: Execute mixed worker tasks in parallel based on chosen agent types
-      const results = await this.executeMixedWorkers(strategies, task);
-
-      // Step 3: Synthesize results
-      const synthesisPrompt = this.getSynthesisPrompt(task, results);
-      const synthesisResponse = await this.connector.llmCall(
-        synthesisPrompt,
-        this.options.model,
-        this.options.maxTokens,
-        this.options.temperature,
-        'SYNTHESIZER'
-      );
+      for (let round = 1; ; round++) {
+        const roundLogStart = runLogs.length;
+        emit('plan:created', { task, strategies: pending, round });
 
+        let results: WorkerResult[];
+        let synthesis: string;
+        let synthesisTrace: SynthesisTrace | undefined;
+        try {
+          // Step 2: Execute mixed worker tasks in parallel based on chosen agent types
+          const upstream = new Map<string, WorkerResult>();
+          allStrategies.forEach((strategy, index) => {
+            if (strategy.id) upstream.set(strategy.id, allResults[index]);
+          });
+          results = await this.executeMixedWorkers(pending, task, run, allStrategies.length, upstream);
+
+          // Step 3: Synthesize everything gathered so far
+          ({ synthesis, trace: synthesisTrace } = await this.synthesize(task, [...allResults, ...results], critique, run));
+        } catch (error) {
+          if (round === 1) throw error;
+          stopOnError(error);
+          break;
+        }
+
+        allStrategies.push(...pending);
+        allResults.push(...results);
+        const record: OrchestrationRound = { round, strategies: pending, results, synthesis, ...(synthesisTrace ? { synthesisTrace } : {}) };
+        rounds.push(record);
+
+        if (round >= this.options.maxRounds) {
+          stopReason = 'max-rounds';
+        } else if ((sumUsage(runLogs)?.total_tokens || 0) >= this.options.tokenBudget) {
+          stopReason = 'token-budget';
+        } else {
+          // Step 4: Judge the synthesis and plan approaches for whatever it is missing
+          try {
+            record.evaluation = await this.evaluate(task, allStrategies, synthesis, round, run);
+          } catch (error) {
+            stopOnError(error);
+          }
+        }
+        record.usage = sumUsage(runLogs.slice(roundLogStart));
+        if (!record.evaluation) {
+          break;
+        }
+
+        if (record.evaluation.accepted) {
+          stopReason = 'accepted';
+          break;
+        }
+        // Worker roles are named after approaches, so a repeated approach would muddle the logs
+        const known = new Set(allStrategies.map(strategy => strategy.approach));
+        // The evaluator may reuse ids from earlier rounds or name ones that do not exist
+        const repair = repairTaskGraph(
+          record.evaluation.strategies.filter(
+            strategy => !known.has(strategy.approach) && this.options.allowedAgents.includes(strategy.agentType)
+          ),
+          allStrategies.flatMap(strategy => (strategy.id ? [strategy.id] : []))
+        );
+        repair.problems.forEach(problem => console.warn(`Evaluator plan: ${problem}`));
+        pending = repair.strategies;
+        if (pending.length === 0) {
+          stopReason = 'no-new-strategies';
+          break;
+        }
+        critique = record.evaluation.critique;
+      }
+
+      const synthesis = rounds[rounds.length - 1].synthesis;
       return {
         task,
-        strategies,
-        results,
-        synthesis: synthesisResponse.content,
+        strategies: allStrategies,
+        results: allResults,
+        synthesis,
+        synthesisMode: this.options.synthesis.mode,
+        usage: summarizeUsage(runLogs, this.options.pricing),
+        rounds,
+        stopReason,
+        ...(stopError ? { stopError } : {}),
+        bibliography: run.bibliography.resolve(synthesis),
+        citationIssues: run.bibliography.check(synthesis),
+        ...(run.adjustments.length > 0 ? { contextAdjustments: run.adjustments } : {}),
       };
 
     } catch (error) {
       throw new Error(`Orchestration failed: ${error}`);
+    } finally {
+      this.activeRuns.delete(runLogs);
     }
   }
 
-  private async executeMixedWorkers(strategies: SubtaskStrategy[], task: string): Promise<WorkerResult[]> {
-    // Initialize workers once, reuse for multiple tasks
-    let librarianWorker: LibrarianWorker | null = null;
-    let webSearchWorker: WebSearchWorker | null = null;
-    let simpleWorker: SimpleWorker | null = null;
+  /**
+   * Asks for a plan and, while it is malformed or breaks the planner constraints, asks
+   * again with the problems spelled out, up to `planRepairs` times.
+   */
+  private async plan(task: string, run: RunContext): Promise<SubtaskStrategy[]> {
+    let previous: { plan: string; problems: string[] } | undefined;
 
-    // Check if we need librarian worker and validate documents
-    const needsLibrarian = strategies.some(s => s.agentType === 'librarian');
-    if (needsLibrarian && this.options.documents.length === 0) {
-      console.warn('Librarian agent requested but no documents provided. Converting to simple agent.');
+    for (let repair = 0; ; repair++) {
+      const role = repair === 0 ? 'ORCHESTRATOR' : `ORCHESTRATOR (repair ${repair})`;
+      const { content, strategies, errors } = await this.requestPlan(task, role, run, previous);
+
+      const problems = [...errors, ...checkPlan(strategies, this.options)];
+      if (problems.length === 0) {
+        return strategies;
+      }
+      if (repair >= this.options.planRepairs) {
+        const attempts = repair === 0 ? '' : ` after ${repair} repair attempt${repair === 1 ? '' : 's'}`;
+        throw new Error(`Failed to generate subtask strategies${attempts}: ${problems.join(' ')}`);
+      }
+      previous = { plan: content, problems };
     }
+  }
+
+  /**
+   * One plan from the planner, as schema-constrained JSON while the backend supports it.
+   * JSON that fails validation goes back once with the validation errors; if it is still
+   * malformed, or the backend refuses JSON schemas, the plan is requested as XML instead.
+   */
+  private async requestPlan(
+    task: string,
+    role: string,
+    run: RunContext,
+    previous?: { plan: string; problems: string[] }
+  ): Promise<PlanResponse> {
+    const connector = this.connectorFor('orchestrator', run);
+    const model = this.modelFor('orchestrator');
+    const maxTokens = this.maxTokensFor('orchestrator', run);
+    const { temperature } = this.options;
+    const promptFor = (format: PlanFormat) => previous
+      ? this.getPlanRepairPrompt(task, run.context, previous.plan, previous.problems, format)
+      : this.getOrchestratorPrompt(task, run.context, format);
 
-    // Initialize librarian worker if needed and documents are available
-    if (needsLibrarian && this.options.documents.length > 0) {
+    if (run.structuredPlans) {
       try {
-        librarianWorker = new LibrarianWorker(this.connector, {
-          model: this.options.model,
-          maxTokens: this.options.maxTokens,
-          temperature: this.options.temperature,
-          filePaths: this.options.documents,
-        });
-        await librarianWorker.initialize();
+        const schema = planSchema(this.options.allowedAgents);
+        let response = await connector.structuredCall(promptFor('json'), schema, model, maxTokens, temperature, role);
+        let parsed = parseStrategyJson(response.content, this.workers.names());
+        if (parsed.errors.length > 0) {
+          response = await connector.structuredCall(
+            this.getPlanRepairPrompt(task, run.context, response.content, parsed.errors, 'json'),
+            schema,
+            model,
+            maxTokens,
+            temperature,
+            `${role} (format fix)`
+          );
+          parsed = parseStrategyJson(response.content, this.workers.names());
+        }
+        if (parsed.errors.length === 0) {
+          return { content: response.content, ...parsed };
+        }
       } catch (error) {
-        console.warn(`Librarian worker initialization failed: ${error}. Converting librarian tasks to simple agent.`);
-        librarianWorker = null;
+        if (run.budget?.exceeded) throw error;
       }
+      run.structuredPlans = false;
     }
 
-    // Execute all strategies in parallel
-    const executionPromises = strategies.map(async (strategy): Promise<WorkerResult> => {
-      let agentType = strategy.agentType;
-      
-      // Fallback to simple if librarian requested but no documents or initialization failed
-      if (agentType === 'librarian' && (this.options.documents.length === 0 || !librarianWorker)) {
+    const response = await connector.llmCall(promptFor('xml'), model, maxTokens, temperature, role);
+    return { content: response.content, ...parseStrategyBlocks(response.content, this.workers.names()) };
+  }
+
+  /**
+   * Hands a strategy the results it depends on by appending them to its description. They
+   * may take half of what the worker's model can take; the rest is left to the worker's own prompt.
+   */
+  private async withUpstreamResults(task: string, strategy: SubtaskStrategy, inputs: WorkerResult[], run: RunContext): Promise<SubtaskStrategy> {
+    if (inputs.length === 0) {
+      return strategy;
+    }
+    const model = this.modelFor(strategy.agentType);
+    const maxTokens = this.maxTokensFor(strategy.agentType, run);
+    const upstreamText = await this.fitResults(
+      task,
+      inputs,
+      `${strategy.agentType.toUpperCase()}-WORKER (${strategy.approach})`,
+      strategy.agentType,
+      fitted => fitted.map(input => `### ${input.approach}\n${input.result}`).join('\n\n'),
+      run,
+      Math.floor(run.contextBudget.inputTokens(model, maxTokens) / 2)
+    );
+    return {
+      ...strategy,
+      description: `${strategy.description}\n\nResults of the approaches this one builds on:\n\n${upstreamText}`,
+    };
+  }
+
+  /**
+   * Combines the results in the configured synthesis mode. Every call is made as the
+   * synthesizer role; only the call that writes the final answer streams.
+   */
+  private async synthesize(
+    task: string,
+    results: WorkerResult[],
+    critique: string | undefined,
+    run: RunContext
+  ): Promise<{ synthesis: string; trace?: SynthesisTrace }> {
+    const { emit, logs: runLogs } = run;
+    const { mode, samples, minScore } = this.options.synthesis;
+    const succeeded = results.filter(result => !result.error);
+    const citations = run.bibliography.forResults(results);
+    const synthesisStart = Date.now();
+    const synthesisLogStart = runLogs.length;
+    let synthesis: string;
+    let trace: SynthesisTrace | undefined;
+
+    emit('synthesis:start', { task, results });
+    // Every prompt below is built over worker results shrunk to fit the synthesizer's window
+    const fit = (role: string, over: WorkerResult[], build: (fitted: WorkerResult[]) => string) =>
+      this.fitResults(task, over, role, 'synthesizer', build, run);
+
+    switch (mode) {
+      case 'map-reduce': {
+        const summaries = await Promise.all(succeeded.map(async result => ({
+          approach: result.approach,
+          summary: await this.summarizeResult(task, result, run),
+        })));
+        const condensed = results.map(result => {
+          const summary = summaries.find(entry => entry.approach === result.approach);
+          return summary ? { ...result, result: summary.summary } : result;
+        });
+        trace = { mode, summaries };
+        synthesis = await this.writeSynthesis(
+          await fit('SYNTHESIZER', condensed, fitted => this.getSynthesisPrompt(task, fitted, citations, { critique })),
+          run
+        );
+        break;
+      }
+
+      case 'debate': {
+        const draft = await this.synthesizerCall(
+          await fit('SYNTHESIZER (draft)', results, fitted => this.getSynthesisPrompt(task, fitted, citations, { critique })),
+          'SYNTHESIZER (draft)',
+          run
+        );
+        const objections = await this.synthesizerCall(
+          await fit('SYNTHESIZER (critic)', results, fitted => this.getCriticPrompt(task, fitted, draft)),
+          'SYNTHESIZER (critic)',
+          run
+        );
+        trace = { mode, draft, critique: objections };
+        synthesis = await this.writeSynthesis(
+          await fit('SYNTHESIZER', results, fitted => this.getSynthesisPrompt(task, fitted, citations, { critique, draft, objections })),
+          run
+        );
+        break;
+      }
+
+      case 'judge': {
+        const verdict = await this.synthesizerCall(
+          await fit('SYNTHESIZER (judge)', succeeded, fitted => this.getJudgePrompt(task, fitted)),
+          'SYNTHESIZER (judge)',
+          run
+        );
+        const scores = parseResultScores(verdict, succeeded.map(result => result.approach));
+        const selected = selectByScore(succeeded, scores, minScore!);
+        trace = { mode, scores };
+        synthesis = await this.writeSynthesis(
+          await fit('SYNTHESIZER', [...selected, ...results.filter(result => result.error)], fitted =>
+            this.getSynthesisPrompt(task, fitted, run.bibliography.forResults(selected), { critique, scores })
+          ),
+          run
+        );
+        break;
+      }
+
+      case 'best-of-n': {
+        const prompt = await fit('SYNTHESIZER', results, fitted => this.getSynthesisPrompt(task, fitted, citations, { critique }));
+        // Distinct roles keep response caches and cassettes from handing every sample the same answer
+        const candidates = await Promise.all(Array.from({ length: samples! }, (_, index) =>
+          this.synthesizerCall(prompt, `SYNTHESIZER (sample ${index + 1})`, run)
+        ));
+        let chosen = 0;
+        if (candidates.length > 1) {
+          const { prompt: pickPrompt } = await run.contextBudget.fit({
+            role: 'SYNTHESIZER (judge)',
+            model: this.modelFor('synthesizer'),
+            maxTokens: this.maxTokensFor('synthesizer', run),
+            inputs: candidates.map((candidate, index) => ({ input: `candidate ${index + 1}`, text: candidate })),
+            build: texts => this.getPickPrompt(task, texts),
+          });
+          chosen = parseChoice(await this.synthesizerCall(pickPrompt, 'SYNTHESIZER (judge)', run), candidates.length);
+        }
+        trace = { mode, candidates, chosen };
+        synthesis = candidates[chosen];
+        if (run.streaming) {
+          emit('synthesis:delta', { delta: synthesis });
+        }
+        break;
+      }
+
+      default:
+        synthesis = await this.writeSynthesis(
+          await fit('SYNTHESIZER', results, fitted => this.getSynthesisPrompt(task, fitted, citations, { critique })),
+          run
+        );
+    }
+
+    emit('synthesis:end', {
+      synthesis,
+      duration: Date.now() - synthesisStart,
+      usage: sumUsage(runLogs.slice(synthesisLogStart).filter(log => log.role?.startsWith('SYNTHESIZER'))),
+      ...(trace ? { trace } : {}),
+    });
+    return { synthesis, trace };
+  }
+
+  /**
+   * The prompt `build` makes over `results`, with the successful results shrunk until it fits
+   * the window of `modelRole`'s model (and `limit`, if given): condensed by the synthesizer
+   * first in `summarize` overflow mode, then truncated.
+   */
+  private async fitResults(
+    task: string,
+    results: WorkerResult[],
+    role: string,
+    modelRole: OrchestratorRole | AgentType,
+    build: (fitted: WorkerResult[]) => string,
+    run: RunContext,
+    limit?: number
+  ): Promise<string> {
+    const succeeded = results.filter(result => !result.error);
+    const { prompt } = await run.contextBudget.fit({
+      role,
+      model: this.modelFor(modelRole),
+      maxTokens: this.maxTokensFor(modelRole, run),
+      limit,
+      inputs: succeeded.map(result => ({ input: `result of ${result.approach}`, text: result.result })),
+      build: texts => build(results.map(result => {
+        const index = succeeded.indexOf(result);
+        return index === -1 ? result : { ...result, result: texts[index] };
+      })),
+      // About three words to the token leaves the summary some room
+      summarize: this.options.contextOverflow === 'summarize'
+        ? (_input, tokens, index) => this.summarizeResult(task, succeeded[index], run, Math.max(50, Math.floor(tokens * 0.75)))
+        : undefined,
+    });
+    return prompt;
+  }
+
+  // One result condensed by the synthesizer; a result too long for even that is truncated first
+  private async summarizeResult(task: string, result: WorkerResult, run: RunContext, words?: number): Promise<string> {
+    const role = `SYNTHESIZER (summary: ${result.approach})`;
+    const { prompt } = await run.contextBudget.fit({
+      role,
+      model: this.modelFor('synthesizer'),
+      maxTokens: this.maxTokensFor('synthesizer', run),
+      inputs: [{ input: `result of ${result.approach}`, text: result.result }],
+      build: ([text]) => this.getSummaryPrompt(task, { ...result, result: text }, words),
+    });
+    return this.synthesizerCall(prompt, role, run);
+  }
+
+  // An intermediate synthesis step, never streamed
+  private async synthesizerCall(prompt: string, role: string, run: RunContext): Promise<string> {
+    const response = await this.connectorFor('synthesizer', run).llmCall(
+      prompt,
+      this.modelFor('synthesizer'),
+      this.maxTokensFor('synthesizer', run),
+      this.options.temperature,
+      role
+    );
+    return response.content;
+  }
+
+  // The call that writes the answer, streamed when the run streams
+  private async writeSynthesis(prompt: string, run: RunContext): Promise<string> {
+    if (!run.streaming) {
+      return this.synthesizerCall(prompt, 'SYNTHESIZER', run);
+    }
+
+    let synthesis = '';
+    for await (const delta of this.connectorFor('synthesizer', run).llmStream(
+      prompt,
+      this.modelFor('synthesizer'),
+      this.maxTokensFor('synthesizer', run),
+      this.options.temperature,
+      'SYNTHESIZER'
+    )) {
+      synthesis += delta;
+      run.emit('synthesis:delta', { delta });
+    }
+    return synthesis;
+  }
+
+  private async evaluate(
+    task: string,
+    strategies: SubtaskStrategy[],
+    synthesis: string,
+    round: number,
+    run: RunContext
+  ): Promise<RoundEvaluation> {
+    const evaluationStart = Date.now();
+    const evaluationLogStart = run.logs.length;
+    const response = await this.connectorFor('evaluator', run).llmCall(
+      this.getEvaluatorPrompt(task, run.context, strategies, synthesis),
+      this.modelFor('evaluator'),
+      this.maxTokensFor('evaluator', run),
+      this.options.temperature,
+      'EVALUATOR'
+    );
+
+    const accepted = extractSingleXml(response.content, 'verdict')?.toLowerCase() === 'accept';
+    const evaluation: RoundEvaluation = {
+      accepted,
+      critique: extractSingleXml(response.content, 'critique') || '',
+      strategies: accepted ? [] : parseSubtaskStrategies(response.content, this.workers.names()),
+    };
+
+    run.emit('evaluation:end', {
+      round,
+      evaluation,
+      duration: Date.now() - evaluationStart,
+      usage: sumUsage(run.logs.slice(evaluationLogStart).filter(log => log.role === 'EVALUATOR')),
+    });
+    return evaluation;
+  }
+
+  /**
+   * The orchestrator's context with its strings truncated, longest first, until its JSON takes
+   * at most a quarter of what the smallest window among the planner, evaluator and workers
+   * can take. Every prompt that includes the context can then still fit its other inputs.
+   */
+  private async fitContext(run: RunContext): Promise<Record<string, any>> {
+    const context = this.options.context;
+    const strings: Array<{ path: string[]; text: string }> = [];
+    const collect = (value: unknown, path: string[]) => {
+      if (typeof value === 'string') {
+        strings.push({ path, text: value });
+      } else if (value && typeof value === 'object') {
+        Object.entries(value).forEach(([key, child]) => collect(child, [...path, key]));
+      }
+    };
+    collect(context, []);
+    if (strings.length === 0) {
+      return context;
+    }
+
+    const roles: Array<OrchestratorRole | AgentType> = ['orchestrator', 'evaluator', ...this.options.allowedAgents];
+    const [smallest] = roles
+      .map(role => ({ model: this.modelFor(role), tokens: run.contextBudget.inputTokens(this.modelFor(role), this.options.maxTokens) }))
+      .sort((a, b) => a.tokens - b.tokens);
+    const withTexts = (texts: string[]) => {
+      const copy = JSON.parse(JSON.stringify(context));
+      strings.forEach(({ path }, i) => {
+        const parent = path.slice(0, -1).reduce((node, key) => node[key], copy);
+        parent[path[path.length - 1]] = texts[i];
+      });
+      return copy;
+    };
+
+    const { texts } = await run.contextBudget.fit({
+      role: '*',
+      model: smallest.model,
+      maxTokens: this.options.maxTokens,
+      limit: Math.floor(smallest.tokens / 4),
+      inputs: strings.map(({ path, text }) => ({ input: `context.${path.join('.')}`, text })),
+      build: texts => JSON.stringify(withTexts(texts), null, 2),
+    });
+    return texts.every((text, i) => text === strings[i].text) ? context : withTexts(texts);
+  }
+
+  // Connector-independent part of what a worker gets; the connector carries the run's gates
+  private environmentFor(agentType: AgentType, run: RunContext): Omit<WorkerEnvironment, 'connector'> {
+    return {
+      model: this.modelFor(agentType),
+      maxTokens: this.maxTokensFor(agentType, run),
+      temperature: this.options.temperature,
+      documents: this.options.documents,
+      context: run.context,
+      contextBudget: run.contextBudget,
+    };
+  }
+
+  /**
+   * Runs a worker's `setup` once per run and shares the outcome between its approaches.
+   * Resolves to null when the worker cannot be used in this run.
+   */
+  private prepareWorker(agentType: AgentType, run: RunContext): Promise<{ state: unknown } | null> {
+    const existing = run.workers.get(agentType);
+    if (existing) {
+      return existing;
+    }
+
+    const worker = this.workers.get(agentType);
+    if (!worker) {
+      throw new Error(`Unknown agent type "${agentType}"`);
+    }
+    const label = agentType.charAt(0).toUpperCase() + agentType.slice(1);
+    let prepared: Promise<{ state: unknown } | null>;
+    if (worker.capabilities?.documents && this.options.documents.length === 0) {
+      console.warn(`${label} agent requested but no documents provided. Converting to simple agent.`);
+      prepared = Promise.resolve(null);
+    } else if (!worker.setup) {
+      prepared = Promise.resolve({ state: undefined });
+    } else {
+      prepared = worker.setup({ ...this.environmentFor(agentType, run), connector: this.connectorFor(agentType, run) }).then(
+        state => ({ state }),
+        error => {
+          console.warn(`${label} worker initialization failed: ${error}. Converting ${agentType} tasks to simple agent.`);
+          return null;
+        }
+      );
+    }
+    run.workers.set(agentType, prepared);
+    return prepared;
+  }
+
+  /**
+   * `firstIndex` is the position of `strategies[0]` in the run, so worker events of later
+   * rounds carry run-wide indices. `upstream` holds results of earlier rounds by strategy id,
+   * which later strategies may depend on.
+   */
+  private async executeMixedWorkers(
+    strategies: SubtaskStrategy[],
+    task: string,
+    run: RunContext,
+    firstIndex: number = 0,
+    upstream: Map<string, WorkerResult> = new Map()
+  ): Promise<WorkerResult[]> {
+    const { emit, logs: runLogs } = run;
+    // Rejects cycles and unknown ids before any worker starts
+    const order = sortTaskGraph(strategies, [...upstream.keys()]);
+
+    const runStrategy = async (
+      strategy: SubtaskStrategy,
+      index: number,
+      plannedType: AgentType = strategy.agentType
+    ): Promise<WorkerResult> => {
+      let agentType = plannedType;
+      let prepared = await this.prepareWorker(agentType, run);
+      // Workers that need documents they don't have, or whose setup failed, hand their approaches to the simple worker
+      if (!prepared) {
         agentType = 'simple';
+        prepared = await this.prepareWorker(agentType, run);
       }
 
-      switch (agentType) {
-        case 'librarian':
-          if (!librarianWorker) {
-            throw new Error('Librarian worker not initialized');
-          }
-          const libResult = await librarianWorker.execute(task, strategy.approach, strategy.description, this.options.context);
-          return {
-            approach: libResult.approach,
-            result: libResult.result,
-            filesUsed: libResult.filesUsed,
-            workerType: 'librarian' as const,
-            model: libResult.model,
-            duration: libResult.duration,
-          };
-
-        case 'search':
-          if (!webSearchWorker) {
-            webSearchWorker = new WebSearchWorker(this.connector, {
-              model: this.options.model,
-            });
+      const worker = this.workers.get(agentType)!;
+      const output = await worker.execute({
+        ...this.environmentFor(agentType, run),
+        connector: this.connectorFor(agentType, run),
+        task,
+        approach: strategy.approach,
+        description: strategy.description,
+        role: `${agentType.toUpperCase()}-WORKER (${strategy.approach})`,
+        state: prepared!.state,
+        cite: source => run.bibliography.cite(source, strategy.approach),
+        onDelta: run.streaming
+          ? delta => emit('worker:delta', { index, approach: strategy.approach, agentType: strategy.agentType, delta })
+          : undefined,
+      });
+      // Sources the worker did not cite itself get their ids here
+      return run.bibliography.add({ approach: strategy.approach, ...output, workerType: agentType });
+    };
+
+    const policy = this.options.workerFailure;
+    const fallbackAgent = policy.fallbackAgent || 'simple';
+
+    // A strategy starts once the strategies it depends on have finished; independent ones run in parallel
+    const running = new Map<string, Promise<WorkerResult | null>>();
+    const executionPromises: Promise<WorkerResult>[] = [];
+    order.forEach(position => {
+      const strategy = strategies[position];
+      const dependsOn = strategy.dependsOn || [];
+
+      const execution = (async (): Promise<WorkerResult> => {
+        const inputs = await Promise.all(dependsOn.map(id => upstream.get(id) || running.get(id)!));
+
+        const index = firstIndex + position;
+        const info = { index, approach: strategy.approach, agentType: strategy.agentType };
+        const startTime = Date.now();
+        const logStart = runLogs.length;
+        // Every worker role is suffixed with its approach, e.g. `SIMPLE-WORKER (Founder Lookup)`
+        const workerUsage = () => sumUsage(runLogs.slice(logStart).filter(log => log.role?.endsWith(`(${strategy.approach})`)));
+
+        emit('worker:start', info);
+        try {
+          const failed = dependsOn.filter((_, i) => !inputs[i] || inputs[i]!.error);
+          if (failed.length > 0) {
+            throw new Error(`Skipped because approaches it depends on failed: ${failed.join(', ')}`);
           }
-          const searchResult = await webSearchWorker.execute(task, strategy.approach, strategy.description, this.options.context);
-          return {
-            approach: searchResult.approach,
-            result: searchResult.result,
-            sources: searchResult.sources,
-            searchPerformed: searchResult.searchPerformed,
-            workerType: 'search' as const,
-          };
-
-        case 'simple':
-        default:
-          if (!simpleWorker) {
-            simpleWorker = new SimpleWorker(this.connector, {
-              model: 'gpt-4.1-mini',
-              maxTokens: this.options.maxTokens,
-              temperature: this.options.temperature,
-            });
+
+          const withInputs = await this.withUpstreamResults(task, strategy, inputs as WorkerResult[], run);
+          let result: WorkerResult;
+          try {
+            result = await runStrategy(withInputs, index);
+          } catch (error) {
+            if (policy.mode !== 'fallback' || strategy.agentType === fallbackAgent) {
+              throw error;
+            }
+            result = { ...(await runStrategy(withInputs, index, fallbackAgent)), fallbackFrom: strategy.agentType };
           }
-          const simpleResult = await simpleWorker.execute(task, strategy.approach, strategy.description, this.options.context);
-          return {
-            approach: simpleResult.approach,
-            result: simpleResult.result,
-            workerType: 'simple' as const,
-            model: simpleResult.model,
-            duration: simpleResult.duration,
-          };
+          emit('worker:end', { ...info, duration: Date.now() - startTime, usage: workerUsage(), result });
+          return result;
+        } catch (error) {
+          emit('worker:error', {
+            ...info,
+            duration: Date.now() - startTime,
+            usage: workerUsage(),
+            error: error instanceof Error ? error : new Error(String(error)),
+          });
+          throw error;
+        }
+      })();
+
+      executionPromises[position] = execution;
+      if (strategy.id) {
+        // Downstream strategies only need to know whether this one failed, not why
+        running.set(strategy.id, execution.catch(() => null));
       }
     });
 
-    return await Promise.all(executionPromises);
+    if (policy.mode === 'fail-fast') {
+      return await Promise.all(executionPromises);
+    }
+
+    const settled = await Promise.allSettled(executionPromises);
+    // Running out of budget ends the run whatever the failure policy
+    if (run.budget?.exceeded) {
+      throw run.budget.exceeded;
+    }
+    const results = settled.map((outcome, index): WorkerResult =>
+      outcome.status === 'fulfilled'
+        ? outcome.value
+        : {
+            approach: strategies[index].approach,
+            result: '',
+            workerType: strategies[index].agentType,
+            error: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason),
+          }
+    );
+
+    const succeeded = results.filter(result => !result.error).length;
+    const minSuccesses = Math.min(policy.minSuccesses ?? 1, strategies.length);
+    if (succeeded < minSuccesses) {
+      const failures = results.filter(result => result.error).map(result => `${result.approach}: ${result.error}`);
+      throw new Error(`Only ${succeeded} of ${strategies.length} workers succeeded (minimum ${minSuccesses}). ${failures.join('; ')}`);
+    }
+
+    return results;
   }
 }
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { htmlToText } from '../utils/document-index.js';
+import { PageContent, SearchHit, SearchProvider, SearchQueryOptions } from './provider.js';
+import { PageFetcher } from './page-fetcher.js';
+
+const BRAVE_SEARCH_URL = 'https://api.search.brave.com/res/v1/web/search';
+
+interface BraveResponse {
+  web?: {
+    results?: Array<{ url: string; title?: string; description?: string }>;
+  };
+}
+
+/** Searches the web through the Brave Search API, with the key from `BRAVE_API_KEY` by default */
+export class BraveSearchProvider implements SearchProvider {
+  readonly name = 'brave';
+  private apiKey: string;
+  private baseURL: string;
+  private fetcher: PageFetcher;
+
+  constructor(apiKey?: string, baseURL: string = BRAVE_SEARCH_URL, fetcher: PageFetcher = new PageFetcher()) {
+    const key = apiKey || process.env.BRAVE_API_KEY;
+    if (!key) {
+      throw new Error('The brave search provider requires an API key (set BRAVE_API_KEY)');
+    }
+    this.apiKey = key;
+    this.baseURL = baseURL;
+    this.fetcher = fetcher;
+  }
+
+  async search(query: string, options: SearchQueryOptions = {}): Promise<SearchHit[]> {
+    // The API returns at most 20 results per request
+    const count = String(Math.min(options.limit ?? 10, 20));
+    const response = await fetch(`${this.baseURL}?${new URLSearchParams({ q: query, count })}`, {
+      headers: { accept: 'application/json', 'x-subscription-token': this.apiKey },
+      signal: options.signal || AbortSignal.timeout(15_000),
+    });
+    if (!response.ok) {
+      throw new Error(`Brave search failed with HTTP ${response.status}`);
+    }
+
+    // Titles and descriptions highlight the query terms with <strong>
+    const body = await response.json() as BraveResponse;
+    return (body.web?.results || []).map(result => ({
+      title: htmlToText(result.title || '') || result.url,
+      url: result.url,
+      snippet: result.description ? htmlToText(result.description) : undefined,
+    }));
+  }
+
+  read(hit: SearchHit, signal?: AbortSignal): Promise<PageContent> {
+    return this.fetcher.fetch(hit.url, signal);
+  }
+}
@@ -0,0 +1,42 @@
+import { SearchProvider } from './provider.js';
+import { PageFetcher, PageFetcherOptions } from './page-fetcher.js';
+import { SearxngSearchProvider } from './searxng.js';
+import { BraveSearchProvider } from './brave.js';
+import { LocalSearchProvider } from './local.js';
+
+export type SearchProviderName = 'searxng' | 'brave' | 'local';
+
+export const SEARCH_PROVIDERS: SearchProviderName[] = ['searxng', 'brave', 'local'];
+
+export interface SearchProviderConfig {
+  provider: SearchProviderName;
+  /** SearXNG instance, or another endpoint for the Brave API */
+  baseURL?: string;
+  apiKey?: string;
+  /** Directory of HTML and text files for the local provider */
+  corpus?: string;
+  /** Timeout, agent and robots.txt handling for fetched pages */
+  fetcher?: PageFetcherOptions;
+}
+
+export async function createSearchProvider(config: SearchProviderConfig): Promise<SearchProvider> {
+  switch (config.provider) {
+    case 'searxng':
+      if (!config.baseURL) {
+        throw new Error('The searxng search provider requires the URL of a SearXNG instance (e.g. http://localhost:8888)');
+      }
+      return new SearxngSearchProvider(config.baseURL, new PageFetcher(config.fetcher));
+
+    case 'brave':
+      return new BraveSearchProvider(config.apiKey, config.baseURL, new PageFetcher(config.fetcher));
+
+    case 'local':
+      if (!config.corpus) {
+        throw new Error('The local search provider requires a directory of pages to search');
+      }
+      return LocalSearchProvider.fromDirectory(config.corpus);
+
+    default:
+      throw new Error(`Unknown search provider "${config.provider}". Expected one of: ${SEARCH_PROVIDERS.join(', ')}`);
+  }
+}
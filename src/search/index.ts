@@ -0,0 +1,6 @@
+export * from './provider.js';
+export * from './page-fetcher.js';
+export * from './searxng.js';
+export * from './brave.js';
+export * from './local.js';
+export * from './factory.js';
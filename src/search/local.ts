@@ -0,0 +1,76 @@
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { DOCUMENT_HANDLERS, DocumentIndex, extractText } from '../utils/document-index.js';
+import { resolveDocuments } from '../utils/document-selection.js';
+import { extractReadableText } from './page-fetcher.js';
+import { PageContent, SearchHit, SearchProvider, SearchQueryOptions } from './provider.js';
+
+/** A page of an offline corpus */
+export interface LocalPage {
+  url: string;
+  title: string;
+  text: string;
+}
+
+const SNIPPET_LENGTH = 300;
+
+/**
+ * Searches a fixed set of pages held in memory, ranked with BM25, so the search worker can
+ * run without network access: in tests, or against a saved copy of some site.
+ */
+export class LocalSearchProvider implements SearchProvider {
+  readonly name = 'local';
+  private pages: LocalPage[];
+  private index: DocumentIndex = new DocumentIndex();
+
+  constructor(pages: LocalPage[]) {
+    this.pages = pages;
+    // Pages are indexed under their position, which the passage ids lead back to
+    pages.forEach((page, i) => this.index.add(String(i), `${page.title}\n\n${page.text}`));
+  }
+
+  /**
+   * A corpus of the HTML and text files under `directory`. Pages get `file://` URLs; their
+   * title is the HTML title or first Markdown heading, or else the file name.
+   */
+  static async fromDirectory(directory: string): Promise<LocalSearchProvider> {
+    const { files } = resolveDocuments([directory], { extensions: Object.keys(DOCUMENT_HANDLERS) });
+    const pages = await Promise.all(files.map(async ({ path: filePath }) => {
+      const url = pathToFileURL(path.resolve(filePath)).href;
+      if (/\.html?$/i.test(filePath)) {
+        const { title, text } = extractReadableText(await fs.promises.readFile(filePath, 'utf-8'));
+        return { url, title: title || path.basename(filePath), text };
+      }
+      const text = await extractText(filePath);
+      const heading = text.match(/^#\s+(.+)$/m)?.[1].trim();
+      return { url, title: heading || path.basename(filePath), text };
+    }));
+    return new LocalSearchProvider(pages);
+  }
+
+  async search(query: string, options: SearchQueryOptions = {}): Promise<SearchHit[]> {
+    const limit = options.limit ?? 10;
+    const hits = new Map<number, SearchHit>();
+
+    // Passages come best first, so each page is listed with its best passage as the snippet
+    for (const passage of this.index.search(query, this.index.size)) {
+      const position = Number(passage.file);
+      if (hits.has(position)) continue;
+      const { url, title } = this.pages[position];
+      const snippet = passage.text.length > SNIPPET_LENGTH ? `${passage.text.slice(0, SNIPPET_LENGTH)}...` : passage.text;
+      hits.set(position, { title, url, snippet });
+      if (hits.size === limit) break;
+    }
+
+    return [...hits.values()];
+  }
+
+  async read(hit: SearchHit): Promise<PageContent> {
+    const page = this.pages.find(candidate => candidate.url === hit.url);
+    if (!page) {
+      throw new Error(`${hit.url} is not in the local search corpus`);
+    }
+    return { ...page };
+  }
+}
@@ -0,0 +1,223 @@
+import { htmlToText } from '../utils/document-index.js';
+import { PageContent } from './provider.js';
+
+export interface PageFetcherOptions {
+  /** Time allowed for each request, robots.txt included (default: 10000) */
+  timeoutMs?: number;
+  /** Sent with every request; its first word is the agent robots.txt rules are looked up for (default: LangelotBot/1.0) */
+  userAgent?: string;
+  /** Skip pages robots.txt disallows for this agent (default: true) */
+  respectRobots?: boolean;
+  /** Characters of readable text kept per page (default: 20000) */
+  maxChars?: number;
+  /** Bytes read of each response body; the rest is never downloaded (default: 2000000) */
+  maxBytes?: number;
+}
+
+export const DEFAULT_PAGE_FETCHER_OPTIONS: Required<PageFetcherOptions> = {
+  timeoutMs: 10_000,
+  userAgent: 'LangelotBot/1.0',
+  respectRobots: true,
+  maxChars: 20_000,
+  maxBytes: 2_000_000,
+};
+
+const MAX_REDIRECTS = 5;
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+/**
+ * The rules of the robots.txt group for `agent`, or of the `*` group when no group names
+ * it. Consecutive `User-agent` lines share the rules that follow them.
+ */
+export function parseRobots(text: string, agent: string): RobotsRule[] {
+  const groups: Array<{ agents: string[]; rules: RobotsRule[] }> = [];
+  let current: { agents: string[]; rules: RobotsRule[] } | null = null;
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.replace(/#.*$/, '').match(/^\s*([a-z-]+)\s*:\s*(.*?)\s*$/i);
+    if (!match) continue;
+    const [, field, value] = match;
+    const key = field.toLowerCase();
+
+    if (key === 'user-agent') {
+      if (!current || current.rules.length > 0) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+    } else if (current && (key === 'allow' || key === 'disallow')) {
+      // An empty Disallow allows everything, which is the same as having no rule
+      if (value) {
+        current.rules.push({ allow: key === 'allow', pattern: value });
+      }
+    }
+  }
+
+  const name = agent.toLowerCase();
+  const group = groups.find(candidate => candidate.agents.includes(name))
+    || groups.find(candidate => candidate.agents.includes('*'));
+  return group?.rules || [];
+}
+
+// `*` matches any run of characters and a final `$` anchors the end of the path
+function ruleMatches(pattern: string, pathname: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const regex = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(pathname);
+}
+
+/** Whether `rules` let an agent fetch `pathname` (with its query): the longest matching rule wins, and allow wins ties */
+export function robotsAllow(rules: RobotsRule[], pathname: string): boolean {
+  let best: RobotsRule | null = null;
+  for (const rule of rules) {
+    if (!ruleMatches(rule.pattern, pathname)) continue;
+    if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+      best = rule;
+    }
+  }
+  return best?.allow ?? true;
+}
+
+/**
+ * Title and main text of an HTML page. Navigation, headers, footers, sidebars and forms are
+ * dropped, and when the page marks its content with `<article>` or `<main>` only that is kept.
+ */
+export function extractReadableText(html: string): { title: string; text: string } {
+  const title = htmlToText(html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1] || '');
+  const body = html
+    .replace(/<(head|title)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<(nav|header|footer|aside|form|svg)\b[\s\S]*?<\/\1>/gi, '');
+  const main = body.match(/<(article|main)\b[^>]*>([\s\S]*?)<\/\1>/i)?.[2];
+  const mainText = main ? htmlToText(main) : '';
+  // A short <main> is usually a teaser of a page laid out some other way
+  return { title, text: mainText.length >= 200 ? mainText : htmlToText(body) };
+}
+
+/** The body of `response` as text, reading no more than `maxBytes` of it */
+async function readLimited(response: Response, maxBytes: number): Promise<{ text: string; truncated: boolean }> {
+  if (!response.body) {
+    return { text: '', truncated: false };
+  }
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let truncated = false;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.byteLength;
+    if (size > maxBytes) {
+      truncated = true;
+      await reader.cancel();
+      break;
+    }
+  }
+  return { text: new TextDecoder().decode(Buffer.concat(chunks).subarray(0, maxBytes)), truncated };
+}
+
+/**
+ * Fetches result pages for web search providers and reduces them to readable text. Every
+ * request has a time limit and a cap on the bytes read, and pages robots.txt disallows for
+ * the fetcher's agent are refused, redirect targets included. robots.txt is fetched once
+ * per origin; when it cannot be read, everything is allowed.
+ */
+export class PageFetcher {
+  private options: Required<PageFetcherOptions>;
+  private robots: Map<string, Promise<RobotsRule[]>> = new Map();
+
+  constructor(options: PageFetcherOptions = {}) {
+    this.options = { ...DEFAULT_PAGE_FETCHER_OPTIONS, ...options };
+  }
+
+  private request(url: string, accept: string, signal?: AbortSignal, redirect: RequestRedirect = 'follow'): Promise<Response> {
+    const timeout = AbortSignal.timeout(this.options.timeoutMs);
+    return fetch(url, {
+      headers: { 'user-agent': this.options.userAgent, accept },
+      redirect,
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    });
+  }
+
+  private rulesFor(origin: string, signal?: AbortSignal): Promise<RobotsRule[]> {
+    if (!this.robots.has(origin)) {
+      const agent = this.options.userAgent.split('/')[0];
+      this.robots.set(origin, this.request(`${origin}/robots.txt`, 'text/plain', signal)
+        .then(async response => (response.ok ? parseRobots((await readLimited(response, this.options.maxBytes)).text, agent) : []))
+        .catch(() => []));
+    }
+    return this.robots.get(origin)!;
+  }
+
+  /** Whether robots.txt lets the fetcher read `url`; always true with `respectRobots: false` */
+  async allowed(url: string, signal?: AbortSignal): Promise<boolean> {
+    if (!this.options.respectRobots) {
+      return true;
+    }
+    const parsed = new URL(url);
+    return robotsAllow(await this.rulesFor(parsed.origin, signal), `${parsed.pathname}${parsed.search}`);
+  }
+
+  /**
+   * Readable text of an HTML or plain-text page; other content types are refused. Redirects
+   * are followed one at a time so that robots.txt is checked for each target before it is requested.
+   */
+  async fetch(url: string, signal?: AbortSignal): Promise<PageContent> {
+    let current = url;
+    let response: Response;
+
+    for (let redirects = 0; ; redirects++) {
+      const parsed = new URL(current);
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        throw new Error(`Only http and https pages can be fetched: ${current}`);
+      }
+      if (!(await this.allowed(current, signal))) {
+        throw new Error(`robots.txt disallows fetching ${current}${current === url ? '' : ` (redirected from ${url})`}`);
+      }
+
+      try {
+        response = await this.request(current, 'text/html,application/xhtml+xml,text/plain;q=0.9', signal, 'manual');
+      } catch (error) {
+        const timedOut = error instanceof Error && error.name === 'TimeoutError';
+        throw new Error(timedOut ? `Timed out after ${this.options.timeoutMs} ms fetching ${current}` : `Could not fetch ${current}: ${error}`);
+      }
+
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) break;
+      await response.body?.cancel();
+      if (redirects === MAX_REDIRECTS) {
+        throw new Error(`Fetching ${url} took more than ${MAX_REDIRECTS} redirects`);
+      }
+      current = new URL(location, current).href;
+    }
+    if (!response.ok) {
+      throw new Error(`Fetching ${current} failed with HTTP ${response.status}`);
+    }
+
+    const contentType = response.headers.get('content-type')?.split(';')[0].trim().toLowerCase() || '';
+    if (contentType !== 'text/html' && contentType !== 'application/xhtml+xml' && !contentType.startsWith('text/')) {
+      await response.body?.cancel();
+      throw new Error(`Unsupported content type ${contentType || '(none)'} at ${current}`);
+    }
+    const { text: body, truncated } = await readLimited(response, this.options.maxBytes);
+    let page: { title: string; text: string };
+    if (contentType === 'text/html' || contentType === 'application/xhtml+xml') {
+      page = extractReadableText(body);
+    } else {
+      page = { title: '', text: body.trim() };
+    }
+
+    return {
+      url: current,
+      title: page.title || new URL(current).hostname,
+      text: truncated || page.text.length > this.options.maxChars ? `${page.text.slice(0, this.options.maxChars)}\n[page truncated]` : page.text,
+    };
+  }
+}
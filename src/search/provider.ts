@@ -0,0 +1,34 @@
+/** One result of a search query */
+export interface SearchHit {
+  title: string;
+  url: string;
+  /** Summary the search engine shows under the result */
+  snippet?: string;
+}
+
+/** Readable content of a result page */
+export interface PageContent {
+  url: string;
+  title: string;
+  text: string;
+}
+
+export interface SearchQueryOptions {
+  /** Most results wanted (default: the provider's) */
+  limit?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Search backend the search worker runs its own query, read and answer loop against,
+ * instead of the model provider's built-in search tool. Web backends read pages through
+ * a `PageFetcher`; offline backends return the text they already hold.
+ */
+export interface SearchProvider {
+  /** Name shown in logs and errors, e.g. `searxng` */
+  readonly name: string;
+
+  search(query: string, options?: SearchQueryOptions): Promise<SearchHit[]>;
+
+  read(hit: SearchHit, signal?: AbortSignal): Promise<PageContent>;
+}
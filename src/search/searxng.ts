@@ -0,0 +1,38 @@
+import { PageContent, SearchHit, SearchProvider, SearchQueryOptions } from './provider.js';
+import { PageFetcher } from './page-fetcher.js';
+
+interface SearxngResponse {
+  results?: Array<{ url: string; title?: string; content?: string }>;
+}
+
+/**
+ * Searches a self-hosted SearXNG instance through its JSON API, which has to be enabled
+ * with `json` among the `search.formats` of its settings.
+ */
+export class SearxngSearchProvider implements SearchProvider {
+  readonly name = 'searxng';
+  private baseURL: string;
+  private fetcher: PageFetcher;
+
+  constructor(baseURL: string, fetcher: PageFetcher = new PageFetcher()) {
+    this.baseURL = baseURL.replace(/\/+$/, '');
+    this.fetcher = fetcher;
+  }
+
+  async search(query: string, options: SearchQueryOptions = {}): Promise<SearchHit[]> {
+    const url = `${this.baseURL}/search?${new URLSearchParams({ q: query, format: 'json' })}`;
+    const response = await fetch(url, { headers: { accept: 'application/json' }, signal: options.signal || AbortSignal.timeout(15_000) });
+    if (!response.ok) {
+      throw new Error(`SearXNG search failed with HTTP ${response.status}${response.status === 403 ? ' (is the json format enabled?)' : ''}`);
+    }
+
+    const body = await response.json() as SearxngResponse;
+    return (body.results || [])
+      .slice(0, options.limit ?? 10)
+      .map(result => ({ title: result.title || result.url, url: result.url, snippet: result.content || undefined }));
+  }
+
+  read(hit: SearchHit, signal?: AbortSignal): Promise<PageContent> {
+    return this.fetcher.fetch(hit.url, signal);
+  }
+}
@@ -1,9 +1,120 @@
+import type { LLMConnector, LLMCallLog, RetryPolicy, RequestScheduler, WebSearchSource } from '../connectors/index.js';
+import type { WorkerRegistry } from '../workers/registry.js';
+import type { ContextBudget } from '../utils/context-budget.js';
+
+export type OrchestratorRole = 'orchestrator' | 'simple' | 'search' | 'librarian' | 'code' | 'synthesizer' | 'evaluator';
+
+export interface RoleConfig {
+  connector?: LLMConnector;
+  model?: string;
+}
+
 export interface OrchestratorOptions {
   model?: string;
+  simpleModel?: string;
   maxTokens?: number;
   temperature?: number;
   context?: Record<string, any>;
   documents?: string[];
+  /**
+   * Per-role connector and model overrides; unset roles use the orchestrator's connector and
+   * model. Custom workers are configured under their registered name.
+   */
+  roles?: Partial<Record<OrchestratorRole | AgentType, RoleConfig>>;
+  /** Worker types the planner can choose from (default: the built-in simple, search, librarian and code workers) */
+  workers?: WorkerRegistry;
+  /** Retry and timeout settings applied to every connector the orchestrator uses */
+  retry?: Partial<RetryPolicy>;
+  /** What to do when workers fail; defaults to best-effort with at least one success */
+  workerFailure?: WorkerFailurePolicy;
+  /** Prices per model, merged over the built-in table */
+  pricing?: PricingTable;
+  /** Maximum spend per run in USD; a call that could exceed it aborts the run instead */
+  budgetUsd?: number;
+  /** Concurrency and tokens-per-minute limiter; pass the same instance to share limits across orchestrators */
+  scheduler?: RequestScheduler;
+  /**
+   * Rounds of plan, execute and synthesize (default: 1). After every round but the last an
+   * evaluator judges the synthesis and either accepts it or plans new approaches for its gaps.
+   */
+  maxRounds?: number;
+  /** Tokens a run may use before it stops starting new rounds; checked between rounds */
+  tokenBudget?: number;
+  /** Fewest approaches the plan may have (default: 2) */
+  minStrategies?: number;
+  /** Most approaches the plan may have (default: 3) */
+  maxStrategies?: number;
+  /** Agent types the planner may choose from (default: all) */
+  allowedAgents?: AgentType[];
+  /** Minimum approaches per agent type, e.g. `{ search: 1 }` for at least one search worker */
+  agentQuotas?: Partial<Record<AgentType, number>>;
+  /** Times the planner is asked to fix a plan that breaks the constraints above (default: 2) */
+  planRepairs?: number;
+  /**
+   * Request the plan as JSON constrained to a schema when the orchestrator's backend
+   * supports it, falling back to the XML format when it does not (default: true)
+   */
+  structuredPlans?: boolean;
+  /** How worker results are combined into the answer (default: one synthesizer call over all of them) */
+  synthesis?: SynthesisOptions;
+  /** Context window sizes per model, merged over the built-in table */
+  contextWindows?: ContextWindowTable;
+  /** How inputs too large for a model's context window are shrunk (default: truncate) */
+  contextOverflow?: ContextOverflowMode;
+}
+
+/** USD per million tokens */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+/** Keyed by model name; a key also matches dated versions such as `gpt-4.1-2025-04-14` */
+export type PricingTable = Record<string, ModelPricing>;
+
+/** Token limits of a model */
+export interface ContextWindow {
+  /** Prompt and output together */
+  context: number;
+  /** Most output tokens one call may ask for */
+  maxOutput: number;
+}
+
+/** Keyed by model name like `PricingTable`; models missing from it get a conservative default */
+export type ContextWindowTable = Record<string, ContextWindow>;
+
+/**
+ * - `truncate`: oversized inputs are cut to their share of the window
+ * - `summarize`: oversized worker results are first condensed by the synthesizer; whatever
+ *   still does not fit is truncated
+ */
+export type ContextOverflowMode = 'truncate' | 'summarize';
+
+/** One input shrunk to make a prompt fit its model's context window */
+export interface ContextAdjustment {
+  /** Role of the call the prompt was built for, e.g. `SYNTHESIZER`; `*` for the orchestrator's context, which many prompts share */
+  role: string;
+  model: string;
+  /** What was shrunk, e.g. `result of Founder Lookup` or `context` */
+  input: string;
+  action: 'truncated' | 'summarized' | 'dropped';
+  tokensBefore: number;
+  tokensAfter: number;
+}
+
+/**
+ * - `fail-fast`: the first failed worker fails the whole run
+ * - `best-effort`: synthesize from the workers that succeeded, as long as there are `minSuccesses`
+ * - `fallback`: like best-effort, but a failed strategy is first rerun on `fallbackAgent`
+ */
+export type WorkerFailureMode = 'fail-fast' | 'best-effort' | 'fallback';
+
+export interface WorkerFailurePolicy {
+  mode: WorkerFailureMode;
+  /** Minimum successful workers needed to synthesize (default: 1) */
+  minSuccesses?: number;
+  /** Agent type a failed strategy is rerun on in `fallback` mode (default: simple) */
+  fallbackAgent?: AgentType;
 }
 
 export interface WorkerOptions {
@@ -12,30 +123,296 @@ export interface WorkerOptions {
   temperature?: number;
 }
 
+export type BuiltinAgentType = 'simple' | 'search' | 'librarian' | 'code';
+
+/** Name of a registered worker; the built-in names are listed for completion */
+export type AgentType = BuiltinAgentType | (string & {});
+
+export interface WorkerCapabilities {
+  /** Looks up current information on the web */
+  webAccess?: boolean;
+  /**
+   * Works on the orchestrator's `documents`. Without any, the worker is not set up and its
+   * approaches go to the simple worker.
+   */
+  documents?: boolean;
+  /** Reports output through `onDelta` while it runs */
+  streaming?: boolean;
+  /** Runs code the model writes on this machine */
+  codeExecution?: boolean;
+}
+
+/** What a worker gets to work with: the connector and model configured for its role */
+export interface WorkerEnvironment {
+  connector: LLMConnector;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  documents: string[];
+  context: Record<string, any>;
+  /**
+   * Context window of the worker's model for this run. Workers that put retrieved text in
+   * their prompts use it to fit that text, and their shrinking is reported with the run's.
+   */
+  contextBudget?: ContextBudget;
+}
+
+export interface WorkerRequest<State = unknown> extends WorkerEnvironment {
+  task: string;
+  approach: string;
+  description: string;
+  /** Role to give connector calls, e.g. `LEGAL-WORKER (Contract Review)`, so usage is attributed to the approach */
+  role: string;
+  /** Whatever `setup` returned for this run */
+  state: State;
+  /**
+   * Registers a web source in the run's bibliography and returns its citation id (`S1`,
+   * `S2`, ...), so the worker can cite it by id; the same page always gets the same id
+   */
+  cite: (source: WorkerSource) => string;
+  /** Set while the run is streamed */
+  onDelta?: (delta: string) => void;
+}
+
+/** A worker's answer; the orchestrator adds the approach and worker type */
+export type WorkerOutput = Omit<WorkerResult, 'approach' | 'workerType' | 'error' | 'fallbackFrom'>;
+
+export interface WorkerDefinition<State = unknown> {
+  /** Name the planner uses for the worker: lowercase letters, digits and dashes */
+  name: string;
+  /** Shown to the planner under "Available agent types" */
+  description: string;
+  /** What the planner should pick the worker for, e.g. "current information" */
+  useFor?: string;
+  capabilities?: WorkerCapabilities;
+  /**
+   * Runs once per orchestration, before the worker's first approach, e.g. to upload
+   * documents. If it throws, the worker's approaches go to the simple worker.
+   */
+  setup?(environment: WorkerEnvironment): Promise<State>;
+  execute(request: WorkerRequest<State>): Promise<WorkerOutput>;
+}
+
 export interface SubtaskStrategy {
   approach: string;
   description: string;
-  agentType: 'simple' | 'search' | 'librarian';
+  agentType: AgentType;
+  /** Short id other strategies can name in `dependsOn` */
+  id?: string;
+  /** Ids of strategies whose results this one needs; it runs once they finish and sees their results */
+  dependsOn?: string[];
+}
+
+/** A chunk of a local document, cited by its `id` (e.g. `notes.md#3`) */
+export interface DocumentPassage {
+  id: string;
+  file: string;
+  text: string;
+}
+
+/** The script a code worker ran for its answer, as of its last attempt */
+export interface CodeExecution {
+  language: 'javascript' | 'python';
+  source: string;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  /** Scripts run, counting the first one and every repair */
+  attempts: number;
+}
+
+export interface WorkerSource extends WebSearchSource {
+  /** Citation id within the run, e.g. `S3` */
+  id?: string;
 }
 
 export interface WorkerResult {
   approach: string;
   result: string;
-  sources?: Array<{
-    title: string;
-    url: string;
-    snippet?: string;
-  }>;
+  sources?: WorkerSource[];
   searchPerformed?: boolean;
   filesUsed?: string[];
-  workerType?: 'simple' | 'search' | 'librarian';
+  /** Document passages a local librarian put in its prompt */
+  passages?: DocumentPassage[];
+  code?: CodeExecution;
+  workerType?: AgentType;
   model?: string;
   duration?: number;
+  /** Error message of a failed worker; `result` is empty in that case */
+  error?: string;
+  /** Agent type the strategy was planned for, when it was rerun on a fallback agent */
+  fallbackFrom?: AgentType;
+}
+
+/** An entry of a run's bibliography: a web source or a document passage */
+export interface Citation {
+  /** `S1`, `S2`, ... for web sources; `file#n` for document passages */
+  id: string;
+  kind: 'source' | 'passage';
+  /** Page title, or the file name of a passage */
+  title: string;
+  url?: string;
+  file?: string;
+  /** Source snippet, or the passage text */
+  snippet?: string;
+  /** Approaches whose results cite it */
+  approaches: string[];
+}
+
+/** A synthesis claim citing an id that no worker produced */
+export interface CitationIssue {
+  id: string;
+  claim: string;
+}
+
+/**
+ * - `single`: one synthesizer call over every result
+ * - `map-reduce`: every result is first condensed to what the task needs, then the summaries are merged
+ * - `debate`: a draft synthesis is challenged by a critic, then revised
+ * - `judge`: every result is scored against a rubric; results under `minScore` are dropped and the rest merged, best first
+ * - `best-of-n`: `samples` syntheses are drafted and a judge picks the best one
+ */
+export type SynthesisMode = 'single' | 'map-reduce' | 'debate' | 'judge' | 'best-of-n';
+
+export interface SynthesisOptions {
+  mode: SynthesisMode;
+  /** Syntheses drafted in `best-of-n` mode (default: 3) */
+  samples?: number;
+  /** Lowest rubric score, from 1 to 10, a result needs to be used in `judge` mode (default: 5) */
+  minScore?: number;
+}
+
+/** Rubric score a judge gave one worker result */
+export interface ResultScore {
+  approach: string;
+  /** 1 to 10 */
+  score: number;
+  rationale: string;
+}
+
+/** Intermediate steps of a synthesis in one of the multi-step modes */
+export interface SynthesisTrace {
+  mode: SynthesisMode;
+  /** `map-reduce`: what each result was condensed to */
+  summaries?: Array<{ approach: string; summary: string }>;
+  /** `debate`: the first draft and the critic's objections to it */
+  draft?: string;
+  critique?: string;
+  /** `judge`: the score of each result */
+  scores?: ResultScore[];
+  /** `best-of-n`: the drafted syntheses and the index of the one picked */
+  candidates?: string[];
+  chosen?: number;
+}
+
+export interface RoundEvaluation {
+  accepted: boolean;
+  critique: string;
+  /** Approaches planned for the gaps the evaluator found; empty when it accepted */
+  strategies: SubtaskStrategy[];
+}
+
+export interface OrchestrationRound {
+  /** 1-based */
+  round: number;
+  /** Approaches run in this round: the initial plan, then the evaluator's gap approaches */
+  strategies: SubtaskStrategy[];
+  results: WorkerResult[];
+  /** Synthesis of every result gathered up to and including this round */
+  synthesis: string;
+  /** How the synthesis was reached, except in `single` mode */
+  synthesisTrace?: SynthesisTrace;
+  /** Missing for the round the run stopped after without asking the evaluator */
+  evaluation?: RoundEvaluation;
+  usage?: TokenUsage;
 }
 
+/**
+ * - `accepted`: the evaluator accepted the synthesis
+ * - `max-rounds`: `maxRounds` rounds ran (always the case for one-shot runs)
+ * - `token-budget`: the run had used its `tokenBudget`
+ * - `budget`: a later round would have gone over `budgetUsd`, so the previous round's synthesis stands
+ * - `no-new-strategies`: the evaluator asked for more work but proposed no new approaches
+ * - `error`: evaluating a round or running the next one failed, so the last completed round's synthesis stands
+ */
+export type OrchestrationStopReason = 'accepted' | 'max-rounds' | 'token-budget' | 'budget' | 'no-new-strategies' | 'error';
+
 export interface OrchestratorResult {
   task: string;
+  /** Approaches of every round, in the order they ran */
   strategies: SubtaskStrategy[];
+  /** One result per entry of `strategies` */
   results: WorkerResult[];
+  /** Synthesis of the last completed round */
   synthesis: string;
-}
\ No newline at end of file
+  /** Synthesis mode the run used */
+  synthesisMode?: SynthesisMode;
+  usage?: UsageSummary;
+  rounds?: OrchestrationRound[];
+  stopReason?: OrchestrationStopReason;
+  /** What failed when `stopReason` is `error` */
+  stopError?: string;
+  /** Sources and passages the synthesis cites, in order of first citation */
+  bibliography?: Citation[];
+  /** Claims in the synthesis that cite unknown ids */
+  citationIssues?: CitationIssue[];
+  /** Inputs shrunk to fit context windows, in the order it happened */
+  contextAdjustments?: ContextAdjustment[];
+}
+
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface UsageTotals extends TokenUsage {
+  calls: number;
+  /** USD, counting only calls to models with a known price */
+  cost: number;
+}
+
+export interface UsageSummary extends UsageTotals {
+  /** Keyed by call role, so each worker approach gets its own entry */
+  byRole: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  /** Models missing from the pricing table; their calls add tokens but no cost */
+  unpricedModels: string[];
+}
+
+export interface WorkerEventInfo {
+  /** Position in the run's `strategies`, counting approaches of earlier rounds */
+  index: number;
+  approach: string;
+  agentType: AgentType;
+}
+
+/**
+ * Payloads of the events emitted by `FlexibleOrchestrator`, keyed by event name.
+ * The `*:delta` events only fire while a run is streamed through `orchestrateStream`.
+ */
+export interface OrchestratorEvents {
+  /** Fires for the initial plan and again for the gap approaches of every later round */
+  'plan:created': { task: string; strategies: SubtaskStrategy[]; round: number };
+  'worker:start': WorkerEventInfo;
+  'worker:delta': WorkerEventInfo & { delta: string };
+  'worker:end': WorkerEventInfo & { duration: number; usage?: TokenUsage; result: WorkerResult };
+  'worker:error': WorkerEventInfo & { duration: number; usage?: TokenUsage; error: Error };
+  'synthesis:start': { task: string; results: WorkerResult[] };
+  'synthesis:delta': { delta: string };
+  'synthesis:end': { synthesis: string; duration: number; usage?: TokenUsage; trace?: SynthesisTrace };
+  'evaluation:end': { round: number; evaluation: RoundEvaluation; duration: number; usage?: TokenUsage };
+  'context:adjust': ContextAdjustment;
+  'llm:call': LLMCallLog;
+}
+
+export type OrchestratorEventName = keyof OrchestratorEvents;
+
+/**
+ * Events yielded by `orchestrateStream`: every run-scoped orchestrator event tagged with
+ * its name, followed by a final `done` event.
+ */
+export type OrchestratorStreamEvent =
+  | { [K in Exclude<OrchestratorEventName, 'llm:call'>]: { type: K } & OrchestratorEvents[K] }[Exclude<OrchestratorEventName, 'llm:call'>]
+  | { type: 'done'; result: OrchestratorResult };
\ No newline at end of file
@@ -0,0 +1,57 @@
+interface PendingRead<T> {
+  resolve: (result: IteratorResult<T>) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Unbounded push/pull queue that turns callback-style producers into an async iterable.
+ * Producers call `push`, then either `close` or `fail`; the consumer iterates with `for await`.
+ */
+export class AsyncQueue<T> implements AsyncIterable<T> {
+  private items: T[] = [];
+  private pending: PendingRead<T>[] = [];
+  private closed: boolean = false;
+  private error: unknown = null;
+
+  push(item: T): void {
+    if (this.closed) {
+      return;
+    }
+    const read = this.pending.shift();
+    if (read) {
+      read.resolve({ value: item, done: false });
+    } else {
+      this.items.push(item);
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+    this.pending.splice(0).forEach(read => read.resolve({ value: undefined, done: true }));
+  }
+
+  fail(error: unknown): void {
+    this.closed = true;
+    this.error = error;
+    this.pending.splice(0).forEach(read => read.reject(error));
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return {
+      next: () => {
+        if (this.items.length > 0) {
+          return Promise.resolve({ value: this.items.shift()!, done: false });
+        }
+        if (this.error) {
+          return Promise.reject(this.error);
+        }
+        if (this.closed) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise<IteratorResult<T>>((resolve, reject) => {
+          this.pending.push({ resolve, reject });
+        });
+      },
+    };
+  }
+}
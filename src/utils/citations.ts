@@ -0,0 +1,143 @@
+import { Citation, CitationIssue, WorkerResult, WorkerSource } from '../types/index.js';
+
+// Tracking parameters and fragments do not make a different page
+function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    [...parsed.searchParams.keys()].filter(key => key.startsWith('utm_')).forEach(key => parsed.searchParams.delete(key));
+    return parsed.toString().replace(/\/$/, '');
+  } catch {
+    return url.trim();
+  }
+}
+
+function isCitationId(token: string): boolean {
+  return /^S\d+$/.test(token) || /^[^\s[\]]+#\d+$/.test(token);
+}
+
+/**
+ * Every citation marker in `text` with the sentence it supports. A marker is a bracketed
+ * list of ids such as `[S2]` or `[S1, handbook.md#3]`; Markdown links are not markers.
+ */
+export function findCitations(text: string): Array<{ id: string; claim: string }> {
+  const found: Array<{ id: string; claim: string }> = [];
+  const sentences = text.split(/(?<=[.!?])\s+|\n+/);
+
+  sentences.forEach(sentence => {
+    for (const match of sentence.matchAll(/\[([^[\]\n]+)\](?!\()/g)) {
+      const tokens = match[1].split(/[,;]\s*/).map(token => token.trim());
+      if (tokens.every(isCitationId)) {
+        tokens.forEach(id => found.push({ id, claim: sentence.trim() }));
+      }
+    }
+  });
+
+  return found;
+}
+
+/**
+ * Puts citation markers into a search answer. Markdown links to cited sources become their
+ * markers, so `([example.com](https://example.com/a))` becomes `[S1]`; sources that carry the
+ * range of the answer they support but are not linked there get a marker after that range.
+ * Links to pages that are not among `sources` stay as they are.
+ */
+export function markCitations(text: string, sources: WorkerSource[]): string {
+  const ids = new Map(sources.filter(source => source.id).map(source => [normalizeUrl(source.url), source.id!]));
+  const replace = (link: string, url: string) => {
+    const id = ids.get(normalizeUrl(url));
+    return id ? `[${id}]` : link;
+  };
+
+  // Ranges are offsets into the original text, so insert from the end backwards
+  const markers = new Map<number, string[]>();
+  sources.forEach(source => {
+    if (!source.id || source.startIndex === undefined || source.endIndex === undefined) return;
+    if (/^\(?\[[^\]]*\]\([^)\s]+\)\)?$/.test(text.slice(source.startIndex, source.endIndex).trim())) return;
+    const end = source.startIndex + text.slice(source.startIndex, source.endIndex).trimEnd().length;
+    markers.set(end, [...(markers.get(end) || []), source.id]);
+  });
+  let marked = text;
+  [...markers.entries()].sort(([a], [b]) => b - a).forEach(([end, markerIds]) => {
+    marked = `${marked.slice(0, end)} [${markerIds.join(', ')}]${marked.slice(end)}`;
+  });
+
+  return marked
+    .replace(/\(\[[^\]]*\]\(([^)\s]+)\)\)/g, replace)
+    .replace(/\[[^\]]*\]\(([^)\s]+)\)/g, replace);
+}
+
+/**
+ * Citable material of one run: web sources get ids `S1`, `S2`, ... in the order they are
+ * first seen, and the same page keeps its id across approaches and rounds. Document
+ * passages keep the ids they were retrieved with.
+ */
+export class Bibliography {
+  private entries: Map<string, Citation> = new Map();
+  private urls: Map<string, string> = new Map();
+
+  /** The id of a web source, registering it on first sight */
+  cite(source: WorkerSource, approach?: string): string {
+    const key = normalizeUrl(source.url);
+    let id = this.urls.get(key);
+    if (!id) {
+      id = `S${this.urls.size + 1}`;
+      this.urls.set(key, id);
+      this.entries.set(id, {
+        id,
+        kind: 'source',
+        title: source.title || source.url,
+        url: source.url,
+        snippet: source.snippet,
+        approaches: [],
+      });
+    }
+    this.addApproach(id, approach);
+    return id;
+  }
+
+  private addApproach(id: string, approach?: string): void {
+    const entry = this.entries.get(id)!;
+    if (approach && !entry.approaches.includes(approach)) {
+      entry.approaches.push(approach);
+    }
+  }
+
+  /** Registers the sources and passages of a worker result; sources the worker left without an id get one */
+  add(result: WorkerResult): WorkerResult {
+    const sources = result.sources?.map(source => ({ ...source, id: source.id || this.cite(source, result.approach) }));
+    sources?.forEach(source => this.addApproach(source.id, result.approach));
+
+    result.passages?.forEach(passage => {
+      if (!this.entries.has(passage.id)) {
+        this.entries.set(passage.id, { id: passage.id, kind: 'passage', title: passage.file, file: passage.file, snippet: passage.text, approaches: [] });
+      }
+      this.addApproach(passage.id, result.approach);
+    });
+
+    return sources ? { ...result, sources } : result;
+  }
+
+  has(id: string): boolean {
+    return this.entries.has(id);
+  }
+
+  /** Citations of the given results, in registration order */
+  forResults(results: WorkerResult[]): Citation[] {
+    const approaches = new Set(results.filter(result => !result.error).map(result => result.approach));
+    return [...this.entries.values()].filter(entry => entry.approaches.some(approach => approaches.has(approach)));
+  }
+
+  /** Entries `text` cites, in order of first citation; unknown ids are left out */
+  resolve(text: string): Citation[] {
+    const ids = [...new Set(findCitations(text).map(citation => citation.id))];
+    return ids.filter(id => this.entries.has(id)).map(id => this.entries.get(id)!);
+  }
+
+  /** Claims in `text` that cite ids nothing in the run produced */
+  check(text: string): CitationIssue[] {
+    return findCitations(text)
+      .filter(citation => !this.entries.has(citation.id))
+      .map(({ id, claim }) => ({ id, claim }));
+  }
+}
@@ -0,0 +1,279 @@
+import { createRequire } from 'module';
+import type { Tiktoken } from 'js-tiktoken/lite';
+import type { CallGate, GatedCall, ReleaseCall } from '../connectors/index.js';
+import { ContextAdjustment, ContextOverflowMode, ContextWindow, ContextWindowTable } from '../types/index.js';
+
+/**
+ * Context windows and output limits in tokens, as documented by the providers.
+ */
+export const DEFAULT_CONTEXT_WINDOWS: ContextWindowTable = {
+  'gpt-5': { context: 400_000, maxOutput: 128_000 },
+  'gpt-5-mini': { context: 400_000, maxOutput: 128_000 },
+  'gpt-5-nano': { context: 400_000, maxOutput: 128_000 },
+  'gpt-4.1': { context: 1_047_576, maxOutput: 32_768 },
+  'gpt-4.1-mini': { context: 1_047_576, maxOutput: 32_768 },
+  'gpt-4.1-nano': { context: 1_047_576, maxOutput: 32_768 },
+  'gpt-4o': { context: 128_000, maxOutput: 16_384 },
+  'gpt-4o-mini': { context: 128_000, maxOutput: 16_384 },
+  'gpt-4-turbo': { context: 128_000, maxOutput: 4_096 },
+  'gpt-4': { context: 8_192, maxOutput: 8_192 },
+  'gpt-3.5-turbo': { context: 16_385, maxOutput: 4_096 },
+  'o1': { context: 200_000, maxOutput: 100_000 },
+  'o3': { context: 200_000, maxOutput: 100_000 },
+  'o3-mini': { context: 200_000, maxOutput: 100_000 },
+  'o4-mini': { context: 200_000, maxOutput: 100_000 },
+  'claude-opus-4': { context: 200_000, maxOutput: 32_000 },
+  'claude-opus-4-1': { context: 200_000, maxOutput: 32_000 },
+  'claude-opus-4-5': { context: 200_000, maxOutput: 64_000 },
+  'claude-sonnet-4': { context: 200_000, maxOutput: 64_000 },
+  'claude-sonnet-4-5': { context: 200_000, maxOutput: 64_000 },
+  'claude-sonnet-4-6': { context: 200_000, maxOutput: 64_000 },
+  'claude-haiku-4-5': { context: 200_000, maxOutput: 64_000 },
+  'claude-3-7-sonnet': { context: 200_000, maxOutput: 64_000 },
+  'claude-3-5-sonnet': { context: 200_000, maxOutput: 8_192 },
+  'claude-3-5-haiku': { context: 200_000, maxOutput: 8_192 },
+};
+
+/**
+ * Assumed for models missing from the table unless it has a `*` entry. Self-hosted models
+ * often run with small windows whatever the model supports, e.g. Ollama's default `num_ctx`.
+ */
+export const FALLBACK_CONTEXT_WINDOW: ContextWindow = { context: 8_192, maxOutput: 4_096 };
+
+export const CONTEXT_OVERFLOW_MODES: ContextOverflowMode[] = ['truncate', 'summarize'];
+
+// Kept free of prompt text for message framing and for tokenizers that count differently from ours
+const CONTEXT_HEADROOM = 0.05;
+
+/**
+ * Same lookup as `findPricing`: exact name first, then the longest key the model name
+ * starts with. Unknown models get the table's `*` entry, or else `FALLBACK_CONTEXT_WINDOW`.
+ */
+export function findContextWindow(model: string, windows: ContextWindowTable = DEFAULT_CONTEXT_WINDOWS): ContextWindow {
+  return lookupContextWindow(model, windows) || windows['*'] || FALLBACK_CONTEXT_WINDOW;
+}
+
+function lookupContextWindow(model: string, windows: ContextWindowTable): ContextWindow | undefined {
+  if (windows[model]) {
+    return windows[model];
+  }
+  const prefix = Object.keys(windows)
+    .filter(key => key !== '*' && model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? windows[prefix] : undefined;
+}
+
+// Loading the encoding takes most of a second, so it waits for the first prompt that needs counting
+let encoder: Tiktoken | null = null;
+
+function getEncoder(): Tiktoken {
+  if (!encoder) {
+    const require = createRequire(import.meta.url);
+    const { Tiktoken } = require('js-tiktoken/lite') as typeof import('js-tiktoken/lite');
+    encoder = new Tiktoken(require('js-tiktoken/ranks/o200k_base'));
+  }
+  return encoder;
+}
+
+/**
+ * Tokens in `text` under the `o200k_base` encoding: exact for current OpenAI models and a
+ * close estimate for others. A token never covers less than one byte, so text with fewer
+ * bytes than a limit is known to fit without being encoded.
+ */
+export function countTokens(text: string): number {
+  return getEncoder().encode(text).length;
+}
+
+function fitsWithin(text: string, tokens: number): boolean {
+  return Buffer.byteLength(text) <= tokens || countTokens(text) <= tokens;
+}
+
+/** The start of `text` in at most `tokens` tokens, marked as cut; empty when not even the mark fits */
+export function truncateToTokens(text: string, tokens: number): string {
+  if (fitsWithin(text, tokens)) {
+    return text;
+  }
+  const encoded = getEncoder().encode(text);
+  const marker = `\n[truncated: ${encoded.length} tokens cut to ${tokens}]`;
+  const keep = tokens - countTokens(marker);
+  if (keep <= 0) {
+    return '';
+  }
+  // A cut inside a multi-byte character decodes to a replacement character
+  return `${getEncoder().decode(encoded.slice(0, keep)).replace(/\uFFFD+$/, '')}${marker}`;
+}
+
+/**
+ * Splits `available` tokens between inputs of the given sizes: inputs smaller than an even
+ * share keep their size and the rest split what they leave. With `ranked`, inputs are
+ * served in order instead, so the last ones are cut first.
+ */
+export function shareTokens(sizes: number[], available: number, ranked: boolean = false): number[] {
+  const shares = new Array<number>(sizes.length).fill(0);
+  let remaining = Math.max(available, 0);
+
+  if (ranked) {
+    sizes.forEach((size, i) => {
+      shares[i] = Math.min(size, remaining);
+      remaining -= shares[i];
+    });
+    return shares;
+  }
+
+  const order = sizes.map((size, i) => ({ size, i })).sort((a, b) => a.size - b.size);
+  order.forEach(({ size, i }, position) => {
+    shares[i] = Math.min(size, Math.floor(remaining / (order.length - position)));
+    remaining -= shares[i];
+  });
+  return shares;
+}
+
+/** One line on a shrunk input, e.g. `result of Founder Lookup truncated from 9120 to 2950 tokens for SYNTHESIZER (llama3)` */
+export function describeAdjustment(adjustment: ContextAdjustment): string {
+  const { role, model, input, action, tokensBefore, tokensAfter } = adjustment;
+  const size = action === 'dropped' ? `(${tokensBefore} tokens)` : `from ${tokensBefore} to ${tokensAfter} tokens`;
+  return `${input} ${action} ${size} for ${role === '*' ? 'every prompt' : role} (${model})`;
+}
+
+/** A piece of a prompt that may be shrunk, e.g. one worker result */
+export interface BudgetedInput {
+  /** Named in adjustments, e.g. `result of Founder Lookup` */
+  input: string;
+  text: string;
+}
+
+export interface FitRequest {
+  /** Role of the call the prompt is for */
+  role: string;
+  model: string;
+  maxTokens: number;
+  /** Tokens the prompt may take when that is less than the model can take */
+  limit?: number;
+  inputs: BudgetedInput[];
+  /** The prompt with the given input texts, in the order of `inputs` */
+  build: (texts: string[]) => string;
+  /** Fill inputs in order and cut the last ones first, for inputs ranked by relevance */
+  ranked?: boolean;
+  /** Condenses the input at `index` to about `tokens` tokens before anything is truncated */
+  summarize?: (input: BudgetedInput, tokens: number, index: number) => Promise<string>;
+}
+
+export interface FittedPrompt {
+  prompt: string;
+  /** Input texts as they went into the prompt; empty for dropped inputs */
+  texts: string[];
+}
+
+/**
+ * Context windows of the models a run uses. As a `CallGate` it refuses any prompt that does
+ * not leave room for the call's output; `fit` shrinks the inputs of a prompt until it does,
+ * reporting each shrunk input to `onAdjust`.
+ */
+export class ContextBudget implements CallGate {
+  private windows: ContextWindowTable;
+  private onAdjust?: (adjustment: ContextAdjustment) => void;
+  private guessed: Set<string> = new Set();
+
+  constructor(windows: ContextWindowTable = DEFAULT_CONTEXT_WINDOWS, onAdjust?: (adjustment: ContextAdjustment) => void) {
+    this.windows = windows;
+    this.onAdjust = onAdjust;
+  }
+
+  /** Warns once per model that falls back to `FALLBACK_CONTEXT_WINDOW`, since its real window may be far larger */
+  windowFor(model: string): ContextWindow {
+    const window = findContextWindow(model, this.windows);
+    if (window === FALLBACK_CONTEXT_WINDOW && !this.guessed.has(model)) {
+      this.guessed.add(model);
+      console.warn(`No context window is known for ${model || 'the default model'}; assuming ${window.context} tokens. Set its size in contextWindows (--context-window ${model || '<model>'}=<tokens>), or one for every unknown model under "*".`);
+    }
+    return window;
+  }
+
+  /** `requested` output tokens, capped at what the model can produce and at half its window */
+  outputTokens(model: string, requested: number): number {
+    const window = this.windowFor(model);
+    return Math.min(requested, window.maxOutput, Math.floor(window.context / 2));
+  }
+
+  /** Prompt tokens a call to `model` asking for `maxTokens` of output can send */
+  inputTokens(model: string, maxTokens: number): number {
+    const window = this.windowFor(model);
+    return Math.floor(window.context * (1 - CONTEXT_HEADROOM)) - this.outputTokens(model, maxTokens);
+  }
+
+  acquire(call: GatedCall): ReleaseCall {
+    const limit = this.inputTokens(call.model, call.maxTokens);
+    if (!fitsWithin(call.prompt, limit)) {
+      throw new Error(
+        `${call.role || 'LLM'} prompt is ${countTokens(call.prompt)} tokens, over the ${limit} tokens ${call.model || 'the model'} can take with ${this.outputTokens(call.model, call.maxTokens)} tokens of output`
+      );
+    }
+    return () => {};
+  }
+
+  private adjust(adjustment: ContextAdjustment): void {
+    this.onAdjust?.(adjustment);
+  }
+
+  /**
+   * The prompt `build` makes from the inputs, with inputs summarized (when `summarize` is
+   * given), truncated or dropped until it fits the model's window. Throws when the prompt
+   * does not fit even with every input left out.
+   */
+  async fit(request: FitRequest): Promise<FittedPrompt> {
+    const { role, model, maxTokens, inputs, build } = request;
+    const limit = Math.min(request.limit ?? Infinity, this.inputTokens(model, maxTokens));
+    let texts = inputs.map(input => input.text);
+    const full = build(texts);
+    if (fitsWithin(full, limit)) {
+      return { prompt: full, texts };
+    }
+
+    const overhead = countTokens(build(inputs.map(() => '')));
+    if (overhead >= limit) {
+      throw new Error(`${role} prompt is ${overhead} tokens without its inputs, over the ${limit} tokens ${model} can take`);
+    }
+    let sizes = texts.map(countTokens);
+
+    if (request.summarize) {
+      const shares = shareTokens(sizes, limit - overhead, request.ranked);
+      texts = await Promise.all(inputs.map(async (input, i) => {
+        if (sizes[i] <= shares[i] || shares[i] === 0) return texts[i];
+        const summary = await request.summarize!(input, shares[i], i);
+        this.adjust({ role, model, input: input.input, action: 'summarized', tokensBefore: sizes[i], tokensAfter: countTokens(summary) });
+        return summary;
+      }));
+      sizes = texts.map(countTokens);
+    }
+
+    // Token counts of the parts do not quite add up to the count of the whole, so the
+    // room for inputs shrinks by any overshoot until the prompt fits
+    const shrunk = [...texts];
+    let available = limit - overhead;
+    let prompt = build(shrunk);
+    for (let attempt = 0; attempt < 5 && !fitsWithin(prompt, limit); attempt++) {
+      const shares = shareTokens(sizes, available, request.ranked);
+      texts.forEach((text, i) => {
+        shrunk[i] = sizes[i] > shares[i] ? truncateToTokens(text, shares[i]) : text;
+      });
+      prompt = build(shrunk);
+      available -= Math.max(countTokens(prompt) - limit, 1);
+    }
+    if (!fitsWithin(prompt, limit)) {
+      throw new Error(`Could not fit the ${role} prompt into the ${limit} tokens ${model} can take`);
+    }
+
+    shrunk.forEach((text, i) => {
+      if (text === texts[i]) return;
+      this.adjust({
+        role,
+        model,
+        input: inputs[i].input,
+        action: text ? 'truncated' : 'dropped',
+        tokensBefore: sizes[i],
+        tokensAfter: text ? countTokens(text) : 0,
+      });
+    });
+    return { prompt, texts: shrunk };
+  }
+}
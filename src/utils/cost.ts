@@ -0,0 +1,149 @@
+import { LLMCallLog, CallGate, GatedCall, ReleaseCall } from '../connectors/index.js';
+import { ModelPricing, PricingTable, UsageSummary, UsageTotals } from '../types/index.js';
+
+/**
+ * List prices in USD per million tokens. Hosted tool fees (e.g. per web search) are not included.
+ */
+export const DEFAULT_PRICING: PricingTable = {
+  'gpt-4.1': { input: 2.0, output: 8.0 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10.0 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  'claude-opus-4-1': { input: 15.0, output: 75.0 },
+  'claude-sonnet-4-5': { input: 3.0, output: 15.0 },
+  'claude-sonnet-4-6': { input: 3.0, output: 15.0 },
+  'claude-haiku-4-5': { input: 1.0, output: 5.0 },
+};
+
+// Rough prompt size when no tokenizer is at hand; good enough for budget and rate estimates
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Exact match first, then the longest key the model name starts with, so
+ * `gpt-4.1-mini-2025-04-14` resolves to `gpt-4.1-mini` rather than `gpt-4.1`.
+ */
+export function findPricing(model: string, pricing: PricingTable = DEFAULT_PRICING): ModelPricing | undefined {
+  if (pricing[model]) {
+    return pricing[model];
+  }
+  const prefix = Object.keys(pricing)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? pricing[prefix] : undefined;
+}
+
+export function estimateCost(
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+  pricing: PricingTable = DEFAULT_PRICING
+): number | undefined {
+  const price = findPricing(model, pricing);
+  if (!price) {
+    return undefined;
+  }
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+function emptyTotals(): UsageTotals {
+  return { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, calls: 0, cost: 0 };
+}
+
+function addCall(totals: UsageTotals, log: LLMCallLog, cost: number): void {
+  totals.prompt_tokens += log.usage?.prompt_tokens || 0;
+  totals.completion_tokens += log.usage?.completion_tokens || 0;
+  totals.total_tokens += log.usage?.total_tokens || 0;
+  totals.calls += 1;
+  totals.cost += cost;
+}
+
+/**
+ * Aggregates call logs into run totals plus per-role and per-model breakdowns.
+ */
+export function summarizeUsage(logs: LLMCallLog[], pricing: PricingTable = DEFAULT_PRICING): UsageSummary {
+  const summary: UsageSummary = { ...emptyTotals(), byRole: {}, byModel: {}, unpricedModels: [] };
+
+  logs.forEach(log => {
+    const role = log.role || 'LLM';
+    const cost = estimateCost(log.model, log.usage?.prompt_tokens || 0, log.usage?.completion_tokens || 0, pricing);
+    if (cost === undefined && !summary.unpricedModels.includes(log.model)) {
+      summary.unpricedModels.push(log.model);
+    }
+
+    addCall(summary, log, cost || 0);
+    addCall((summary.byRole[role] ??= emptyTotals()), log, cost || 0);
+    addCall((summary.byModel[log.model] ??= emptyTotals()), log, cost || 0);
+  });
+
+  return summary;
+}
+
+export function formatCost(usd: number): string {
+  return `$${usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+}
+
+/**
+ * Per-run spending limit. Before each call the connector asks for the worst case
+ * (the whole prompt plus `maxTokens` of output) and the call is refused if that,
+ * added to what completed and in-flight calls cost, would go over the limit.
+ * Once a call has been refused the guard stays tripped so the run can abort.
+ */
+export class BudgetGuard implements CallGate {
+  private limitUsd: number;
+  private pricing: PricingTable;
+  private logs: LLMCallLog[];
+  private reserved: number = 0;
+  private refusal: Error | null = null;
+
+  /**
+   * `logs` is the live call log of the run being guarded; spend is computed from it.
+   */
+  constructor(limitUsd: number, logs: LLMCallLog[], pricing: PricingTable = DEFAULT_PRICING) {
+    this.limitUsd = limitUsd;
+    this.logs = logs;
+    this.pricing = pricing;
+  }
+
+  spent(): number {
+    return summarizeUsage(this.logs, this.pricing).cost;
+  }
+
+  get exceeded(): Error | null {
+    return this.refusal;
+  }
+
+  /**
+   * Reserves the worst-case cost of a call, or throws if it does not fit in the budget.
+   * The reservation is released once the call has been recorded in the run's logs.
+   */
+  acquire({ prompt, model, maxTokens, role }: GatedCall): ReleaseCall {
+    if (this.refusal) {
+      throw this.refusal;
+    }
+
+    const estimate = estimateCost(model, estimateTokens(prompt), maxTokens, this.pricing) || 0;
+    const committed = this.spent() + this.reserved;
+    if (committed + estimate > this.limitUsd) {
+      this.refusal = new Error(
+        `Budget of ${formatCost(this.limitUsd)} exceeded: ${role || 'LLM'} call to ${model} could cost up to ` +
+        `${formatCost(estimate)} with ${formatCost(committed)} already committed`
+      );
+      throw this.refusal;
+    }
+
+    this.reserved += estimate;
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        this.reserved -= estimate;
+      }
+    };
+  }
+}
@@ -0,0 +1,221 @@
+import fs from 'fs';
+import path from 'path';
+import { DocumentPassage } from '../types/index.js';
+
+export interface ChunkOptions {
+  /** Target characters per chunk (default: 1200) */
+  chunkSize?: number;
+  /** Characters repeated between consecutive pieces of a paragraph too long for one chunk (default: 200) */
+  overlap?: number;
+}
+
+export interface DocumentIndexOptions extends ChunkOptions {
+  /** Extractors by extension, e.g. `{ '.docx': readDocx }`, merged over `DOCUMENT_HANDLERS` */
+  handlers?: Record<string, TextExtractor>;
+}
+
+export interface RetrievedPassage extends DocumentPassage {
+  /** BM25 relevance to the query */
+  score: number;
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'how', 'in', 'is', 'it', 'its',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'what', 'when', 'which', 'who', 'why', 'will', 'with',
+]);
+
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.startsWith('#x') || code.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(code.slice(2), 16));
+    }
+    if (code.startsWith('#')) {
+      return String.fromCodePoint(parseInt(code.slice(1), 10));
+    }
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
+
+/** Readable text of an HTML page: scripts, styles and tags removed, block elements kept as paragraphs */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(script|style|noscript|template)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<\/?(p|div|section|article|header|footer|h[1-6]|li|tr|br|hr|pre|blockquote|table)\b[^>]*>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '');
+  return decodeEntities(text)
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/** Reads the text of one kind of document for local indexing */
+export type TextExtractor = (filePath: string) => Promise<string>;
+
+async function readTextFile(filePath: string): Promise<string> {
+  const content = await fs.promises.readFile(filePath);
+  if (content.subarray(0, 8000).includes(0)) {
+    throw new Error(`Unsupported binary file: ${path.basename(filePath)}`);
+  }
+  return content.toString('utf-8');
+}
+
+const TEXT_EXTENSIONS = [
+  '.md', '.markdown', '.txt', '.text', '.rst', '.adoc', '.csv', '.tsv', '.json', '.jsonl', '.yaml', '.yml', '.toml', '.ini',
+  '.xml', '.log', '.sql', '.js', '.mjs', '.cjs', '.ts', '.tsx', '.jsx', '.py', '.rb', '.go', '.rs', '.java', '.kt',
+  '.scala', '.swift', '.c', '.h', '.cpp', '.hpp', '.cs', '.php', '.sh', '.css', '.scss',
+];
+
+/**
+ * Text extractors by file extension. HTML is reduced to its readable text and the other
+ * text formats are read as is; there is no local extractor for PDFs.
+ */
+export const DOCUMENT_HANDLERS: Record<string, TextExtractor> = {
+  ...Object.fromEntries(TEXT_EXTENSIONS.map(extension => [extension, readTextFile])),
+  '.html': async filePath => htmlToText(await readTextFile(filePath)),
+  '.htm': async filePath => htmlToText(await readTextFile(filePath)),
+};
+
+/** Text content of a document through the handler for its extension */
+export async function extractText(filePath: string, handlers: Record<string, TextExtractor> = DOCUMENT_HANDLERS): Promise<string> {
+  const extension = path.extname(filePath).toLowerCase();
+  const handler = handlers[extension];
+  if (!handler) {
+    throw new Error(`No local handler for ${extension || 'files without an extension'}${extension === '.pdf' ? '; use the upload librarian mode for PDFs' : ''}`);
+  }
+  return handler(filePath);
+}
+
+/**
+ * Splits text into chunks of about `chunkSize` characters along paragraph boundaries.
+ * Paragraphs longer than a chunk are cut into overlapping windows.
+ */
+export function chunkText(text: string, options: ChunkOptions = {}): string[] {
+  const chunkSize = options.chunkSize ?? 1200;
+  const overlap = Math.min(options.overlap ?? 200, Math.floor(chunkSize / 2));
+  const chunks: string[] = [];
+  let current = '';
+
+  const flush = () => {
+    if (current.trim()) {
+      chunks.push(current.trim());
+    }
+    current = '';
+  };
+
+  for (const paragraph of text.split(/\n\s*\n/).map(part => part.trim()).filter(Boolean)) {
+    if (paragraph.length > chunkSize) {
+      flush();
+      for (let start = 0; start < paragraph.length; start += chunkSize - overlap) {
+        chunks.push(paragraph.slice(start, start + chunkSize).trim());
+        if (start + chunkSize >= paragraph.length) {
+          break;
+        }
+      }
+      continue;
+    }
+    if (current && current.length + paragraph.length + 2 > chunkSize) {
+      flush();
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  flush();
+
+  return chunks;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+/**
+ * In-memory BM25 index over document chunks, so documents never leave the machine.
+ * Chunks get stable ids of the form `notes.md#3` that workers cite them by; files with
+ * the same name in different directories are told apart by their relative path.
+ */
+export class DocumentIndex {
+  private passages: DocumentPassage[] = [];
+  private termCounts: Map<string, number>[] = [];
+  private lengths: number[] = [];
+  private documentFrequency: Map<string, number> = new Map();
+  private labels: Map<string, string> = new Map();
+  private options: ChunkOptions;
+  private handlers: Record<string, TextExtractor>;
+
+  constructor(options: DocumentIndexOptions = {}) {
+    const { handlers, ...chunking } = options;
+    this.options = chunking;
+    this.handlers = { ...DOCUMENT_HANDLERS, ...handlers };
+  }
+
+  private labelFor(filePath: string): string {
+    const resolved = path.resolve(filePath);
+    if (!this.labels.has(resolved)) {
+      const name = path.basename(filePath);
+      const taken = [...this.labels.values()].includes(name);
+      this.labels.set(resolved, taken ? path.relative(process.cwd(), resolved) : name);
+    }
+    return this.labels.get(resolved)!;
+  }
+
+  /** Chunks and indexes the text of one file; returns its passages */
+  add(filePath: string, text: string): DocumentPassage[] {
+    const file = this.labelFor(filePath);
+    const added = chunkText(text, this.options).map((chunk, i) => ({ id: `${file}#${i + 1}`, file, text: chunk }));
+
+    added.forEach(passage => {
+      const counts = new Map<string, number>();
+      const tokens = tokenize(passage.text);
+      tokens.forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+      counts.forEach((_, token) => this.documentFrequency.set(token, (this.documentFrequency.get(token) || 0) + 1));
+      this.passages.push(passage);
+      this.termCounts.push(counts);
+      this.lengths.push(tokens.length);
+    });
+
+    return added;
+  }
+
+  async addFile(filePath: string): Promise<DocumentPassage[]> {
+    return this.add(filePath, await extractText(filePath, this.handlers));
+  }
+
+  get size(): number {
+    return this.passages.length;
+  }
+
+  files(): string[] {
+    return [...new Set(this.passages.map(passage => passage.file))];
+  }
+
+  /** The `limit` passages most relevant to `query`, best first; passages sharing no term with it are left out */
+  search(query: string, limit: number = 5): RetrievedPassage[] {
+    const terms = [...new Set(tokenize(query))];
+    const averageLength = this.lengths.reduce((sum, length) => sum + length, 0) / (this.lengths.length || 1);
+    const k1 = 1.2;
+    const b = 0.75;
+
+    return this.passages
+      .map((passage, i) => {
+        const score = terms.reduce((total, term) => {
+          const frequency = this.termCounts[i].get(term) || 0;
+          if (frequency === 0) {
+            return total;
+          }
+          const documents = this.documentFrequency.get(term) || 0;
+          const idf = Math.log(1 + (this.passages.length - documents + 0.5) / (documents + 0.5));
+          return total + idf * (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * this.lengths[i] / averageLength));
+        }, 0);
+        return { ...passage, score };
+      })
+      .filter(passage => passage.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
@@ -0,0 +1,178 @@
+import fs from 'fs';
+import path from 'path';
+
+export interface DocumentSelectionOptions {
+  /** Globs a file must match one of; patterns without a `/` match the file name */
+  include?: string[];
+  /** Globs that rule a file out, matched like `include` */
+  exclude?: string[];
+  /** Largest file accepted, in bytes (default: 20 MB) */
+  maxFileSize?: number;
+  /** Extensions the librarian can read, e.g. `['.pdf']`; other files are skipped (default: any) */
+  extensions?: string[];
+}
+
+export interface SelectedDocument {
+  path: string;
+  size: number;
+}
+
+export interface SkippedDocument {
+  path: string;
+  reason: string;
+}
+
+export interface DocumentSelection {
+  files: SelectedDocument[];
+  skipped: SkippedDocument[];
+}
+
+export const DEFAULT_MAX_FILE_SIZE = 20 * 1024 * 1024;
+
+const GLOB_CHARACTERS = /[*?[\]{}]/;
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
+
+/**
+ * Regular expression for a glob: `*` and `?` stay within a path segment, `**` spans any
+ * number of them, and `{a,b}` and `[abc]` work as in a shell.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let regex = '';
+  let braces = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        const segment = pattern[i + 2] === '/';
+        regex += segment ? '(?:.*/)?' : '.*';
+        i += segment ? 2 : 1;
+      } else {
+        regex += '[^/]*';
+      }
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '{') {
+      braces++;
+      regex += '(?:';
+    } else if (char === '}' && braces > 0) {
+      braces--;
+      regex += ')';
+    } else if (char === ',' && braces > 0) {
+      regex += '|';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        regex += '\\[';
+      } else {
+        regex += `[${pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else {
+      regex += char.replace(/[.+^$()|\\\]]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${regex}$`);
+}
+
+function matches(filePath: string, pattern: string): boolean {
+  const subject = pattern.includes('/') ? toPosix(filePath) : path.basename(filePath);
+  return globToRegExp(pattern.replace(/^\.\//, '')).test(subject);
+}
+
+// Every file under a directory, sorted; hidden entries are not visited
+function walk(directory: string): string[] {
+  return fs.readdirSync(directory, { withFileTypes: true })
+    .filter(entry => !entry.name.startsWith('.'))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap(entry => {
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        return walk(entryPath);
+      }
+      // Symlinked files are followed, symlinked directories are not, so links cannot loop
+      return entry.isFile() || (entry.isSymbolicLink() && fs.statSync(entryPath, { throwIfNoEntry: false })?.isFile())
+        ? [entryPath]
+        : [];
+    });
+}
+
+// Files matching a glob, walked from the longest directory prefix without glob characters
+function expandGlob(pattern: string): string[] {
+  const normalized = path.posix.normalize(toPosix(pattern));
+  const segments = normalized.split('/');
+  const firstGlob = segments.findIndex(segment => GLOB_CHARACTERS.test(segment));
+  const base = segments.slice(0, firstGlob).join('/') || (normalized.startsWith('/') ? '/' : '.');
+  if (!fs.existsSync(base) || !fs.statSync(base).isDirectory()) {
+    return [];
+  }
+
+  const regex = globToRegExp(normalized);
+  return walk(base).filter(file => regex.test(toPosix(file)));
+}
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+/**
+ * Expands document inputs (files, directories and globs) into the files the librarian
+ * will use, and says why every other file found was left out. Nothing is read beyond
+ * directory listings and file sizes, so this can run before any upload or indexing.
+ */
+export function resolveDocuments(inputs: string[], options: DocumentSelectionOptions = {}): DocumentSelection {
+  const maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+  const extensions = options.extensions?.map(extension => extension.toLowerCase());
+  const files: SelectedDocument[] = [];
+  const skipped: SkippedDocument[] = [];
+  const seen = new Set<string>();
+
+  const consider = (filePath: string) => {
+    const resolved = path.resolve(filePath);
+    if (seen.has(resolved)) {
+      return;
+    }
+    seen.add(resolved);
+
+    const extension = path.extname(filePath).toLowerCase();
+    const excludedBy = options.exclude?.find(pattern => matches(filePath, pattern));
+    const size = fs.statSync(filePath).size;
+
+    if (excludedBy) {
+      skipped.push({ path: filePath, reason: `excluded by ${excludedBy}` });
+    } else if (options.include?.length && !options.include.some(pattern => matches(filePath, pattern))) {
+      skipped.push({ path: filePath, reason: 'not matched by any include pattern' });
+    } else if (extensions && !extensions.includes(extension)) {
+      skipped.push({ path: filePath, reason: `no handler for ${extension || 'files without an extension'}${extension ? ' files' : ''}` });
+    } else if (size > maxFileSize) {
+      skipped.push({ path: filePath, reason: `${formatSize(size)} is over the ${formatSize(maxFileSize)} limit` });
+    } else if (size === 0) {
+      skipped.push({ path: filePath, reason: 'empty file' });
+    } else {
+      files.push({ path: filePath, size });
+    }
+  };
+
+  for (const input of inputs) {
+    const stats = fs.statSync(input, { throwIfNoEntry: false });
+    if (stats?.isDirectory()) {
+      walk(input).forEach(consider);
+    } else if (stats?.isFile()) {
+      consider(input);
+    } else if (GLOB_CHARACTERS.test(input)) {
+      const found = expandGlob(input);
+      if (found.length === 0) {
+        skipped.push({ path: input, reason: 'no files match this pattern' });
+      }
+      found.forEach(consider);
+    } else {
+      skipped.push({ path: input, reason: 'not found' });
+    }
+  }
+
+  return { files, skipped };
+}
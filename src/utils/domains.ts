@@ -0,0 +1,15 @@
+/**
+ * Whether `url` is on one of `domains` or a subdomain of one, so `wikipedia.org` covers
+ * `en.wikipedia.org`. Domains may be written with a scheme or path; both are ignored.
+ */
+export function inDomains(url: string, domains: string[]): boolean {
+  try {
+    const host = new URL(url).hostname.toLowerCase();
+    return domains.some(domain => {
+      const name = domain.toLowerCase().replace(/^https?:\/\//, '').replace(/\/.*$/, '');
+      return host === name || host.endsWith(`.${name}`);
+    });
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,73 @@
+import { AgentType, BuiltinAgentType, SubtaskStrategy } from '../types/index.js';
+import { sortTaskGraph } from './task-graph.js';
+
+/** Names of the built-in workers */
+export const AGENT_TYPES: BuiltinAgentType[] = ['simple', 'search', 'librarian', 'code'];
+
+export interface PlanConstraints {
+  minStrategies: number;
+  maxStrategies: number;
+  allowedAgents: AgentType[];
+  agentQuotas: Partial<Record<AgentType, number>>;
+}
+
+/**
+ * Throws if the constraints contradict each other, so a misconfiguration fails before
+ * the planner is ever called.
+ */
+export function validatePlanConstraints({ minStrategies, maxStrategies, allowedAgents, agentQuotas }: PlanConstraints): void {
+  if (minStrategies < 1 || minStrategies > maxStrategies) {
+    throw new Error(`Invalid strategy range: minStrategies ${minStrategies}, maxStrategies ${maxStrategies}`);
+  }
+  if (allowedAgents.length === 0) {
+    throw new Error('At least one agent type must be allowed');
+  }
+
+  let required = 0;
+  Object.entries(agentQuotas).forEach(([agent, count]) => {
+    if (count && !allowedAgents.includes(agent as AgentType)) {
+      throw new Error(`Agent quota for ${agent} conflicts with the allowed agents (${allowedAgents.join(', ')})`);
+    }
+    required += count || 0;
+  });
+  if (required > maxStrategies) {
+    throw new Error(`Agent quotas need ${required} approaches but maxStrategies is ${maxStrategies}`);
+  }
+}
+
+/**
+ * Everything wrong with a plan, as sentences the planner can act on; empty when the plan is fine.
+ * Dependency problems are reported too, since a re-prompt can fix those as well.
+ */
+export function checkPlan(strategies: SubtaskStrategy[], constraints: PlanConstraints): string[] {
+  const problems: string[] = [];
+  const { minStrategies, maxStrategies, allowedAgents, agentQuotas } = constraints;
+
+  if (strategies.length < minStrategies) {
+    problems.push(`The plan has ${strategies.length} approaches but needs at least ${minStrategies}.`);
+  }
+  if (strategies.length > maxStrategies) {
+    problems.push(`The plan has ${strategies.length} approaches but may have at most ${maxStrategies}.`);
+  }
+
+  strategies
+    .filter(strategy => !allowedAgents.includes(strategy.agentType))
+    .forEach(strategy => {
+      problems.push(`"${strategy.approach}" uses the ${strategy.agentType} agent, which is not allowed; use ${allowedAgents.join(' or ')}.`);
+    });
+
+  Object.entries(agentQuotas).forEach(([agent, count]) => {
+    const found = strategies.filter(strategy => strategy.agentType === agent).length;
+    if (count && found < count) {
+      problems.push(`The plan needs at least ${count} ${agent} approach${count === 1 ? '' : 'es'} but has ${found}.`);
+    }
+  });
+
+  try {
+    sortTaskGraph(strategies);
+  } catch (error) {
+    problems.push(`${error instanceof Error ? error.message : error}.`);
+  }
+
+  return problems;
+}
@@ -0,0 +1,108 @@
+import { JsonSchemaFormat } from '../connectors/index.js';
+import { AgentType, SubtaskStrategy } from '../types/index.js';
+import { AGENT_TYPES } from './plan-constraints.js';
+import { StrategyParseResult } from './xml-parser.js';
+
+/**
+ * Output schema for a plan requested as JSON. Every field is required so providers that
+ * enforce schemas strictly accept it; `depends_on` is empty for independent approaches.
+ */
+export function planSchema(agents: AgentType[] = AGENT_TYPES): JsonSchemaFormat {
+  return {
+    name: 'subtask_plan',
+    schema: {
+      type: 'object',
+      properties: {
+        approaches: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', description: 'Brief name for the approach' },
+              id: { type: 'string', description: 'Short unique id other approaches can depend on' },
+              agent: { type: 'string', enum: agents },
+              depends_on: { type: 'array', items: { type: 'string' }, description: 'Ids of approaches whose results this one needs' },
+              description: { type: 'string', description: 'What this approach should accomplish' },
+            },
+            required: ['name', 'id', 'agent', 'depends_on', 'description'],
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ['approaches'],
+      additionalProperties: false,
+    },
+  };
+}
+
+// Models without enforced schemas sometimes wrap the JSON in a code fence
+function stripCodeFence(text: string): string {
+  const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return fenced ? fenced[1] : text.trim();
+}
+
+/**
+ * Reads a plan that follows `planSchema`, validating each approach as a unit against the
+ * worker names in `agents`. Approaches with a problem are left out and the problem is
+ * reported in `errors`, so the planner can be asked to fix exactly those.
+ */
+export function parseStrategyJson(text: string, agents: AgentType[] = AGENT_TYPES): StrategyParseResult {
+  let plan: unknown;
+  try {
+    plan = JSON.parse(stripCodeFence(text));
+  } catch (error) {
+    return { strategies: [], errors: [`The plan is not valid JSON: ${error instanceof Error ? error.message : error}.`] };
+  }
+
+  const approaches = (plan as { approaches?: unknown })?.approaches;
+  if (!Array.isArray(approaches)) {
+    return { strategies: [], errors: ['The plan must be an object with an "approaches" array.'] };
+  }
+
+  const strategies: SubtaskStrategy[] = [];
+  const errors: string[] = [];
+  approaches.forEach((item: Record<string, unknown>, i) => {
+    const where = `approaches[${i}]`;
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      errors.push(`${where} must be an object.`);
+      return;
+    }
+
+    const problems: string[] = [];
+    (['name', 'description'] as const).forEach(field => {
+      if (typeof item[field] !== 'string' || !(item[field] as string).trim()) {
+        problems.push(`${where}.${field} must be a non-empty string.`);
+      }
+    });
+    if (!agents.includes(item.agent as AgentType)) {
+      problems.push(`${where}.agent must be one of ${agents.join(', ')}, got ${JSON.stringify(item.agent)}.`);
+    }
+    if (item.id !== undefined && typeof item.id !== 'string') {
+      problems.push(`${where}.id must be a string.`);
+    }
+    if (item.depends_on !== undefined && (!Array.isArray(item.depends_on) || item.depends_on.some(id => typeof id !== 'string'))) {
+      problems.push(`${where}.depends_on must be an array of ids.`);
+    }
+    if (problems.length > 0) {
+      errors.push(...problems);
+      return;
+    }
+
+    const strategy: SubtaskStrategy = {
+      approach: (item.name as string).trim(),
+      description: (item.description as string).trim(),
+      agentType: item.agent as AgentType,
+    };
+    const id = (item.id as string | undefined)?.trim();
+    const dependsOn = ((item.depends_on as string[] | undefined) || []).map(dep => dep.trim()).filter(Boolean);
+    if (id) {
+      strategy.id = id;
+    }
+    if (dependsOn.length > 0) {
+      strategy.dependsOn = dependsOn;
+    }
+    strategies.push(strategy);
+  });
+
+  return { strategies, errors };
+}
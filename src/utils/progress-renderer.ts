@@ -0,0 +1,97 @@
+import chalk from 'chalk';
+import { SubtaskStrategy, WorkerResult } from '../types/index.js';
+
+interface WorkerLine {
+  strategy: SubtaskStrategy;
+  startedAt: number;
+  chars: number;
+  result?: WorkerResult;
+  error?: Error;
+}
+
+/**
+ * Renders one progress line per worker. On a TTY the lines are redrawn in place as
+ * deltas arrive; otherwise a line is printed only when each worker finishes.
+ */
+export class WorkerProgressRenderer {
+  private lines: WorkerLine[] = [];
+  // Run-wide index of the first line; later rounds continue the numbering
+  private firstIndex: number = 0;
+  private out: NodeJS.WriteStream;
+  private live: boolean;
+
+  constructor(out: NodeJS.WriteStream = process.stdout, live: boolean = Boolean(process.stdout.isTTY)) {
+    this.out = out;
+    this.live = live;
+  }
+
+  start(strategies: SubtaskStrategy[], firstIndex: number = 0): void {
+    const now = Date.now();
+    this.firstIndex = firstIndex;
+    this.lines = strategies.map(strategy => ({ strategy, startedAt: now, chars: 0 }));
+
+    if (this.live) {
+      this.lines.forEach((_, index) => this.out.write(this.format(index) + '\n'));
+    }
+  }
+
+  update(index: number, delta: string): void {
+    index -= this.firstIndex;
+    const line = this.lines[index];
+    if (!line) return;
+    line.chars += delta.length;
+    this.redraw(index);
+  }
+
+  finish(index: number, result: WorkerResult): void {
+    index -= this.firstIndex;
+    const line = this.lines[index];
+    if (!line) return;
+    line.result = result;
+    line.chars = Math.max(line.chars, result.result.length);
+
+    if (this.live) {
+      this.redraw(index);
+    } else {
+      this.out.write(this.format(index) + '\n');
+    }
+  }
+
+  fail(index: number, error: Error): void {
+    index -= this.firstIndex;
+    const line = this.lines[index];
+    if (!line) return;
+    line.error = error;
+
+    if (this.live) {
+      this.redraw(index);
+    } else {
+      this.out.write(this.format(index) + '\n');
+    }
+  }
+
+  private redraw(index: number): void {
+    if (!this.live) return;
+    // Cursor sits below the last line; jump up to the worker's line, rewrite it, come back down
+    const offset = this.lines.length - index;
+    this.out.write(`\x1b[${offset}A\r\x1b[2K${this.format(index)}\x1b[${offset}B\r`);
+  }
+
+  private format(index: number): string {
+    const line = this.lines[index];
+    const label = `${this.firstIndex + index + 1}. ${line.strategy.approach} [${line.strategy.agentType}]`;
+
+    if (line.error) {
+      return chalk.red(`  ❌ ${label}`) + chalk.gray(` failed: ${line.error.message}`);
+    }
+
+    if (line.result) {
+      const seconds = ((line.result.duration ?? Date.now() - line.startedAt) / 1000).toFixed(1);
+      return chalk.green(`  ✅ ${label}`) + chalk.gray(` done in ${seconds}s (${line.chars} chars)`);
+    }
+
+    const elapsed = ((Date.now() - line.startedAt) / 1000).toFixed(1);
+    const progress = line.chars > 0 ? `${line.chars} chars` : 'waiting';
+    return chalk.yellow(`  ⏳ ${label}`) + chalk.gray(` ${progress} · ${elapsed}s`);
+  }
+}
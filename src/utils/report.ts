@@ -0,0 +1,203 @@
+import type { FlexibleOrchestrator } from '../orchestrator.js';
+import { LLMCallLog } from '../connectors/index.js';
+import { OrchestratorResult, OrchestratorStreamEvent, UsageSummary } from '../types/index.js';
+import { formatCost, summarizeUsage } from './cost.js';
+import { describeSynthesis } from './synthesis.js';
+import { describeAdjustment } from './context-budget.js';
+
+export type OutputFormat = 'text' | 'json' | 'jsonl' | 'markdown';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'jsonl', 'markdown'];
+
+export interface RunTimings {
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  planningMs?: number;
+  /** Summed over rounds */
+  synthesisMs?: number;
+  workers: Array<{ index: number; approach: string; durationMs: number; failed?: boolean }>;
+}
+
+export interface RunReport extends OrchestratorResult {
+  usage: UsageSummary;
+  timings: RunTimings;
+  callLogs: LLMCallLog[];
+}
+
+/**
+ * Collects timings and call logs from an orchestrator's events so a finished run can be
+ * turned into a `RunReport`. Attach it before calling `orchestrate`.
+ */
+export class RunReportRecorder {
+  private startedAt: Date = new Date();
+  private planningMs?: number;
+  private synthesisMs?: number;
+  private workers: RunTimings['workers'] = [];
+  private callLogs: LLMCallLog[] = [];
+
+  constructor(orchestrator: FlexibleOrchestrator) {
+    orchestrator
+      .on('plan:created', () => {
+        // Later rounds are planned by the evaluator; planning time is the initial plan's
+        this.planningMs ??= Date.now() - this.startedAt.getTime();
+      })
+      .on('worker:end', event => {
+        this.workers.push({ index: event.index, approach: event.approach, durationMs: event.duration });
+      })
+      .on('worker:error', event => {
+        this.workers.push({ index: event.index, approach: event.approach, durationMs: event.duration, failed: true });
+      })
+      .on('synthesis:end', event => {
+        this.synthesisMs = (this.synthesisMs || 0) + event.duration;
+      })
+      .on('llm:call', log => {
+        this.callLogs.push(log);
+      });
+  }
+
+  start(): void {
+    this.startedAt = new Date();
+  }
+
+  toReport(result: OrchestratorResult): RunReport {
+    const finishedAt = new Date();
+
+    return {
+      ...result,
+      usage: result.usage || summarizeUsage(this.callLogs),
+      timings: {
+        startedAt: this.startedAt.toISOString(),
+        finishedAt: finishedAt.toISOString(),
+        durationMs: finishedAt.getTime() - this.startedAt.getTime(),
+        planningMs: this.planningMs,
+        synthesisMs: this.synthesisMs,
+        workers: [...this.workers].sort((a, b) => a.index - b.index),
+      },
+      callLogs: [...this.callLogs],
+    };
+  }
+}
+
+/**
+ * One JSONL line for a stream event or call log. Errors are reduced to their message
+ * since `JSON.stringify` drops everything on an `Error`.
+ */
+export function formatJsonLine(event: OrchestratorStreamEvent | ({ type: 'llm:call' } & LLMCallLog)): string {
+  return JSON.stringify({ timestamp: new Date().toISOString(), ...event }, (key, value) =>
+    value instanceof Error ? { message: value.message } : value
+  );
+}
+
+export function formatMarkdownReport(result: OrchestratorResult): string {
+  const lines: string[] = [];
+
+  lines.push('# Langelot Report', '');
+  lines.push(`**Task:** ${result.task}`, '');
+
+  lines.push('## Strategies', '');
+  result.strategies.forEach((strategy, index) => {
+    const after = strategy.dependsOn?.length ? `, after ${strategy.dependsOn.map(id => `\`${id}\``).join(', ')}` : '';
+    lines.push(`${index + 1}. **${strategy.approach}** (\`${strategy.agentType}\`${after}) — ${strategy.description}`);
+  });
+  lines.push('');
+
+  lines.push('## Worker Results', '');
+  result.results.forEach((workerResult, index) => {
+    lines.push(`### ${index + 1}. ${workerResult.approach}`, '');
+
+    if (workerResult.error) {
+      lines.push(`_Failed: ${workerResult.error}_`, '');
+      return;
+    }
+
+    const meta = [
+      workerResult.workerType && `Worker: ${workerResult.workerType}${workerResult.fallbackFrom ? ` (fallback from ${workerResult.fallbackFrom})` : ''}`,
+      workerResult.model && `Model: ${workerResult.model}`,
+      workerResult.duration !== undefined && `Duration: ${workerResult.duration}ms`,
+      workerResult.workerType === 'search' && (workerResult.searchPerformed ? 'Web search performed' : 'Fallback to training data'),
+    ].filter(Boolean);
+    if (meta.length > 0) {
+      lines.push(`_${meta.join(' · ')}_`, '');
+    }
+
+    lines.push(workerResult.result, '');
+
+    if (workerResult.sources && workerResult.sources.length > 0) {
+      lines.push('**Sources**', '');
+      workerResult.sources.forEach(source => {
+        lines.push(`- ${source.id ? `\`${source.id}\` ` : ''}[${source.title}](${source.url})${source.snippet ? ` — ${source.snippet}` : ''}`);
+      });
+      lines.push('');
+    }
+
+    if (workerResult.filesUsed && workerResult.filesUsed.length > 0) {
+      lines.push(`**Files analyzed:** ${workerResult.filesUsed.join(', ')}`, '');
+    }
+
+    if (workerResult.passages && workerResult.passages.length > 0) {
+      lines.push(`**Passages retrieved:** ${workerResult.passages.map(passage => `\`${passage.id}\``).join(', ')}`, '');
+    }
+
+    if (workerResult.code) {
+      lines.push(`**Code** (${workerResult.code.language}, ${workerResult.code.attempts} attempt${workerResult.code.attempts === 1 ? '' : 's'})`, '');
+      lines.push('```' + workerResult.code.language, workerResult.code.source, '```', '');
+    }
+  });
+
+  if (result.rounds && result.rounds.length > 1) {
+    lines.push('## Rounds', '');
+    result.rounds.forEach(round => {
+      lines.push(`${round.round}. ${round.strategies.map(strategy => `**${strategy.approach}**`).join(', ')}`);
+      if (round.evaluation) {
+        lines.push(`   ${round.evaluation.accepted ? 'Accepted' : 'Revise'}: ${round.evaluation.critique}`);
+      }
+    });
+    lines.push('', `_Stopped: ${result.stopReason}${result.stopError ? ` (${result.stopError})` : ''}_`, '');
+  }
+
+  lines.push('## Synthesis', '');
+  if (result.synthesisMode && result.synthesisMode !== 'single') {
+    lines.push(`_Mode: ${describeSynthesis(result.synthesisMode, result.rounds?.[result.rounds.length - 1].synthesisTrace)}_`, '');
+  }
+  lines.push(result.synthesis, '');
+
+  if (result.bibliography && result.bibliography.length > 0) {
+    lines.push('## Bibliography', '');
+    result.bibliography.forEach(citation => {
+      lines.push(citation.url
+        ? `- \`${citation.id}\` [${citation.title}](${citation.url})`
+        : `- \`${citation.id}\` ${citation.title}`);
+    });
+    lines.push('');
+  }
+
+  if (result.citationIssues && result.citationIssues.length > 0) {
+    lines.push('**Unknown citations:**', '');
+    result.citationIssues.forEach(issue => lines.push(`- \`${issue.id}\` in "${issue.claim}"`));
+    lines.push('');
+  }
+
+  if (result.contextAdjustments && result.contextAdjustments.length > 0) {
+    lines.push('**Shrunk to fit context windows:**', '');
+    result.contextAdjustments.forEach(adjustment => lines.push(`- ${describeAdjustment(adjustment)}`));
+    lines.push('');
+  }
+
+  if (result.usage) {
+    lines.push('## Usage', '');
+    lines.push('| Role | Calls | Input tokens | Output tokens | Cost |', '| --- | ---: | ---: | ---: | ---: |');
+    Object.entries(result.usage.byRole).forEach(([role, totals]) => {
+      lines.push(`| ${role} | ${totals.calls} | ${totals.prompt_tokens} | ${totals.completion_tokens} | ${formatCost(totals.cost)} |`);
+    });
+    lines.push(
+      `| **Total** | ${result.usage.calls} | ${result.usage.prompt_tokens} | ${result.usage.completion_tokens} | ${formatCost(result.usage.cost)} |`,
+      ''
+    );
+    if (result.usage.unpricedModels.length > 0) {
+      lines.push(`_No pricing for: ${result.usage.unpricedModels.join(', ')}_`, '');
+    }
+  }
+
+  return lines.join('\n');
+}
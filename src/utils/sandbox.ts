@@ -0,0 +1,242 @@
+import { spawn, spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+export type CodeLanguage = 'javascript' | 'python';
+
+export const CODE_LANGUAGES: CodeLanguage[] = ['javascript', 'python'];
+
+export interface SandboxOptions {
+  /** Wall-clock limit; the process is killed once it runs over (default: 10000) */
+  timeoutMs?: number;
+  /** Memory cap in MB: the JavaScript heap, or the Python address space (default: 256) */
+  memoryMb?: number;
+  /** Python interpreter (default: python3) */
+  pythonPath?: string;
+  /** Characters kept of stdout and of stderr (default: 20000) */
+  maxOutputChars?: number;
+}
+
+export interface SandboxResult {
+  stdout: string;
+  stderr: string;
+  /** Null when the process was killed or could not start */
+  exitCode: number | null;
+  timedOut: boolean;
+  duration: number;
+}
+
+export const DEFAULT_SANDBOX_OPTIONS: Required<SandboxOptions> = {
+  timeoutMs: 10_000,
+  memoryMb: 256,
+  pythonPath: 'python3',
+  maxOutputChars: 20_000,
+};
+
+// Loaded before the script: keeps network and process modules out of reach and disables fetch
+const JAVASCRIPT_GUARD = `'use strict';
+const Module = require('module');
+const blocked = new Set(['net', 'tls', 'http', 'https', 'http2', 'dgram', 'dns', 'child_process', 'cluster', 'worker_threads', 'inspector']);
+const load = Module._load;
+Module._load = function (request, ...rest) {
+  if (blocked.has(String(request).replace(/^node:/, ''))) {
+    throw new Error('Module "' + request + '" is not available in the sandbox');
+  }
+  return load.call(this, request, ...rest);
+};
+const offline = () => { throw new Error('Network access is not available in the sandbox'); };
+for (const name of ['fetch', 'WebSocket', 'EventSource']) {
+  Object.defineProperty(globalThis, name, { value: offline, writable: false, configurable: false });
+}
+`;
+
+// Runs the script after capping memory and installing an audit hook, which Python code cannot
+// remove. The hook sees file, process and socket operations at the C level, so \`_socket\`,
+// \`os.system\` and \`subprocess\` are covered too: files outside the script's directory can only
+// be read from the interpreter's library path, and processes, sockets and ctypes are refused.
+function pythonGuard(memoryMb: number): string {
+  return `import os, resource, runpy, sys
+_limit = ${memoryMb} * 1024 * 1024
+resource.setrlimit(resource.RLIMIT_AS, (_limit, _limit))
+
+def _install(root, libraries):
+    write_flags = os.O_WRONLY | os.O_RDWR | os.O_CREAT | os.O_APPEND | os.O_TRUNC
+    process_events = ('subprocess.Popen', 'os.system', 'os.exec', 'os.posix_spawn', 'os.spawn', 'os.fork', 'os.forkpty', 'os.kill', 'os.killpg', 'pty.spawn')
+    path_events = ('os.remove', 'os.rmdir', 'os.mkdir', 'os.rename', 'os.link', 'os.symlink', 'os.chmod', 'os.chown', 'os.truncate', 'os.utime', 'shutil.copyfile', 'shutil.rmtree')
+
+    def inside(path, directories):
+        if isinstance(path, int):
+            return True
+        resolved = os.path.realpath(os.fsdecode(path))
+        return any(resolved == directory or resolved.startswith(directory + os.sep) for directory in directories)
+
+    def refuse_files(path):
+        raise PermissionError('File access outside the working directory is not available in the sandbox: ' + os.fsdecode(path))
+
+    def hook(event, args):
+        if event == 'open':
+            path, mode, flags = args
+            if path is None:
+                return
+            writing = (isinstance(mode, str) and any(c in mode for c in 'wax+')) or bool((flags or 0) & write_flags)
+            if not inside(path, (root,) if writing else (root,) + libraries):
+                refuse_files(path)
+        elif event in ('os.listdir', 'os.scandir', 'os.chdir'):
+            if args[0] is not None and not inside(args[0], (root,) + libraries):
+                refuse_files(args[0])
+        elif event in path_events:
+            for path in args[:2]:
+                if isinstance(path, (str, bytes, os.PathLike)) and not inside(path, (root,)):
+                    refuse_files(path)
+        elif event.startswith(process_events):
+            raise PermissionError('Starting processes is not available in the sandbox')
+        elif event.startswith('socket.') and event != 'socket.__new__':
+            raise OSError('Network access is not available in the sandbox')
+        elif event.startswith('ctypes.') or (event == 'import' and args[0] in ('ctypes', '_ctypes')):
+            raise ImportError('ctypes is not available in the sandbox')
+
+    sys.addaudithook(hook)
+
+_install(
+    os.path.realpath(os.getcwd()),
+    tuple({os.path.realpath(p) for p in sys.path + ['/dev/null', '/dev/urandom'] if p}),
+)
+sys.argv = ['main.py']
+runpy.run_path('main.py', run_name='__main__')
+`;
+}
+
+// Node 20 calls the permission model experimental
+const PERMISSION_FLAG = process.allowedNodeEnvironmentFlags.has('--permission') ? '--permission' : '--experimental-permission';
+
+let networkNamespace: boolean | undefined;
+
+/** Whether scripts can run in an empty network namespace (`unshare -rn`), checked once */
+function canUnshareNetwork(): boolean {
+  if (networkNamespace === undefined) {
+    networkNamespace = process.platform === 'linux'
+      && spawnSync('unshare', ['-rn', 'true'], { stdio: 'ignore', timeout: 5000 }).status === 0;
+  }
+  return networkNamespace;
+}
+
+function commandFor(language: CodeLanguage, dir: string, options: Required<SandboxOptions>): { command: string; args: string[] } {
+  if (language === 'javascript') {
+    fs.writeFileSync(path.join(dir, 'guard.cjs'), JAVASCRIPT_GUARD);
+    return {
+      command: process.execPath,
+      args: [
+        `--max-old-space-size=${options.memoryMb}`,
+        PERMISSION_FLAG,
+        `--allow-fs-read=${dir}`,
+        `--allow-fs-write=${dir}`,
+        '--no-warnings',
+        '--require', path.join(dir, 'guard.cjs'),
+        path.join(dir, 'main.cjs'),
+      ],
+    };
+  }
+
+  fs.writeFileSync(path.join(dir, 'guard.py'), pythonGuard(options.memoryMb));
+  return { command: options.pythonPath, args: ['-I', path.join(dir, 'guard.py')] };
+}
+
+export interface ProcessOptions {
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+  timeoutMs: number;
+  maxOutputChars: number;
+}
+
+/**
+ * Runs a command in its own process group and collects its output. Once `timeoutMs` passes,
+ * the whole group is killed and the output pipes are closed, so processes the command
+ * started cannot keep it running past the limit by holding the pipes open.
+ */
+export function runProcess(command: string, args: string[], options: ProcessOptions): Promise<SandboxResult> {
+  const startTime = Date.now();
+
+  return new Promise<SandboxResult>(resolve => {
+    const output = { stdout: '', stderr: '' };
+    let timedOut = false;
+    let settled = false;
+
+    const child = spawn(command, args, {
+      cwd: options.cwd,
+      env: options.env,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      detached: true,
+    });
+
+    const collect = (stream: 'stdout' | 'stderr') => (chunk: Buffer) => {
+      if (output[stream].length < options.maxOutputChars) {
+        output[stream] += chunk.toString();
+      }
+    };
+    child.stdout.on('data', collect('stdout'));
+    child.stderr.on('data', collect('stderr'));
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        process.kill(-child.pid!, 'SIGKILL');
+      } catch {
+        // The group is already gone
+      }
+      child.stdout.destroy();
+      child.stderr.destroy();
+    }, options.timeoutMs);
+
+    const finish = (exitCode: number | null, error?: Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      const truncate = (text: string) => text.length > options.maxOutputChars
+        ? `${text.slice(0, options.maxOutputChars)}\n[output truncated]`
+        : text;
+      resolve({
+        stdout: truncate(output.stdout),
+        stderr: truncate(error ? `${output.stderr}${error.message}` : output.stderr),
+        exitCode,
+        timedOut,
+        duration: Date.now() - startTime,
+      });
+    };
+    child.on('error', error => finish(null, error));
+    child.on('close', code => finish(timedOut ? null : code));
+  });
+}
+
+/**
+ * Runs a script in a child process inside a fresh temporary directory, which is removed
+ * afterwards. The process gets no environment beyond `PATH`, is killed after `timeoutMs`,
+ * and cannot open network connections: it runs in its own network namespace where the
+ * system allows it, and with sockets disabled in the runtime either way. JavaScript runs as
+ * CommonJS under Node's permission model and Python under an audit hook, both limited to
+ * the temporary directory and unable to start processes. These guards live inside the
+ * interpreter: they keep a generated script in bounds but do not stop code written to break
+ * out of them, so without a network namespace the network is only closed by the runtime.
+ */
+export async function runSandboxed(language: CodeLanguage, source: string, options: SandboxOptions = {}): Promise<SandboxResult> {
+  const settings = { ...DEFAULT_SANDBOX_OPTIONS, ...options };
+  const dir = await fs.promises.realpath(await fs.promises.mkdtemp(path.join(os.tmpdir(), 'langelot-sandbox-')));
+
+  try {
+    await fs.promises.writeFile(path.join(dir, language === 'javascript' ? 'main.cjs' : 'main.py'), source);
+    let { command, args } = commandFor(language, dir, settings);
+    if (canUnshareNetwork()) {
+      args = ['-rn', command, ...args];
+      command = 'unshare';
+    }
+
+    return await runProcess(command, args, {
+      cwd: dir,
+      env: { PATH: process.env.PATH || '', HOME: dir, TMPDIR: dir },
+      timeoutMs: settings.timeoutMs,
+      maxOutputChars: settings.maxOutputChars,
+    });
+  } finally {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,58 @@
+import { ResultScore, SynthesisMode, SynthesisTrace, WorkerResult } from '../types/index.js';
+import { extractSingleXml, extractXml } from './xml-parser.js';
+
+export const SYNTHESIS_MODES: SynthesisMode[] = ['single', 'map-reduce', 'debate', 'judge', 'best-of-n'];
+
+/**
+ * Scores from a judge's `<assessment>` blocks, each with an `<approach>`, a `<score>` from
+ * 1 to 10 and a `<rationale>`. Blocks naming no known approach or without a number are ignored.
+ */
+export function parseResultScores(content: string, approaches: string[]): ResultScore[] {
+  const scores: ResultScore[] = [];
+
+  for (const block of extractXml(content, 'assessment')) {
+    const named = extractSingleXml(block, 'approach')?.trim().toLowerCase();
+    const approach = approaches.find(candidate => candidate.toLowerCase() === named);
+    const score = Number(extractSingleXml(block, 'score')?.match(/\d+(\.\d+)?/)?.[0]);
+    if (approach && Number.isFinite(score) && !scores.some(existing => existing.approach === approach)) {
+      scores.push({ approach, score: Math.min(Math.max(score, 1), 10), rationale: extractSingleXml(block, 'rationale')?.trim() || '' });
+    }
+  }
+
+  return scores;
+}
+
+/**
+ * The results a judge's scores let through, best first: those scoring at least `minScore`,
+ * then any the judge did not score. When every scored result falls short, the best one is kept.
+ */
+export function selectByScore(results: WorkerResult[], scores: ResultScore[], minScore: number): WorkerResult[] {
+  const scoreOf = (result: WorkerResult) => scores.find(score => score.approach === result.approach)?.score;
+  const scored = results
+    .filter(result => scoreOf(result) !== undefined)
+    .sort((a, b) => scoreOf(b)! - scoreOf(a)!);
+  const unscored = results.filter(result => scoreOf(result) === undefined);
+  const passing = scored.filter(result => scoreOf(result)! >= minScore);
+
+  return [...(passing.length > 0 || unscored.length > 0 ? passing : scored.slice(0, 1)), ...unscored];
+}
+
+/** Zero-based index of the candidate a judge picked with `<choice>n</choice>`; the first one when the answer is unclear */
+export function parseChoice(content: string, candidates: number): number {
+  const choice = Number(extractSingleXml(content, 'choice')?.match(/\d+/)?.[0]);
+  return Number.isInteger(choice) && choice >= 1 && choice <= candidates ? choice - 1 : 0;
+}
+
+/** One line on how a synthesis was reached, e.g. `best-of-n: picked draft 2 of 3` */
+export function describeSynthesis(mode: SynthesisMode, trace?: SynthesisTrace): string {
+  if (trace?.scores) {
+    return `${mode}: ${trace.scores.length > 0 ? trace.scores.map(score => `${score.approach} ${score.score}/10`).join(', ') : 'no scores given'}`;
+  }
+  if (trace?.candidates && trace.chosen !== undefined) {
+    return `${mode}: picked draft ${trace.chosen + 1} of ${trace.candidates.length}`;
+  }
+  if (trace?.summaries) {
+    return `${mode}: merged ${trace.summaries.length} summaries`;
+  }
+  return mode;
+}
@@ -0,0 +1,111 @@
+import { SubtaskStrategy } from '../types/index.js';
+
+/**
+ * Orders a plan so every strategy comes after the strategies it depends on, returning
+ * positions in `strategies`. `upstreamIds` are ids of approaches that already ran (in an
+ * earlier round); depending on them is allowed and needs no ordering.
+ *
+ * Throws on duplicate ids, references to ids that do not exist, and cycles.
+ */
+export function sortTaskGraph(strategies: SubtaskStrategy[], upstreamIds: string[] = []): number[] {
+  const positions = new Map<string, number>();
+  strategies.forEach((strategy, position) => {
+    if (!strategy.id) return;
+    if (positions.has(strategy.id) || upstreamIds.includes(strategy.id)) {
+      throw new Error(`Duplicate strategy id "${strategy.id}"`);
+    }
+    positions.set(strategy.id, position);
+  });
+
+  strategies.forEach(strategy => {
+    (strategy.dependsOn || []).forEach(id => {
+      if (!positions.has(id) && !upstreamIds.includes(id)) {
+        throw new Error(`Strategy "${strategy.approach}" depends on unknown id "${id}"`);
+      }
+    });
+  });
+
+  const order: number[] = [];
+  const state = new Map<number, 'visiting' | 'done'>();
+  const visit = (position: number, path: string[]): void => {
+    const strategy = strategies[position];
+    if (state.get(position) === 'done') return;
+    if (state.get(position) === 'visiting') {
+      const cycle = path.slice(path.indexOf(strategy.id!));
+      throw new Error(`Strategy dependencies form a cycle: ${[...cycle, strategy.id].join(' -> ')}`);
+    }
+
+    state.set(position, 'visiting');
+    (strategy.dependsOn || []).forEach(id => {
+      const upstream = positions.get(id);
+      if (upstream !== undefined) {
+        visit(upstream, [...path, strategy.id!]);
+      }
+    });
+    state.set(position, 'done');
+    order.push(position);
+  };
+
+  strategies.forEach((_, position) => visit(position, []));
+  return order;
+}
+
+/**
+ * Makes strategies planned after a round has run safe to pass to `sortTaskGraph`: ids
+ * already in use get a numbered suffix, dependencies on unknown ids are dropped, and so
+ * are the strategies that form cycles. Returns what is left and a note for each change.
+ */
+export function repairTaskGraph(
+  strategies: SubtaskStrategy[],
+  upstreamIds: string[] = []
+): { strategies: SubtaskStrategy[]; problems: string[] } {
+  const problems: string[] = [];
+  const used = new Set(upstreamIds);
+  let repaired = strategies.map(strategy => {
+    if (!strategy.id || !used.has(strategy.id)) {
+      if (strategy.id) used.add(strategy.id);
+      return { ...strategy };
+    }
+    let suffix = 2;
+    while (used.has(`${strategy.id}-${suffix}`)) suffix++;
+    const id = `${strategy.id}-${suffix}`;
+    problems.push(`Strategy "${strategy.approach}" reuses id "${strategy.id}"; renamed to "${id}"`);
+    used.add(id);
+    return { ...strategy, id };
+  });
+
+  const dropUnknownDependencies = () => {
+    const known = new Set([...upstreamIds, ...repaired.flatMap(strategy => (strategy.id ? [strategy.id] : []))]);
+    repaired.forEach(strategy => {
+      const unknown = (strategy.dependsOn || []).filter(id => !known.has(id));
+      if (unknown.length > 0) {
+        problems.push(`Strategy "${strategy.approach}" depends on unknown id${unknown.length === 1 ? '' : 's'} ${unknown.map(id => `"${id}"`).join(', ')}; dependency dropped`);
+        strategy.dependsOn = strategy.dependsOn!.filter(id => known.has(id));
+      }
+    });
+  };
+  dropUnknownDependencies();
+
+  // A strategy is in a cycle when following its dependencies inside the batch leads back to it
+  const byId = new Map(repaired.flatMap(strategy => (strategy.id ? [[strategy.id, strategy] as const] : [])));
+  const reachesItself = (start: SubtaskStrategy): boolean => {
+    const seen = new Set<SubtaskStrategy>();
+    const stack = [...(start.dependsOn || [])];
+    while (stack.length > 0) {
+      const next = byId.get(stack.pop()!);
+      if (!next || seen.has(next)) continue;
+      if (next === start) return true;
+      seen.add(next);
+      stack.push(...(next.dependsOn || []));
+    }
+    return false;
+  };
+  const cyclic = repaired.filter(reachesItself);
+  if (cyclic.length > 0) {
+    problems.push(`Strategies ${cyclic.map(strategy => `"${strategy.approach}"`).join(', ')} depend on each other in a cycle; dropped`);
+    repaired = repaired.filter(strategy => !cyclic.includes(strategy));
+    dropUnknownDependencies();
+  }
+
+  return { strategies: repaired, problems };
+}
@@ -1,12 +1,38 @@
+import { AgentType, SubtaskStrategy } from '../types/index.js';
+import { AGENT_TYPES } from './plan-constraints.js';
+
+export type { SubtaskStrategy };
+
+// Opening tags may carry attributes (`<approach id="a">`)
+function openTag(tag: string): string {
+  return `<${tag}(?:\\s[^>]*)?>`;
+}
+
+/**
+ * Contents of every outermost `<tag>` element. Nested elements with the same tag stay
+ * inside their parent's content instead of ending it early.
+ */
 export function extractXml(text: string, tag: string): string[] {
-  const regex = new RegExp(`<${tag}>(.*?)</${tag}>`, 'gs');
+  const regex = new RegExp(`${openTag(tag)}|</${tag}>`, 'g');
   const matches = [];
+  let depth = 0;
+  let start = 0;
   let match;
-  
+
   while ((match = regex.exec(text)) !== null) {
-    matches.push(match[1].trim());
+    if (!match[0].startsWith('</')) {
+      if (depth === 0) {
+        start = match.index + match[0].length;
+      }
+      depth++;
+    } else if (depth > 0) {
+      depth--;
+      if (depth === 0) {
+        matches.push(text.slice(start, match.index).trim());
+      }
+    }
   }
-  
+
   return matches;
 }
 
@@ -15,35 +41,84 @@ export function extractSingleXml(text: string, tag: string): string | null {
   return matches.length > 0 ? matches[0] : null;
 }
 
-export interface SubtaskStrategy {
-  approach: string;
-  description: string;
-  agentType: 'simple' | 'search' | 'librarian';
+export interface StrategyParseResult {
+  strategies: SubtaskStrategy[];
+  /** One sentence per problem found, naming the approach it belongs to */
+  errors: string[];
 }
 
-export function parseSubtaskStrategies(text: string): SubtaskStrategy[] {
-  const approaches = extractXml(text, 'approach');
-  const descriptions = extractXml(text, 'description');
-  const agents = extractXml(text, 'agent');
-  
+// Text from each <approach> up to the next one, so every tag stays with its approach
+function splitApproachBlocks(text: string): string[] {
+  const starts: number[] = [];
+  const regex = new RegExp(openTag('approach'), 'g');
+  let match;
+  while ((match = regex.exec(text)) !== null) {
+    starts.push(match.index);
+  }
+  return starts.map((start, i) => text.slice(start, starts[i + 1]));
+}
+
+function parseDependsOn(value: string | null): string[] {
+  if (!value || /^none$/i.test(value)) {
+    return [];
+  }
+  return value.split(',').map(id => id.trim()).filter(Boolean);
+}
+
+/**
+ * Reads a plan approach by approach, validating each `<approach>` block as a unit: a block
+ * missing its `<agent>` or `<description>` is dropped rather than borrowing the next
+ * block's. An agent missing from `agents` is reported and replaced with `simple`.
+ */
+export function parseStrategyBlocks(text: string, agents: AgentType[] = AGENT_TYPES): StrategyParseResult {
   const strategies: SubtaskStrategy[] = [];
-  const minLength = Math.min(approaches.length, descriptions.length, agents.length);
-  
-  for (let i = 0; i < minLength; i++) {
-    const agentType = agents[i].toLowerCase() as 'simple' | 'search' | 'librarian';
-    
-    // Validate agent type
-    if (!['simple', 'search', 'librarian'].includes(agentType)) {
-      console.warn(`Invalid agent type "${agents[i]}", defaulting to "simple"`);
+  const errors: string[] = [];
+
+  splitApproachBlocks(text).forEach((block, i) => {
+    const approach = extractSingleXml(block, 'approach');
+    const agent = extractSingleXml(block, 'agent');
+    const description = extractSingleXml(block, 'description');
+    const label = `Approach ${i + 1}${approach ? ` ("${approach}")` : ''}`;
+
+    const missing = [
+      approach ? null : '<approach>',
+      agent ? null : '<agent>',
+      description ? null : '<description>',
+    ].filter(Boolean);
+    if (missing.length > 0) {
+      errors.push(`${label} is missing ${missing.join(' and ')}.`);
+      return;
     }
-    
-    strategies.push({
-      approach: approaches[i],
-      description: descriptions[i],
-      agentType: ['simple', 'search', 'librarian'].includes(agentType) ? agentType : 'simple',
-    });
-  }
-  
+
+    const agentType = agent!.toLowerCase();
+    if (!agents.includes(agentType)) {
+      errors.push(`${label} has unknown agent "${agent}"; use one of ${agents.join(', ')}.`);
+    }
+
+    const strategy: SubtaskStrategy = {
+      approach: approach!,
+      description: description!,
+      agentType: agents.includes(agentType) ? agentType : 'simple',
+    };
+
+    // Ids and dependencies are optional
+    const id = extractSingleXml(block, 'id');
+    const dependsOn = parseDependsOn(extractSingleXml(block, 'depends_on'));
+    if (id) {
+      strategy.id = id;
+    }
+    if (dependsOn.length > 0) {
+      strategy.dependsOn = dependsOn;
+    }
+    strategies.push(strategy);
+  });
+
+  return { strategies, errors };
+}
+
+export function parseSubtaskStrategies(text: string, agents: AgentType[] = AGENT_TYPES): SubtaskStrategy[] {
+  const { strategies, errors } = parseStrategyBlocks(text, agents);
+  errors.forEach(error => console.warn(error));
   return strategies;
 }
 
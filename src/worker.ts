@@ -1,4 +1,4 @@
-import { OpenAIConnector } from './connectors/index.js';
+import { LLMConnector } from './connectors/index.js';
 import { extractSingleXml } from './utils/xml-parser.js';
 
 export interface WorkerOptions {
@@ -8,10 +8,10 @@ export interface WorkerOptions {
 }
 
 export class Worker {
-  private connector: OpenAIConnector;
+  private connector: LLMConnector;
   private options: Required<WorkerOptions>;
 
-  constructor(connector: OpenAIConnector, options: WorkerOptions = {}) {
+  constructor(connector: LLMConnector, options: WorkerOptions = {}) {
     this.connector = connector;
     this.options = {
       model: options.model || 'gpt-4.1',
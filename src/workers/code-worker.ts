@@ -0,0 +1,164 @@
+import { LLMConnector } from '../connectors/index.js';
+import { CodeExecution, WorkerOptions } from '../types/index.js';
+import { CODE_LANGUAGES, CodeLanguage, DEFAULT_SANDBOX_OPTIONS, SandboxOptions, SandboxResult, runSandboxed } from '../utils/sandbox.js';
+import { extractSingleXml } from '../utils/xml-parser.js';
+
+export interface CodeWorkerOptions extends WorkerOptions {
+  /** Languages the model may write in (default: javascript and python) */
+  languages?: CodeLanguage[];
+  /** Times a failing script goes back to the model with its output (default: 2) */
+  maxRepairs?: number;
+  sandbox?: SandboxOptions;
+}
+
+export interface CodeWorkerResult {
+  approach: string;
+  result: string;
+  model: string;
+  duration: number;
+  code: CodeExecution;
+}
+
+interface Script {
+  language: CodeLanguage;
+  source: string;
+}
+
+export class CodeWorker {
+  private connector: LLMConnector;
+  private options: Required<CodeWorkerOptions>;
+
+  constructor(connector: LLMConnector, options: CodeWorkerOptions = {}) {
+    this.connector = connector;
+    this.options = {
+      model: options.model || 'gpt-4.1',
+      maxTokens: options.maxTokens || 1500,
+      temperature: options.temperature ?? 0.2,
+      languages: options.languages?.length ? options.languages : CODE_LANGUAGES,
+      maxRepairs: options.maxRepairs ?? 2,
+      sandbox: { ...DEFAULT_SANDBOX_OPTIONS, ...options.sandbox },
+    };
+  }
+
+  private getPrompt(task: string, approach: string, description: string, context?: Record<string, any>): string {
+    const { languages, sandbox } = this.options;
+    const contextInfo = context && Object.keys(context).length > 0
+      ? `\n\nAdditional context: ${JSON.stringify(context, null, 2)}`
+      : '';
+
+    return `You are a specialized worker that solves part of a larger task by writing a script and running it.
+
+Original Task: ${task}
+Your Approach: ${approach}
+Approach Description: ${description}${contextInfo}
+
+Write one self-contained ${languages.join(' or ')} script that computes what this approach needs and prints the answer to stdout, with enough labels to read it on its own.
+
+The script runs in an empty temporary directory with no network access, only the standard library, ${sandbox.timeoutMs! / 1000} seconds and ${sandbox.memoryMb} MB of memory. JavaScript runs as CommonJS under Node.js, so use require() rather than import.
+
+Format your response as:
+<language>${languages.join('|')}</language>
+<code>
+Your script here
+</code>`;
+  }
+
+  private getRepairPrompt(prompt: string, script: Script, run: SandboxResult): string {
+    const outcome = run.timedOut
+      ? `was killed after ${this.options.sandbox.timeoutMs! / 1000} seconds`
+      : `exited with code ${run.exitCode}`;
+
+    return `${prompt}
+
+Your previous script:
+<code>
+${script.source}
+</code>
+
+It ${outcome}.
+stdout:
+${run.stdout.trim() || '(empty)'}
+stderr:
+${run.stderr.trim() || '(empty)'}
+
+Fix the script and respond in the same format.`;
+  }
+
+  // Models often fence the code inside the tag anyway
+  private parseScript(content: string): Script | null {
+    const code = extractSingleXml(content, 'code');
+    if (!code) {
+      return null;
+    }
+
+    const source = code.replace(/^```[\w-]*\n([\s\S]*?)\n?```$/, '$1');
+    const named = extractSingleXml(content, 'language')?.toLowerCase();
+    const language = this.options.languages.find(candidate => candidate === named)
+      || (named === 'js' || named === 'node' ? 'javascript' : named === 'py' ? 'python' : this.options.languages[0]);
+    return { language, source };
+  }
+
+  async execute(
+    task: string,
+    approach: string,
+    description: string,
+    context?: Record<string, any>
+  ): Promise<CodeWorkerResult> {
+    const startTime = Date.now();
+    const role = `CODE-WORKER (${approach})`;
+    const prompt = this.getPrompt(task, approach, description, context);
+
+    try {
+      let request = prompt;
+      let last: { script: Script; run: SandboxResult } | null = null;
+
+      for (let attempt = 1; attempt <= this.options.maxRepairs + 1; attempt++) {
+        const response = await this.connector.llmCall(
+          request,
+          this.options.model,
+          this.options.maxTokens,
+          this.options.temperature,
+          role
+        );
+
+        const script = this.parseScript(response.content);
+        if (!script) {
+          request = `${prompt}\n\nYour previous response had no <code> block. Respond in the format above.`;
+          continue;
+        }
+
+        const run = await runSandboxed(script.language, script.source, this.options.sandbox);
+        last = { script, run };
+        if (run.exitCode === 0 && !run.timedOut) {
+          const code: CodeExecution = {
+            language: script.language,
+            source: script.source,
+            stdout: run.stdout,
+            stderr: run.stderr,
+            exitCode: run.exitCode,
+            timedOut: run.timedOut,
+            attempts: attempt,
+          };
+          return {
+            approach,
+            result: `Output of a ${script.language} script:\n${run.stdout.trim() || '(no output)'}`,
+            model: this.options.model,
+            duration: Date.now() - startTime,
+            code,
+          };
+        }
+        request = this.getRepairPrompt(prompt, script, run);
+      }
+
+      const reason = !last
+        ? 'the model never returned a <code> block'
+        : last.run.timedOut
+          ? 'the script timed out'
+          : `exit code ${last.run.exitCode}: ${last.run.stderr.trim().split('\n').slice(-3).join(' ')}`;
+      throw new Error(`no working script after ${this.options.maxRepairs + 1} attempts (${reason})`);
+
+    } catch (error) {
+      throw new Error(`CodeWorker execution failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
@@ -1,3 +1,5 @@
 export * from './web-search-worker.js';
 export * from './simple-worker.js';
-export * from './librarian-worker.js';
\ No newline at end of file
+export * from './librarian-worker.js';
+export * from './code-worker.js';
+export * from './registry.js';
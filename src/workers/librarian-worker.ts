@@ -1,16 +1,47 @@
 import fs from 'fs';
 import path from 'path';
-import { OpenAIConnector } from '../connectors/index.js';
-import { WorkerOptions } from '../types/index.js';
+import { LLMConnector } from '../connectors/index.js';
+import { DocumentPassage, WorkerOptions } from '../types/index.js';
+import { ChunkOptions, DOCUMENT_HANDLERS, DocumentIndex, TextExtractor } from '../utils/document-index.js';
+import { ContextBudget } from '../utils/context-budget.js';
+
+/**
+ * - `upload`: documents are uploaded to the provider and attached to each call (PDF only)
+ * - `local`: text documents are indexed on this machine and only the passages relevant to
+ *   an approach go into its prompt
+ */
+export type LibrarianMode = 'upload' | 'local';
+
+export const LIBRARIAN_MODES: LibrarianMode[] = ['upload', 'local'];
+
+/** File types providers accept as uploaded documents */
+export const UPLOAD_EXTENSIONS = ['.pdf'];
 
 export interface LibrarianWorkerOptions extends WorkerOptions {
   filePaths?: string[];
+  /** Default: upload */
+  mode?: LibrarianMode;
+  /** Passages retrieved per approach in local mode (default: 6) */
+  topK?: number;
+  /** How local mode chunks documents */
+  chunking?: ChunkOptions;
+  /** Local mode text extractors by extension, merged over `DOCUMENT_HANDLERS` */
+  handlers?: Record<string, TextExtractor>;
+  /** In local mode, the least relevant passages are cut or left out until the prompt fits the model's window */
+  contextBudget?: ContextBudget;
+}
+
+/** Extensions a librarian in `mode` can read, to filter documents before it starts */
+export function librarianExtensions(mode: LibrarianMode = 'upload', handlers: Record<string, TextExtractor> = {}): string[] {
+  return mode === 'local' ? Object.keys({ ...DOCUMENT_HANDLERS, ...handlers }) : UPLOAD_EXTENSIONS;
 }
 
 export interface LibrarianWorkerResult {
   approach: string;
   result: string;
   filesUsed: string[];
+  /** Set in local mode */
+  passages?: DocumentPassage[];
   model: string;
   duration: number;
 }
@@ -22,18 +53,25 @@ export interface UploadedFile {
 }
 
 export class LibrarianWorker {
-  private connector: OpenAIConnector;
-  private options: Required<LibrarianWorkerOptions>;
+  private connector: LLMConnector;
+  private options: Required<Omit<LibrarianWorkerOptions, 'contextBudget'>>;
+  private contextBudget: ContextBudget;
   private uploadedFiles: UploadedFile[] = [];
+  private index: DocumentIndex | null = null;
 
-  constructor(connector: OpenAIConnector, options: LibrarianWorkerOptions = {}) {
+  constructor(connector: LLMConnector, options: LibrarianWorkerOptions = {}) {
     this.connector = connector;
     this.options = {
       model: options.model || 'gpt-4.1',
       maxTokens: options.maxTokens || 2000,
       temperature: options.temperature || 0.3,
       filePaths: options.filePaths || [],
+      mode: options.mode || 'upload',
+      topK: options.topK || 6,
+      chunking: options.chunking || {},
+      handlers: options.handlers || {},
     };
+    this.contextBudget = options.contextBudget || new ContextBudget();
   }
 
   async initialize(): Promise<void> {
@@ -41,6 +79,11 @@ export class LibrarianWorker {
       throw new Error('LibrarianWorker requires at least one file path to initialize');
     }
 
+    if (this.options.mode === 'local') {
+      await this.indexFiles();
+      return;
+    }
+
     for (const filePath of this.options.filePaths) {
       try {
         await this.uploadFile(filePath);
@@ -54,6 +97,25 @@ export class LibrarianWorker {
     }
   }
 
+  private async indexFiles(): Promise<void> {
+    const index = new DocumentIndex({ ...this.options.chunking, handlers: this.options.handlers });
+
+    for (const filePath of this.options.filePaths) {
+      try {
+        const passages = await index.addFile(filePath);
+        // Progress goes to stderr: stdout is the CLI's, and holds the report with --output json
+        console.error(`✅ Indexed file: ${path.basename(filePath)} (${passages.length} passages)`);
+      } catch (error) {
+        console.warn(`Failed to index file ${filePath}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    if (index.size === 0) {
+      throw new Error('LibrarianWorker failed to index any files');
+    }
+    this.index = index;
+  }
+
   private async uploadFile(filePath: string): Promise<void> {
     if (!fs.existsSync(filePath)) {
       throw new Error(`File not found: ${filePath}`);
@@ -63,9 +125,8 @@ export class LibrarianWorker {
     const extension = path.extname(filePath).toLowerCase();
     
     // Check if file type is supported (mainly PDF files for OpenAI)
-    const supportedExtensions = ['.pdf'];
-    if (!supportedExtensions.includes(extension)) {
-      throw new Error(`Unsupported file type: ${extension}. OpenAI currently supports: ${supportedExtensions.join(', ')}`);
+    if (!UPLOAD_EXTENSIONS.includes(extension)) {
+      throw new Error(`Unsupported file type: ${extension}. OpenAI currently supports: ${UPLOAD_EXTENSIONS.join(', ')}`);
     }
 
     try {
@@ -77,7 +138,7 @@ export class LibrarianWorker {
         name: fileName,
       });
 
-      console.log(`✅ Uploaded file: ${fileName} (ID: ${fileResponse.id})`);
+      console.error(`✅ Uploaded file: ${fileName} (ID: ${fileResponse.id})`);
     } catch (error) {
       throw new Error(`Failed to upload ${fileName}: ${error}`);
     }
@@ -91,7 +152,7 @@ export class LibrarianWorker {
   ): Promise<LibrarianWorkerResult> {
     const startTime = Date.now();
 
-    if (this.uploadedFiles.length === 0) {
+    if (this.uploadedFiles.length === 0 && !this.index) {
       throw new Error('LibrarianWorker not initialized. Call initialize() first.');
     }
 
@@ -99,6 +160,10 @@ export class LibrarianWorker {
       ? `\n\nAdditional context: ${JSON.stringify(context, null, 2)}`
       : '';
 
+    if (this.index) {
+      return this.executeLocal(task, approach, description, contextInfo, startTime);
+    }
+
     const filesInfo = this.uploadedFiles.map(f => f.name).join(', ');
 
     const textContent = `You are a specialized librarian worker with access to uploaded documents. Your task is to analyze the provided files and use the information to complete the assigned approach.
@@ -127,7 +192,8 @@ Your detailed result based on the document analysis
         textContent,
         this.uploadedFiles.map(f => f.id),
         this.options.model,
-        `LIBRARIAN-WORKER (${approach})`
+        `LIBRARIAN-WORKER (${approach})`,
+        this.options.maxTokens
       );
 
       const duration = Date.now() - startTime;
@@ -149,13 +215,101 @@ Your detailed result based on the document analysis
     }
   }
 
+  // Retrieves the passages relevant to the approach and answers from those alone
+  private async executeLocal(
+    task: string,
+    approach: string,
+    description: string,
+    contextInfo: string,
+    startTime: number
+  ): Promise<LibrarianWorkerResult> {
+    const retrieved = this.index!.search(`${approach} ${description} ${task}`, this.options.topK)
+      .map(({ id, file, text }) => ({ id, file, text }));
+    const role = `LIBRARIAN-WORKER (${approach})`;
+
+    try {
+      // Passages come best first, so the last ones are cut first when they do not all fit
+      const { prompt, texts } = await this.contextBudget.fit({
+        role,
+        model: this.options.model,
+        maxTokens: this.options.maxTokens,
+        inputs: retrieved.map(passage => ({ input: `passage ${passage.id}`, text: passage.text })),
+        ranked: true,
+        build: texts => this.getLocalPrompt(task, approach, description, contextInfo, retrieved.map((passage, i) => ({ ...passage, text: texts[i] }))),
+      });
+      const passages = retrieved
+        .map((passage, i) => ({ ...passage, text: texts[i] }))
+        .filter(passage => passage.text);
+
+      const response = await this.connector.llmCall(
+        prompt,
+        this.options.model,
+        this.options.maxTokens,
+        this.options.temperature,
+        role
+      );
+
+      const resultMatch = response.content.match(/<result>([\s\S]*?)<\/result>/);
+      const result = resultMatch ? resultMatch[1].trim() : response.content;
+
+      return {
+        approach,
+        result,
+        filesUsed: [...new Set(passages.map(passage => passage.file))],
+        passages,
+        model: this.options.model,
+        duration: Date.now() - startTime,
+      };
+
+    } catch (error) {
+      throw new Error(`LibrarianWorker execution failed: ${error}`);
+    }
+  }
+
+  private getLocalPrompt(task: string, approach: string, description: string, contextInfo: string, passages: DocumentPassage[]): string {
+    // Passages left out to fit the window are left out of the prompt altogether
+    const included = passages.filter(passage => passage.text);
+    const passagesInfo = included.length > 0
+      ? included.map(passage => `[${passage.id}]\n${passage.text}`).join('\n\n')
+      : 'No passage in the documents matched this approach.';
+
+    return `You are a specialized librarian worker with passages retrieved from local documents. Your task is to use these passages to complete the assigned approach.
+
+Original Task: ${task}
+Your Approach: ${approach}
+Approach Description: ${description}${contextInfo}
+
+Indexed documents: ${this.index!.files().join(', ')}
+
+Retrieved passages:
+${passagesInfo}
+
+Please use the passages to provide a comprehensive response that addresses the specific approach you've been assigned.
+
+Focus on:
+1. Finding relevant information in the passages
+2. Citing every passage you use inline by its ID in square brackets, e.g. [${included[0]?.id || 'notes.md#1'}]
+3. Clearly distinguishing between information from the passages vs. your general knowledge
+
+Format your response as:
+<result>
+Your detailed result based on the passages
+</result>`;
+  }
+
   getUploadedFiles(): UploadedFile[] {
     return [...this.uploadedFiles];
   }
 
+  /** Files indexed in local mode, by the name their passage ids use */
+  getIndexedFiles(): string[] {
+    return this.index ? this.index.files() : [];
+  }
+
   async cleanup(): Promise<void> {
     // Note: OpenAI files are automatically cleaned up after a period
     // But we could implement explicit cleanup if needed
     this.uploadedFiles = [];
+    this.index = null;
   }
 }
\ No newline at end of file
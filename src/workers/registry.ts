@@ -0,0 +1,157 @@
+import { AgentType, WorkerDefinition, WorkerOptions } from '../types/index.js';
+import { SimpleWorker } from './simple-worker.js';
+import { WebSearchWorker, WebSearchWorkerOptions } from './web-search-worker.js';
+import { LibrarianWorker, LibrarianWorkerOptions } from './librarian-worker.js';
+import { CodeWorker, CodeWorkerOptions } from './code-worker.js';
+
+export const simpleWorkerDefinition: WorkerDefinition = {
+  name: 'simple',
+  description: "Fast, cost-effective agent for straightforward tasks that don't need real-time data or documents",
+  useFor: 'reasoning tasks',
+  capabilities: { streaming: true },
+  async execute({ connector, model, maxTokens, temperature, task, approach, description, context, onDelta }) {
+    const { result, model: usedModel, duration } = await new SimpleWorker(connector, { model, maxTokens, temperature })
+      .execute(task, approach, description, context, onDelta);
+    return { result, model: usedModel, duration };
+  },
+};
+
+/**
+ * The search worker with its own search settings, or with a search backend it reads
+ * pages from itself instead of the model provider's search tool:
+ *
+ *     new WorkerRegistry({ builtins: false }).register(createSearchWorkerDefinition({ provider: new SearxngSearchProvider('http://localhost:8888') }));
+ */
+export function createSearchWorkerDefinition(options: Omit<WebSearchWorkerOptions, keyof WorkerOptions> = {}): WorkerDefinition {
+  return {
+    name: 'search',
+    description: 'Web search agent that can access current information, news, trends, and real-time data',
+    useFor: 'current information',
+    capabilities: { webAccess: true },
+    async execute({ connector, model, maxTokens, temperature, task, approach, description, context, cite, contextBudget }) {
+      const { result, sources, searchPerformed } = await new WebSearchWorker(connector, { ...options, model, maxTokens, temperature, contextBudget })
+        .execute(task, approach, description, context, cite);
+      return { result, sources, searchPerformed };
+    },
+  };
+}
+
+export const searchWorkerDefinition: WorkerDefinition = createSearchWorkerDefinition();
+
+/**
+ * The librarian worker in the given mode; in `local` mode documents are indexed on this
+ * machine instead of uploaded:
+ *
+ *     new WorkerRegistry({ builtins: false }).register(createLibrarianWorkerDefinition({ mode: 'local' }));
+ */
+export function createLibrarianWorkerDefinition(
+  options: Pick<LibrarianWorkerOptions, 'mode' | 'topK' | 'chunking' | 'handlers'> = {}
+): WorkerDefinition<LibrarianWorker> {
+  return {
+    name: 'librarian',
+    description: options.mode === 'local'
+      ? 'Document analysis agent that retrieves and cites the relevant passages of local documents'
+      : 'Document analysis agent that can analyze uploaded documents',
+    useFor: 'document analysis',
+    capabilities: { documents: true },
+    // Uploads or indexes the documents once; every librarian approach of the run shares them
+    async setup({ connector, model, maxTokens, temperature, documents, contextBudget }) {
+      const worker = new LibrarianWorker(connector, { ...options, model, maxTokens, temperature, filePaths: documents, contextBudget });
+      await worker.initialize();
+      return worker;
+    },
+    async execute({ state: worker, task, approach, description, context }) {
+      const { result, filesUsed, passages, model, duration } = await worker.execute(task, approach, description, context);
+      return { result, filesUsed, passages, model, duration };
+    },
+  };
+}
+
+export const librarianWorkerDefinition: WorkerDefinition<LibrarianWorker> = createLibrarianWorkerDefinition();
+
+/**
+ * The code worker with its own languages, repair count or sandbox limits; register it
+ * instead of passing `code: true`:
+ *
+ *     new WorkerRegistry().register(createCodeWorkerDefinition({ sandbox: { timeoutMs: 30_000 } }));
+ */
+export function createCodeWorkerDefinition(options: Omit<CodeWorkerOptions, keyof WorkerOptions> = {}): WorkerDefinition {
+  return {
+    name: 'code',
+    description: 'Code execution agent that writes a JavaScript or Python script and runs it in a sandbox without network access',
+    useFor: 'calculations and data processing',
+    capabilities: { codeExecution: true },
+    async execute({ connector, model, maxTokens, temperature, task, approach, description, context }) {
+      const { result, code, model: usedModel, duration } = await new CodeWorker(connector, { ...options, model, maxTokens, temperature })
+        .execute(task, approach, description, context);
+      return { result, code, model: usedModel, duration };
+    },
+  };
+}
+
+export const codeWorkerDefinition: WorkerDefinition = createCodeWorkerDefinition();
+
+// The code worker runs scripts the model writes, so it is only registered on request
+export const BUILTIN_WORKERS: WorkerDefinition<any>[] = [
+  simpleWorkerDefinition,
+  searchWorkerDefinition,
+  librarianWorkerDefinition,
+];
+
+export interface WorkerRegistryOptions {
+  /** Start with the simple, search and librarian workers (default: true) */
+  builtins?: boolean;
+  /** Also register the code worker, which runs model-written scripts in a local sandbox (default: false) */
+  code?: boolean;
+}
+
+/**
+ * The worker types an orchestrator can dispatch approaches to, in the order the planner
+ * sees them. Register domain workers next to the built-in ones:
+ *
+ *     const workers = new WorkerRegistry().register({ name: 'legal', description: '...', execute });
+ *     new FlexibleOrchestrator(connector, { workers });
+ */
+export class WorkerRegistry {
+  private workers: Map<string, WorkerDefinition<any>> = new Map();
+
+  constructor(options: WorkerRegistryOptions = {}) {
+    if (options.builtins !== false) {
+      BUILTIN_WORKERS.forEach(worker => this.register(worker));
+    }
+    if (options.code) {
+      this.register(codeWorkerDefinition);
+    }
+  }
+
+  register<State>(definition: WorkerDefinition<State>): this {
+    if (!/^[a-z][a-z0-9-]*$/.test(definition.name)) {
+      throw new Error(`Invalid worker name "${definition.name}": use lowercase letters, digits and dashes`);
+    }
+    if (this.workers.has(definition.name)) {
+      throw new Error(`Worker "${definition.name}" is already registered`);
+    }
+    this.workers.set(definition.name, definition);
+    return this;
+  }
+
+  unregister(name: AgentType): boolean {
+    return this.workers.delete(name);
+  }
+
+  get(name: AgentType): WorkerDefinition<any> | undefined {
+    return this.workers.get(name);
+  }
+
+  has(name: AgentType): boolean {
+    return this.workers.has(name);
+  }
+
+  names(): AgentType[] {
+    return [...this.workers.keys()];
+  }
+
+  list(): WorkerDefinition<any>[] {
+    return [...this.workers.values()];
+  }
+}
@@ -1,4 +1,4 @@
-import { OpenAIConnector } from '../connectors/index.js';
+import { LLMConnector } from '../connectors/index.js';
 import { WorkerOptions } from '../types/index.js';
 
 export interface SimpleWorkerResult {
@@ -9,10 +9,10 @@ export interface SimpleWorkerResult {
 }
 
 export class SimpleWorker {
-  private connector: OpenAIConnector;
+  private connector: LLMConnector;
   private options: Required<WorkerOptions>;
 
-  constructor(connector: OpenAIConnector, options: WorkerOptions = {}) {
+  constructor(connector: LLMConnector, options: WorkerOptions = {}) {
     this.connector = connector;
     this.options = {
       model: options.model || 'gpt-4.1-mini',
@@ -25,7 +25,8 @@ export class SimpleWorker {
     task: string,
     approach: string,
     description: string,
-    context?: Record<string, any>
+    context?: Record<string, any>,
+    onDelta?: (delta: string) => void
   ): Promise<SimpleWorkerResult> {
     const startTime = Date.now();
     
@@ -47,19 +48,36 @@ Your detailed result here
 </result>`;
 
     try {
-      const response = await this.connector.llmCall(
-        prompt,
-        this.options.model,
-        this.options.maxTokens,
-        this.options.temperature,
-        `SIMPLE-WORKER (${approach})`
-      );
+      const role = `SIMPLE-WORKER (${approach})`;
+      let content = '';
+
+      if (onDelta) {
+        for await (const delta of this.connector.llmStream(
+          prompt,
+          this.options.model,
+          this.options.maxTokens,
+          this.options.temperature,
+          role
+        )) {
+          content += delta;
+          onDelta(delta);
+        }
+      } else {
+        const response = await this.connector.llmCall(
+          prompt,
+          this.options.model,
+          this.options.maxTokens,
+          this.options.temperature,
+          role
+        );
+        content = response.content;
+      }
 
       const duration = Date.now() - startTime;
 
       // Extract result from XML tags
-      const resultMatch = response.content.match(/<result>([\s\S]*?)<\/result>/);
-      const result = resultMatch ? resultMatch[1].trim() : response.content;
+      const resultMatch = content.match(/<result>([\s\S]*?)<\/result>/);
+      const result = resultMatch ? resultMatch[1].trim() : content;
 
       return {
         approach,
@@ -1,33 +1,71 @@
-import { OpenAIConnector, WebSearchResponse } from '../connectors/index.js';
-import { extractSingleXml } from '../utils/xml-parser.js';
+import { LLMConnector, WebSearchOptions, WebSearchResponse } from '../connectors/index.js';
+import { PageContent, SearchHit, SearchProvider } from '../search/index.js';
+import { WorkerOptions, WorkerSource } from '../types/index.js';
+import { markCitations } from '../utils/citations.js';
+import { ContextBudget } from '../utils/context-budget.js';
+import { inDomains } from '../utils/domains.js';
+import { extractSingleXml, extractXml } from '../utils/xml-parser.js';
 
-export interface WebSearchWorkerOptions {
-  model?: string;
+export interface WebSearchWorkerOptions extends WorkerOptions {
+  /** Context size, user location and domain filters of the search; a `provider` applies the domain filters */
+  search?: WebSearchOptions;
+  /**
+   * Backend the worker searches and reads pages with itself: it plans queries, reads the
+   * best results and answers from them. Without one the model provider's search tool is used.
+   */
+  provider?: SearchProvider;
+  /** Queries planned per approach with a `provider` (default: 3) */
+  maxQueries?: number;
+  /** Results taken from each query (default: 5) */
+  resultsPerQuery?: number;
+  /** Pages read and given to the model (default: 4) */
+  maxPages?: number;
+  /** Characters of each page the model sees (default: 6000) */
+  pageChars?: number;
+  /** Cuts the pages read with a `provider`, or the context of the fallback, to fit the model's window */
+  contextBudget?: ContextBudget;
 }
 
 export interface WebSearchResult {
   approach: string;
   result: string;
-  sources?: Array<{
-    title: string;
-    url: string;
-    snippet?: string;
-  }>;
+  sources?: WorkerSource[];
   searchPerformed: boolean;
 }
 
 export class WebSearchWorker {
-  private connector: OpenAIConnector;
-  private options: Required<WebSearchWorkerOptions>;
+  private connector: LLMConnector;
+  private options: Required<Omit<WebSearchWorkerOptions, 'provider' | 'contextBudget'>>;
+  private provider?: SearchProvider;
+  private contextBudget: ContextBudget;
 
-  constructor(connector: OpenAIConnector, options: WebSearchWorkerOptions = {}) {
+  constructor(connector: LLMConnector, options: WebSearchWorkerOptions = {}) {
     this.connector = connector;
     this.options = {
       model: options.model || 'gpt-4.1',
+      maxTokens: options.maxTokens || 1500,
+      temperature: options.temperature ?? 0.3,
+      search: options.search || {},
+      maxQueries: options.maxQueries || 3,
+      resultsPerQuery: options.resultsPerQuery || 5,
+      maxPages: options.maxPages || 4,
+      pageChars: options.pageChars || 6000,
     };
+    this.provider = options.provider;
+    this.contextBudget = options.contextBudget || new ContextBudget();
   }
 
-  async execute(task: string, approach: string, description: string, context?: Record<string, any>): Promise<WebSearchResult> {
+  /**
+   * `cite` gives each source its citation id; without it sources are numbered `S1`, `S2`, ...
+   * in the order the search returned them.
+   */
+  async execute(
+    task: string,
+    approach: string,
+    description: string,
+    context?: Record<string, any>,
+    cite?: (source: WorkerSource) => string
+  ): Promise<WebSearchResult> {
     const contextInfo = context && Object.keys(context).length > 0 
       ? `\n\nAdditional context: ${JSON.stringify(context, null, 2)}`
       : '';
@@ -36,27 +74,35 @@ export class WebSearchWorker {
     const searchInput = this.createSearchInput(task, approach, description, contextInfo);
 
     try {
-      // Use OpenAI's web search tool
+      if (this.provider) {
+        return await this.executeWithProvider(this.provider, task, approach, description, contextInfo, cite);
+      }
+
+      // Use the model provider's web search tool
       const response = await this.connector.webSearchCall(
         searchInput,
         this.options.model,
-        `WEB-SEARCH-WORKER (${approach})`
+        `WEB-SEARCH-WORKER (${approach})`,
+        this.options.search,
+        this.options.maxTokens
       );
 
+      const sources = response.sources?.map((source, index) => ({ ...source, id: cite ? cite(source) : `S${index + 1}` }));
+
       // Format the result with search findings
-      const result = this.formatSearchResult(response, approach, description);
+      const result = this.formatSearchResult({ ...response, sources }, approach, description);
 
       return {
         approach,
         result,
-        sources: response.sources,
+        sources,
         searchPerformed: true,
       };
     } catch (error) {
       // Fallback to regular worker without web search
       console.warn(`Web search failed for ${approach}, falling back to regular processing: ${error}`);
       
-      const fallbackResult = await this.executeFallback(task, approach, description, context);
+      const fallbackResult = await this.executeFallback(task, approach, description, contextInfo);
       
       return {
         approach,
@@ -67,6 +113,138 @@ export class WebSearchWorker {
     }
   }
 
+  // Plans queries, gathers results across them, reads the best pages and answers from those alone
+  private async executeWithProvider(
+    provider: SearchProvider,
+    task: string,
+    approach: string,
+    description: string,
+    contextInfo: string,
+    cite?: (source: WorkerSource) => string
+  ): Promise<WebSearchResult> {
+    const role = `WEB-SEARCH-WORKER (${approach})`;
+    const queries = await this.planQueries(task, approach, description, contextInfo, role);
+
+    const searches = await Promise.allSettled(queries.map(query => provider.search(query, { limit: this.options.resultsPerQuery })));
+    const failedSearch = searches.find((search): search is PromiseRejectedResult => search.status === 'rejected');
+    const hitLists = searches.flatMap(search => (search.status === 'fulfilled' ? [search.value.filter(hit => this.permitted(hit.url))] : []));
+    if (hitLists.length === 0) {
+      throw new Error(`${provider.name} search failed: ${failedSearch?.reason}`);
+    }
+
+    // Top results of every query come before the second results of any
+    const candidates = new Map<string, SearchHit>();
+    for (let rank = 0; rank < this.options.resultsPerQuery; rank++) {
+      hitLists.forEach(hits => {
+        if (hits[rank] && !candidates.has(hits[rank].url)) {
+          candidates.set(hits[rank].url, hits[rank]);
+        }
+      });
+    }
+
+    const pages = await this.readPages(provider, [...candidates.values()]);
+    if (pages.length === 0) {
+      throw new Error(`none of the ${candidates.size} ${provider.name} results for ${queries.map(query => `"${query}"`).join(', ')} could be read`);
+    }
+
+    const sources: WorkerSource[] = pages.map(({ hit, page }, index) => {
+      const source = { title: page.title || hit.title, url: hit.url, snippet: hit.snippet };
+      return { ...source, id: cite ? cite(source) : `S${index + 1}` };
+    });
+    const { prompt } = await this.contextBudget.fit({
+      role,
+      model: this.options.model,
+      maxTokens: this.options.maxTokens,
+      inputs: pages.map(({ page }, index) => ({
+        input: `page ${sources[index].id}`,
+        text: page.text.length > this.options.pageChars ? `${page.text.slice(0, this.options.pageChars)}\n[page truncated]` : page.text,
+      })),
+      build: texts => this.getAnswerPrompt(task, approach, description, contextInfo, sources, texts),
+    });
+
+    const response = await this.connector.llmCall(prompt, this.options.model, this.options.maxTokens, this.options.temperature, role);
+    const answer = extractSingleXml(response.content, 'result') || response.content;
+
+    return {
+      approach,
+      result: this.formatSearchResult({ content: answer.trim(), model: this.options.model, sources }, approach, description),
+      sources,
+      searchPerformed: true,
+    };
+  }
+
+  private getAnswerPrompt(
+    task: string,
+    approach: string,
+    description: string,
+    contextInfo: string,
+    sources: WorkerSource[],
+    texts: string[]
+  ): string {
+    const pagesInfo = sources.map((source, index) => `[${source.id}] ${source.title} - ${source.url}\n${texts[index]}`).join('\n\n');
+
+    return `You are a specialized worker that researched part of a larger task on the web.
+
+Original Task: ${task}
+Your Approach: ${approach}
+Approach Description: ${description}${contextInfo}
+
+Pages read:
+${pagesInfo}
+
+Execute this approach using the pages above. Cite every claim you take from a page with its ID in square brackets, e.g. [${sources[0].id}], and say so where the pages do not cover something.
+
+Format your response as:
+<result>
+Your detailed result here
+</result>`;
+  }
+
+  private async planQueries(task: string, approach: string, description: string, contextInfo: string, role: string): Promise<string[]> {
+    const prompt = `You are planning web searches for one approach to a larger task.
+
+Original Task: ${task}
+Your Approach: ${approach}
+Approach Description: ${description}${contextInfo}
+
+Write up to ${this.options.maxQueries} short search engine queries that would find the pages this approach needs. Make them different from each other.
+
+Format your response as:
+<query>first query</query>
+<query>second query</query>`;
+
+    const response = await this.connector.llmCall(prompt, this.options.model, 300, 0.2, role);
+    const queries = extractXml(response.content, 'query').map(query => query.trim()).filter(Boolean);
+    return queries.length > 0 ? queries.slice(0, this.options.maxQueries) : [`${approach} ${task}`.slice(0, 200)];
+  }
+
+  private permitted(url: string): boolean {
+    const { allowedDomains, blockedDomains } = this.options.search;
+    return (!allowedDomains?.length || inDomains(url, allowedDomains))
+      && (!blockedDomains?.length || !inDomains(url, blockedDomains));
+  }
+
+  // Reads candidates in order until enough pages could be read; unreadable pages are skipped
+  private async readPages(provider: SearchProvider, hits: SearchHit[]): Promise<Array<{ hit: SearchHit; page: PageContent }>> {
+    const pages: Array<{ hit: SearchHit; page: PageContent }> = [];
+    let next = 0;
+
+    while (pages.length < this.options.maxPages && next < hits.length) {
+      const batch = hits.slice(next, next + this.options.maxPages - pages.length);
+      next += batch.length;
+      const reads = await Promise.allSettled(batch.map(hit => provider.read(hit)));
+      reads.forEach((read, i) => {
+        if (read.status === 'fulfilled' && read.value.text.trim()) {
+          pages.push({ hit: batch[i], page: read.value });
+        } else if (read.status === 'rejected') {
+          console.warn(`Skipped ${batch[i].url}: ${read.reason instanceof Error ? read.reason.message : read.reason}`);
+        }
+      });
+    }
+
+    return pages;
+  }
+
   private createSearchInput(task: string, approach: string, description: string, contextInfo: string): string {
     return `Task: ${task}
 Approach: ${approach}
@@ -75,15 +253,16 @@ Description: ${description}${contextInfo}
 Based on the above task and approach, search for current, relevant information that would help complete this task effectively. Focus on finding recent data, facts, or insights that would be valuable for the "${approach}" approach.`;
   }
 
-  private formatSearchResult(response: WebSearchResponse, approach: string, description: string): string {
+  // Links to the sources in the answer become citation markers, and the sources are listed by id
+  private formatSearchResult(response: Omit<WebSearchResponse, 'sources'> & { sources?: WorkerSource[] }, approach: string, description: string): string {
     let result = `Using the "${approach}" approach with web search:\n\n`;
     
-    result += response.content;
+    result += markCitations(response.content, response.sources || []);
     
     if (response.sources && response.sources.length > 0) {
       result += '\n\nSources consulted:\n';
-      response.sources.forEach((source, index) => {
-        result += `${index + 1}. ${source.title} - ${source.url}\n`;
+      response.sources.forEach(source => {
+        result += `[${source.id}] ${source.title} - ${source.url}\n`;
         if (source.snippet) {
           result += `   ${source.snippet}\n`;
         }
@@ -93,12 +272,8 @@ Based on the above task and approach, search for current, relevant information t
     return result;
   }
 
-  private async executeFallback(task: string, approach: string, description: string, context?: Record<string, any>): Promise<string> {
-    const contextInfo = context && Object.keys(context).length > 0 
-      ? `\n\nAdditional context: ${JSON.stringify(context, null, 2)}`
-      : '';
-
-    const prompt = `You are a specialized worker tasked with executing a specific approach to solve part of a larger task.
+  private getFallbackPrompt(task: string, approach: string, description: string, contextInfo: string): string {
+    return `You are a specialized worker tasked with executing a specific approach to solve part of a larger task.
 
 Original Task: ${task}
 Your Approach: ${approach}
@@ -112,15 +287,20 @@ Format your response as:
 <result>
 Your detailed result here
 </result>`;
+  }
+
+  private async executeFallback(task: string, approach: string, description: string, contextInfo: string): Promise<string> {
+    const role = `FALLBACK-WORKER (${approach})`;
 
     try {
-      const response = await this.connector.llmCall(
-        prompt,
-        this.options.model,
-        1500,
-        0.7,
-        `FALLBACK-WORKER (${approach})`
-      );
+      const { prompt } = await this.contextBudget.fit({
+        role,
+        model: this.options.model,
+        maxTokens: this.options.maxTokens,
+        inputs: [{ input: 'context', text: contextInfo }],
+        build: ([context]) => this.getFallbackPrompt(task, approach, description, context),
+      });
+      const response = await this.connector.llmCall(prompt, this.options.model, this.options.maxTokens, this.options.temperature, role);
 
       const result = extractSingleXml(response.content, 'result') || response.content;
       return `${result.trim()}\n\n[Note: This response used training data only as web search was unavailable]`;
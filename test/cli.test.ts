@@ -0,0 +1,99 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import path from 'path';
+import { execFile } from 'child_process';
+import { fileURLToPath } from 'url';
+
+const CLI = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'src', 'cli.ts');
+
+const PLAN = `<approach>Recall</approach><agent>simple</agent><description>Recall who founded Sinequa</description>
+<approach>Cross-check</approach><agent>simple</agent><description>Check the founding year</description>`;
+
+// A stand-in API that records the paths it is called on and answers with `reply(body)`
+function startApi(reply: (body: any) => unknown): Promise<{ server: http.Server; url: string; paths: string[] }> {
+  const paths: string[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => raw += chunk);
+    req.on('end', () => {
+      paths.push(req.url || '');
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(reply(JSON.parse(raw || '{}'))));
+    });
+  });
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, paths });
+    });
+  });
+}
+
+function runCli(args: string[], env: Record<string, string>): Promise<{ code: number; stdout: string; stderr: string }> {
+  return new Promise(resolve => {
+    execFile(process.execPath, ['--import', 'tsx', CLI, ...args], {
+      env: { PATH: process.env.PATH || '', HOME: process.env.HOME || '', ...env },
+      timeout: 60_000,
+    }, (error, stdout, stderr) => {
+      resolve({ code: error ? (typeof error.code === 'number' ? error.code : 1) : 0, stdout, stderr });
+    });
+  });
+}
+
+describe('CLI', () => {
+  const servers: http.Server[] = [];
+
+  afterEach(() => {
+    servers.splice(0).forEach(server => server.close());
+  });
+
+  it('should keep hosted providers off the --base-url of an openai-compatible server', async () => {
+    const local = await startApi(body => ({
+      id: 'chat-1',
+      object: 'chat.completion',
+      created: 0,
+      model: body.model,
+      choices: [{
+        index: 0,
+        finish_reason: 'stop',
+        message: { role: 'assistant', content: body.messages.some((m: any) => String(m.content).includes('synthesis')) ? 'Sinequa was founded by Alexandre Bilger.' : '<result>Alexandre Bilger</result>' },
+      }],
+      usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+    }));
+    const anthropic = await startApi(body => ({
+      id: 'msg-1',
+      type: 'message',
+      role: 'assistant',
+      model: body.model,
+      content: [{ type: 'text', text: PLAN }],
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 10, output_tokens: 5 },
+    }));
+    servers.push(local.server, anthropic.server);
+
+    const run = await runCli([
+      'orchestrate', 'Find the name of the founder of Sinequa',
+      '--provider', 'openai-compatible',
+      '--base-url', `${local.url}/v1`,
+      '--model', 'llama3.1',
+      '--role-provider', 'orchestrator=anthropic',
+      '--role-model', 'orchestrator=claude-haiku-4-5',
+      '--agents', 'simple',
+      '--no-structured-plans',
+      '--no-cache',
+      '--no-stream',
+      '--output', 'json',
+    ], {
+      ANTHROPIC_API_KEY: 'test-key',
+      // Where the Anthropic SDK sends requests when no base URL is passed to it
+      ANTHROPIC_BASE_URL: anthropic.url,
+    });
+
+    expect(run.stderr).not.toContain('Error');
+    expect(run.code).toBe(0);
+    expect(JSON.parse(run.stdout).synthesis).toBe('Sinequa was founded by Alexandre Bilger.');
+    expect(anthropic.paths).toEqual(['/v1/messages']);
+    expect(local.paths.length).toBeGreaterThanOrEqual(3);
+    expect(local.paths.every(requestPath => requestPath === '/v1/chat/completions')).toBe(true);
+  }, 90_000);
+});
@@ -0,0 +1,719 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  OpenAIConnector,
+  OpenAICompatibleConnector,
+  AnthropicConnector,
+  MockConnector,
+  CachingConnector,
+  FileCacheStore,
+  MemoryCacheStore,
+  RequestScheduler,
+  CassetteRecorder,
+  RecordingConnector,
+  ReplayConnector,
+  createConnector,
+  withRetry,
+} from '../src/connectors/index.js';
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  body: any;
+}
+
+interface StubReply {
+  status: number;
+  body: any;
+  headers?: Record<string, string>;
+  delayMs?: number;
+}
+
+function startStub(handler: (req: RecordedRequest) => StubReply) {
+  const requests: RecordedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      const recorded = { method: req.method, url: req.url, body: raw ? JSON.parse(raw) : undefined };
+      requests.push(recorded);
+      const { status, body, headers, delayMs } = handler(recorded);
+      setTimeout(() => {
+        if (res.destroyed) return;
+        res.writeHead(status, { 'content-type': 'application/json', ...headers });
+        res.end(JSON.stringify(body));
+      }, delayMs || 0);
+    });
+  });
+
+  return new Promise<{ server: http.Server; origin: string; requests: RecordedRequest[] }>(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, origin: `http://127.0.0.1:${port}`, requests });
+    });
+  });
+}
+
+// A Responses API reply to a web_search_preview request, as returned by the API
+const openAIWebSearchFixture = JSON.parse(fs.readFileSync(
+  path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'openai-web-search.json'),
+  'utf-8'
+));
+
+describe('OpenAIConnector', () => {
+  it('should map Responses API input/output token usage', async () => {
+    const stub = await startStub(() => ({
+      status: 200,
+      body: {
+        id: 'resp_1',
+        object: 'response',
+        created_at: 0,
+        status: 'completed',
+        model: 'gpt-4.1-2025-04-14',
+        output: [
+          {
+            type: 'message',
+            id: 'msg_1',
+            status: 'completed',
+            role: 'assistant',
+            content: [{ type: 'output_text', text: 'Hello from the Responses API', annotations: [] }],
+          },
+        ],
+        usage: { input_tokens: 30, output_tokens: 7, total_tokens: 37 },
+      },
+    }));
+
+    try {
+      const connector = new OpenAIConnector('test-key', `${stub.origin}/v1`);
+      const response = await connector.llmCall('Say hello', 'gpt-4.1', 256);
+
+      expect(stub.requests[0].url).toBe('/v1/responses');
+      expect(stub.requests[0].body.max_output_tokens).toBe(256);
+      expect(response.content).toBe('Hello from the Responses API');
+      expect(response.usage).toEqual({ prompt_tokens: 30, completion_tokens: 7, total_tokens: 37 });
+    } finally {
+      stub.server.close();
+    }
+  });
+
+  it('should turn url_citation annotations into sources with their ranges in the answer', async () => {
+    const stub = await startStub(() => ({ status: 200, body: openAIWebSearchFixture }));
+
+    try {
+      const connector = new OpenAIConnector('test-key', `${stub.origin}/v1`);
+      const response = await connector.webSearchCall('Who founded Sinequa?', 'gpt-4.1', 'WEB-SEARCH-WORKER', {}, 800);
+
+      expect(stub.requests[0].body.tools).toEqual([{ type: 'web_search_preview' }]);
+      expect(stub.requests[0].body.max_output_tokens).toBe(800);
+      expect(response.content).toBe(openAIWebSearchFixture.output[1].content[0].text);
+      expect(response.usage).toEqual({ prompt_tokens: 312, completion_tokens: 148, total_tokens: 460 });
+
+      // The second citation of the Wikipedia page does not add another source
+      expect(response.sources).toEqual([
+        {
+          title: 'Sinequa - Wikipedia',
+          url: 'https://en.wikipedia.org/wiki/Sinequa?utm_source=openai',
+          snippet: 'Sinequa was founded in 2002 by Alexandre Bilger and Xavier Pornain.',
+          startIndex: 68,
+          endIndex: 145,
+        },
+        {
+          title: 'About Sinequa | Sinequa',
+          url: 'https://www.sinequa.com/company/?utm_source=openai',
+          snippet: 'The company is headquartered in Paris and sells an enterprise search platform.',
+          startIndex: 225,
+          endIndex: 292,
+        },
+        {
+          title: 'ChapsVision to acquire Sinequa | Reuters',
+          url: 'https://www.reuters.com/markets/deals/chapsvision-acquire-sinequa-2024-05-02/?utm_source=openai',
+          snippet: 'In 2024 it was acquired by the French software group ChapsVision.',
+          startIndex: 360,
+          endIndex: 472,
+        },
+      ]);
+      response.sources!.forEach(source => {
+        expect(response.content.slice(source.startIndex, source.endIndex)).toContain(source.url);
+      });
+    } finally {
+      stub.server.close();
+    }
+  });
+
+  it('should count annotation ranges across every text part of the output', async () => {
+    const message = (text: string, url: string) => ({
+      type: 'message',
+      id: `msg_${url.length}`,
+      status: 'completed',
+      role: 'assistant',
+      content: [{
+        type: 'output_text',
+        text,
+        annotations: [{ type: 'url_citation', start_index: text.indexOf('(['), end_index: text.length, url, title: url }],
+      }],
+    });
+    const stub = await startStub(() => ({
+      status: 200,
+      body: {
+        ...openAIWebSearchFixture,
+        output: [
+          message('First claim. ([a.com](https://a.com/))', 'https://a.com/'),
+          message(' Second claim. ([b.org](https://b.org/))', 'https://b.org/'),
+        ],
+      },
+    }));
+
+    try {
+      const response = await new OpenAIConnector('test-key', `${stub.origin}/v1`).webSearchCall('query');
+
+      expect(response.content).toBe('First claim. ([a.com](https://a.com/)) Second claim. ([b.org](https://b.org/))');
+      expect(response.sources!.map(source => response.content.slice(source.startIndex, source.endIndex))).toEqual([
+        '([a.com](https://a.com/))',
+        '([b.org](https://b.org/))',
+      ]);
+    } finally {
+      stub.server.close();
+    }
+  });
+
+  it('should send search settings and drop sources from blocked domains', async () => {
+    const stub = await startStub(() => ({ status: 200, body: openAIWebSearchFixture }));
+
+    try {
+      const connector = new OpenAIConnector('test-key', `${stub.origin}/v1`);
+      const located = await connector.webSearchCall('Who founded Sinequa?', 'gpt-4.1', 'WEB-SEARCH-WORKER', {
+        contextSize: 'high',
+        userLocation: { country: 'FR', city: 'Paris' },
+        blockedDomains: ['reuters.com'],
+      });
+      await connector.webSearchCall('Who founded Sinequa?', 'gpt-4.1', 'WEB-SEARCH-WORKER', { allowedDomains: ['wikipedia.org'] });
+
+      expect(stub.requests[0].body.tools).toEqual([{
+        type: 'web_search_preview',
+        search_context_size: 'high',
+        user_location: { type: 'approximate', country: 'FR', city: 'Paris' },
+      }]);
+      expect(located.sources!.map(source => source.url)).not.toContain(
+        'https://www.reuters.com/markets/deals/chapsvision-acquire-sinequa-2024-05-02/?utm_source=openai'
+      );
+      expect(located.sources).toHaveLength(2);
+      expect(stub.requests[1].body.tools).toEqual([{ type: 'web_search', filters: { allowed_domains: ['wikipedia.org'] } }]);
+    } finally {
+      stub.server.close();
+    }
+  });
+});
+
+describe('OpenAICompatibleConnector', () => {
+  let stub: Awaited<ReturnType<typeof startStub>>;
+
+  beforeAll(async () => {
+    stub = await startStub(() => ({
+      status: 200,
+      body: {
+        id: 'chatcmpl-1',
+        object: 'chat.completion',
+        created: 0,
+        model: 'llama3.1',
+        choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: 'Hello from llama' } }],
+        usage: { prompt_tokens: 12, completion_tokens: 4, total_tokens: 16 },
+      },
+    }));
+  });
+
+  afterAll(() => {
+    stub.server.close();
+  });
+
+  it('should send prompts to /chat/completions and log the call', async () => {
+    const connector = new OpenAICompatibleConnector(`${stub.origin}/v1`);
+
+    const response = await connector.llmCall('Say hello', 'llama3.1', 200, 0.2, 'ORCHESTRATOR');
+
+    expect(response.content).toBe('Hello from llama');
+    expect(response.usage).toEqual({ prompt_tokens: 12, completion_tokens: 4, total_tokens: 16 });
+
+    const request = stub.requests[stub.requests.length - 1];
+    expect(request.url).toBe('/v1/chat/completions');
+    expect(request.body).toMatchObject({
+      model: 'llama3.1',
+      messages: [{ role: 'user', content: 'Say hello' }],
+      max_tokens: 200,
+      temperature: 0.2,
+    });
+
+    const logs = connector.getCallLogs();
+    expect(logs).toHaveLength(1);
+    expect(logs[0].role).toBe('ORCHESTRATOR');
+  });
+
+  it('should reject hosted-tool calls with a clear error', async () => {
+    const connector = new OpenAICompatibleConnector(`${stub.origin}/v1`);
+
+    await expect(connector.webSearchCall('query')).rejects.toThrow(/Web search is not supported/);
+    await expect(connector.uploadFile('doc.pdf')).rejects.toThrow(/File uploads are not supported/);
+    await expect(connector.fileBasedCall('text', ['file-1'])).rejects.toThrow(/File-based calls are not supported/);
+  });
+
+  it('should request JSON schema output through response_format', async () => {
+    const connector = new OpenAICompatibleConnector(`${stub.origin}/v1`);
+    const schema = { type: 'object', properties: { answer: { type: 'string' } }, required: ['answer'], additionalProperties: false };
+
+    await connector.structuredCall('Answer in JSON', { name: 'answer', schema }, 'llama3.1', 200, 0.2, 'ORCHESTRATOR');
+
+    expect(stub.requests[stub.requests.length - 1].body.response_format).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'answer', schema, strict: true },
+    });
+  });
+});
+
+describe('AnthropicConnector', () => {
+  let stub: Awaited<ReturnType<typeof startStub>>;
+
+  beforeAll(async () => {
+    stub = await startStub(request => {
+      if (request.body.tool_choice?.type === 'tool') {
+        return {
+          status: 200,
+          body: {
+            id: 'msg_2',
+            type: 'message',
+            role: 'assistant',
+            model: request.body.model,
+            stop_reason: 'tool_use',
+            stop_sequence: null,
+            content: [{ type: 'tool_use', id: 'toolu_1', name: request.body.tool_choice.name, input: { answer: 'Alexandre Bilger' } }],
+            usage: { input_tokens: 20, output_tokens: 5 },
+          },
+        };
+      }
+      const isSearch = Array.isArray(request.body.tools);
+      return {
+        status: 200,
+        body: {
+          id: 'msg_1',
+          type: 'message',
+          role: 'assistant',
+          model: request.body.model,
+          stop_reason: 'end_turn',
+          stop_sequence: null,
+          content: isSearch
+            ? [
+                { type: 'server_tool_use', id: 'srvtoolu_1', name: 'web_search', input: { query: 'sinequa founder' } },
+                {
+                  type: 'web_search_tool_result',
+                  tool_use_id: 'srvtoolu_1',
+                  content: [
+                    { type: 'web_search_result', url: 'https://www.sinequa.com/company/', title: 'About Sinequa', encrypted_content: 'x', page_age: null },
+                    { type: 'web_search_result', url: 'https://en.wikipedia.org/wiki/Sinequa', title: 'Sinequa - Wikipedia', encrypted_content: 'y', page_age: null },
+                  ],
+                },
+                {
+                  type: 'text',
+                  text: 'Sinequa was founded by Alexandre Bilger.',
+                  citations: [
+                    {
+                      type: 'web_search_result_location',
+                      url: 'https://en.wikipedia.org/wiki/Sinequa',
+                      title: 'Sinequa - Wikipedia',
+                      cited_text: 'Sinequa was founded in 2002 by Alexandre Bilger.',
+                      encrypted_index: 'z',
+                    },
+                  ],
+                },
+              ]
+            : [{ type: 'text', text: 'Hello from Claude', citations: null }],
+          usage: { input_tokens: 20, output_tokens: 5 },
+        },
+      };
+    });
+  });
+
+  afterAll(() => {
+    stub.server.close();
+  });
+
+  it('should send prompts to /v1/messages and map usage', async () => {
+    const connector = new AnthropicConnector('test-key', stub.origin);
+
+    const response = await connector.llmCall('Say hello', 'claude-sonnet-4-6', 300, 0.5, 'SYNTHESIZER');
+
+    expect(response.content).toBe('Hello from Claude');
+    expect(response.usage).toEqual({ prompt_tokens: 20, completion_tokens: 5, total_tokens: 25 });
+
+    const request = stub.requests[stub.requests.length - 1];
+    expect(request.url).toBe('/v1/messages');
+    expect(request.body).toMatchObject({
+      model: 'claude-sonnet-4-6',
+      max_tokens: 300,
+      temperature: 0.5,
+      messages: [{ role: 'user', content: 'Say hello' }],
+    });
+    expect(connector.getCallLogs()[0].role).toBe('SYNTHESIZER');
+  });
+
+  it('should use the web search tool and collect cited sources first', async () => {
+    const connector = new AnthropicConnector('test-key', stub.origin);
+
+    const response = await connector.webSearchCall('Who founded Sinequa?');
+
+    expect(stub.requests[stub.requests.length - 1].body.tools[0]).toMatchObject({ type: 'web_search_20250305', name: 'web_search' });
+    expect(response.content).toBe('Sinequa was founded by Alexandre Bilger.');
+    expect(response.sources).toEqual([
+      {
+        title: 'Sinequa - Wikipedia',
+        url: 'https://en.wikipedia.org/wiki/Sinequa',
+        snippet: 'Sinequa was founded in 2002 by Alexandre Bilger.',
+        startIndex: 0,
+        endIndex: 40,
+      },
+      { title: 'About Sinequa', url: 'https://www.sinequa.com/company/' },
+    ]);
+  });
+
+  it('should pass the user location and domain filters to the web search tool', async () => {
+    const connector = new AnthropicConnector('test-key', stub.origin);
+
+    await connector.webSearchCall('Who founded Sinequa?', undefined, undefined, {
+      contextSize: 'low',
+      userLocation: { country: 'FR', timezone: 'Europe/Paris' },
+      blockedDomains: ['example.com'],
+    }, 900);
+
+    expect(stub.requests[stub.requests.length - 1].body.max_tokens).toBe(900);
+    expect(stub.requests[stub.requests.length - 1].body.tools).toEqual([{
+      type: 'web_search_20250305',
+      name: 'web_search',
+      max_uses: 5,
+      user_location: { type: 'approximate', country: 'FR', timezone: 'Europe/Paris' },
+      blocked_domains: ['example.com'],
+    }]);
+  });
+
+  it('should return the input of a forced tool call as structured output', async () => {
+    const connector = new AnthropicConnector('test-key', stub.origin);
+    const schema = { type: 'object', properties: { answer: { type: 'string' } }, required: ['answer'] };
+
+    const response = await connector.structuredCall('Who founded Sinequa?', { name: 'answer', schema });
+
+    const request = stub.requests[stub.requests.length - 1];
+    expect(request.body.tools).toEqual([{ name: 'answer', input_schema: schema }]);
+    expect(request.body.tool_choice).toEqual({ type: 'tool', name: 'answer' });
+    expect(JSON.parse(response.content)).toEqual({ answer: 'Alexandre Bilger' });
+  });
+
+  it('should send loaded documents inline as document blocks', async () => {
+    const connector = new AnthropicConnector('test-key', stub.origin);
+    const file = await connector.uploadFile('README.md');
+
+    await connector.fileBasedCall('Summarize the README', [file.id], 'claude-sonnet-4-6', 'LIBRARIAN-WORKER (Docs)', 700);
+
+    expect(stub.requests[stub.requests.length - 1].body.max_tokens).toBe(700);
+    const content = stub.requests[stub.requests.length - 1].body.messages[0].content;
+    expect(content[0]).toMatchObject({ type: 'document', title: 'README.md', source: { type: 'text', media_type: 'text/plain' } });
+    expect(content[1]).toEqual({ type: 'text', text: 'Summarize the README' });
+  });
+});
+
+describe('Retry policy', () => {
+  const completion = {
+    id: 'chatcmpl-1',
+    object: 'chat.completion',
+    created: 0,
+    model: 'llama3.1',
+    choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: 'Recovered' } }],
+  };
+
+  it('should retry rate limits after the Retry-After delay and record the retries', async () => {
+    let calls = 0;
+    const stub = await startStub(() =>
+      ++calls === 1
+        ? { status: 429, body: { error: { message: 'Rate limit reached' } }, headers: { 'retry-after-ms': '20' } }
+        : { status: 200, body: completion }
+    );
+
+    try {
+      const connector = new OpenAICompatibleConnector(`${stub.origin}/v1`);
+      const response = await connector.llmCall('Say hello', 'llama3.1', 200, 0.2, 'ORCHESTRATOR');
+
+      expect(response.content).toBe('Recovered');
+      expect(stub.requests).toHaveLength(2);
+
+      const [log] = connector.getCallLogs();
+      expect(log.attempts).toBe(2);
+      expect(log.retries).toHaveLength(1);
+      expect(log.retries![0]).toMatchObject({ attempt: 1, delayMs: 20 });
+      expect(log.retries![0].error).toMatch(/429/);
+    } finally {
+      stub.server.close();
+    }
+  });
+
+  it('should not retry client errors', async () => {
+    const stub = await startStub(() => ({ status: 400, body: { error: { message: 'Unknown model' } } }));
+
+    try {
+      const connector = new OpenAICompatibleConnector(`${stub.origin}/v1`);
+
+      await expect(connector.llmCall('Say hello', 'nope')).rejects.toThrow(/400/);
+      expect(stub.requests).toHaveLength(1);
+    } finally {
+      stub.server.close();
+    }
+  });
+
+  it('should abort attempts that exceed the timeout and give up after maxAttempts', async () => {
+    const stub = await startStub(() => ({ status: 200, body: completion, delayMs: 500 }));
+
+    try {
+      const connector = new OpenAICompatibleConnector(`${stub.origin}/v1`);
+      connector.setRetryPolicy({ maxAttempts: 2, timeoutMs: 50, initialDelayMs: 1 });
+
+      await expect(connector.llmCall('Say hello', 'llama3.1')).rejects.toThrow(/timed out after 50ms/);
+      expect(stub.requests).toHaveLength(2);
+    } finally {
+      stub.server.close();
+    }
+  });
+
+  it('should back off exponentially between attempts', async () => {
+    let calls = 0;
+    const outcome = await withRetry(
+      async () => {
+        if (++calls < 3) {
+          throw Object.assign(new Error('Service unavailable'), { status: 503 });
+        }
+        return 'ok';
+      },
+      { maxAttempts: 3, initialDelayMs: 5, maxDelayMs: 1000, jitter: false }
+    );
+
+    expect(outcome.value).toBe('ok');
+    expect(outcome.attempts).toBe(3);
+    expect(outcome.retries.map(retry => retry.delayMs)).toEqual([5, 10]);
+  });
+});
+
+describe('RequestScheduler', () => {
+  const call = (maxTokens: number = 10) => ({ prompt: '', model: 'gpt-4.1', maxTokens });
+
+  it('should cap the number of requests in flight', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 2 });
+    let running = 0;
+    let peak = 0;
+
+    await Promise.all(
+      Array.from({ length: 5 }, async () => {
+        const release = await scheduler.acquire(call());
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        running--;
+        release();
+      })
+    );
+
+    expect(peak).toBe(2);
+    expect(scheduler.inFlight).toBe(0);
+  });
+
+  it('should let clients take turns', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 1 });
+    const order: string[] = [];
+    const run = async (client: string, label: string) => {
+      const release = await scheduler.acquire(call(), client);
+      order.push(label);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      release();
+    };
+
+    await Promise.all([run('a', 'a1'), run('a', 'a2'), run('a', 'a3'), run('b', 'b1')]);
+
+    expect(order).toEqual(['a1', 'b1', 'a2', 'a3']);
+  });
+
+  it('should hold calls until the model has token budget in the current minute', async () => {
+    vi.useFakeTimers();
+    try {
+      const scheduler = new RequestScheduler({ tokensPerMinute: { 'gpt-4.1': 100 } });
+
+      const release = await scheduler.acquire(call(80));
+      let second = false;
+      scheduler.acquire(call(80)).then(() => (second = true));
+      const otherModel = await scheduler.acquire({ prompt: '', model: 'gpt-4.1-mini', maxTokens: 80 });
+      otherModel();
+
+      release({ prompt_tokens: 50, completion_tokens: 40, total_tokens: 90 });
+      await vi.advanceTimersByTimeAsync(59_000);
+      expect(second).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(1_000);
+      expect(second).toBe(true);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('CachingConnector', () => {
+  const usage = { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 };
+
+  it('should serve repeated calls from the cache and mark them in the call log', async () => {
+    const inner = new MockConnector({ responses: { ORCHESTRATOR: ['first answer', 'second answer'] } });
+    const connector = new CachingConnector(inner);
+
+    const first = await connector.llmCall('Plan this', 'gpt-4.1', 100, 0.7, 'ORCHESTRATOR');
+    const second = await connector.llmCall('Plan this', 'gpt-4.1', 100, 0.7, 'ORCHESTRATOR');
+    const otherTemperature = await connector.llmCall('Plan this', 'gpt-4.1', 100, 0.2, 'ORCHESTRATOR');
+
+    expect(first.content).toBe('first answer');
+    expect(second.content).toBe('first answer');
+    expect(otherTemperature.content).toBe('second answer');
+    expect(inner.getCallLogs()).toHaveLength(2);
+    expect(connector.getCallLogs().map(log => Boolean(log.cached))).toEqual([false, true, false]);
+  });
+
+  it('should cache streamed responses and replay them', async () => {
+    const inner = new MockConnector({ responses: { SYNTHESIZER: { content: 'Alexandre Bilger founded Sinequa.', usage } } });
+    const connector = new CachingConnector(inner);
+    const collect = async () => {
+      let text = '';
+      for await (const delta of connector.llmStream('Synthesize', 'gpt-4.1', 100, 0.7, 'SYNTHESIZER')) {
+        text += delta;
+      }
+      return text;
+    };
+
+    expect(await collect()).toBe('Alexandre Bilger founded Sinequa.');
+    expect(await collect()).toBe('Alexandre Bilger founded Sinequa.');
+    expect(inner.getCallLogs()).toHaveLength(1);
+  });
+
+  it('should expire entries after the TTL and bypass lookups when refreshing', async () => {
+    const inner: MockConnector = new MockConnector({ responses: { '*': () => `answer ${inner.getCallLogs().length + 1}` } });
+    const store = new MemoryCacheStore();
+
+    vi.useFakeTimers();
+    try {
+      const connector = new CachingConnector(inner, { store, ttlMs: 1000 });
+      expect((await connector.llmCall('q', 'gpt-4.1')).content).toBe('answer 1');
+      expect((await connector.llmCall('q', 'gpt-4.1')).content).toBe('answer 1');
+
+      vi.advanceTimersByTime(1001);
+      expect((await connector.llmCall('q', 'gpt-4.1')).content).toBe('answer 2');
+
+      const refreshing = new CachingConnector(inner, { store, ttlMs: 1000, refresh: true });
+      expect((await refreshing.llmCall('q', 'gpt-4.1')).content).toBe('answer 3');
+      expect((await connector.llmCall('q', 'gpt-4.1')).content).toBe('answer 3');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should leave web search uncached unless it has its own TTL', async () => {
+    const inner: MockConnector = new MockConnector({ responses: { 'WEB-SEARCH-WORKER': () => `results ${inner.getCallLogs().length + 1}` } });
+    const store = new MemoryCacheStore();
+
+    vi.useFakeTimers();
+    try {
+      const connector = new CachingConnector(inner, { store, ttlMs: 24 * 3600_000 });
+      expect((await connector.webSearchCall('founder', 'gpt-4.1', 'WEB-SEARCH-WORKER')).content).toBe('results 1');
+      expect((await connector.webSearchCall('founder', 'gpt-4.1', 'WEB-SEARCH-WORKER')).content).toBe('results 2');
+
+      const searchCaching = new CachingConnector(inner, { store, ttlMs: 24 * 3600_000, webSearchTtlMs: 1000 });
+      expect((await searchCaching.webSearchCall('founder', 'gpt-4.1', 'WEB-SEARCH-WORKER')).content).toBe('results 3');
+      expect((await searchCaching.webSearchCall('founder', 'gpt-4.1', 'WEB-SEARCH-WORKER')).content).toBe('results 3');
+
+      vi.advanceTimersByTime(1001);
+      expect((await searchCaching.webSearchCall('founder', 'gpt-4.1', 'WEB-SEARCH-WORKER')).content).toBe('results 4');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should persist entries on disk', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'langelot-cache-'));
+    try {
+      const inner = new MockConnector({ responses: { 'WEB-SEARCH-WORKER': { content: 'Alexandre Bilger', sources: [{ title: 'Sinequa', url: 'https://www.sinequa.com' }] } } });
+      await new CachingConnector(inner, { store: new FileCacheStore(directory), webSearchTtlMs: 3600_000 }).webSearchCall('founder', 'gpt-4.1', 'WEB-SEARCH-WORKER');
+
+      const reopened = new CachingConnector(new MockConnector({ responses: {} }), { store: new FileCacheStore(directory), webSearchTtlMs: 3600_000 });
+      const response = await reopened.webSearchCall('founder', 'gpt-4.1', 'WEB-SEARCH-WORKER');
+
+      expect(response.content).toBe('Alexandre Bilger');
+      expect(response.sources).toEqual([{ title: 'Sinequa', url: 'https://www.sinequa.com' }]);
+      expect(reopened.getCallLogs()[0].cached).toBe(true);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Cassettes', () => {
+  const record = async () => {
+    const cassette = new CassetteRecorder();
+    const connector = new RecordingConnector(new MockConnector({
+      responses: {
+        ORCHESTRATOR: { content: 'plan', usage: { prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 } },
+        'WEB-SEARCH-WORKER': { content: 'Alexandre Bilger', sources: [{ title: 'Sinequa', url: 'https://www.sinequa.com' }] },
+        'SIMPLE-WORKER': 'streamed answer',
+      },
+    }), cassette);
+    await connector.llmCall('plan this', 'gpt-4.1', 500, 0.2, 'ORCHESTRATOR');
+    await connector.webSearchCall('who founded Sinequa', 'gpt-4.1', 'WEB-SEARCH-WORKER (Search)');
+    for await (const _ of connector.llmStream('think', 'gpt-4.1-mini', 500, 0.2, 'SIMPLE-WORKER (Recall)')) {
+      // drain
+    }
+    return cassette.toCassette();
+  };
+
+  it('should replay recorded responses, usage and sources without the provider', async () => {
+    const replay = new ReplayConnector(await record());
+
+    // Streamed calls replay as plain calls, and parallel roles may arrive in any order
+    expect((await replay.llmCall('think', 'gpt-4.1-mini', 500, 0.2, 'SIMPLE-WORKER (Recall)')).content).toBe('streamed answer');
+    const search = await replay.webSearchCall('who founded Sinequa', 'gpt-4.1', 'WEB-SEARCH-WORKER (Search)');
+    const plan = await replay.llmCall('plan this', 'gpt-4.1', 500, 0.2, 'ORCHESTRATOR');
+
+    expect(search.sources).toEqual([{ title: 'Sinequa', url: 'https://www.sinequa.com' }]);
+    expect(plan.usage?.total_tokens).toBe(12);
+    expect(replay.getCallLogs().map(log => log.role)).toEqual(['SIMPLE-WORKER (Recall)', 'WEB-SEARCH-WORKER (Search)', 'ORCHESTRATOR']);
+    expect(() => replay.verify()).not.toThrow();
+  });
+
+  it('should record failed calls and replay their errors', async () => {
+    const cassette = new CassetteRecorder();
+    const connector = new RecordingConnector(new MockConnector({ responses: {} }), cassette);
+    await expect(connector.webSearchCall('who founded Sinequa', 'gpt-4.1', 'WEB-SEARCH-WORKER')).rejects.toThrow();
+
+    const replay = new ReplayConnector(cassette.toCassette());
+    await expect(replay.webSearchCall('who founded Sinequa', 'gpt-4.1', 'WEB-SEARCH-WORKER')).rejects.toThrow(/no response/i);
+    expect(() => replay.verify()).not.toThrow();
+  });
+
+  it('should fail loudly when a prompt drifts from the recording', async () => {
+    const replay = new ReplayConnector(await record());
+
+    await expect(replay.llmCall('plan that', 'gpt-4.1', 500, 0.2, 'ORCHESTRATOR'))
+      .rejects.toThrow(/ORCHESTRATOR drifted from the recording, first difference at character 7/);
+    await expect(replay.llmCall('plan this', 'gpt-4.1', 500, 0.2, 'ORCHESTRATOR')).rejects.toThrow(/nothing left/);
+    expect(() => replay.verify()).toThrow(/drifted[\s\S]*nothing left[\s\S]*never made/);
+  });
+});
+
+describe('createConnector', () => {
+  it('should require a base URL for the openai-compatible provider', () => {
+    expect(() => createConnector({ provider: 'openai-compatible' })).toThrow(/requires a base URL/);
+  });
+
+  it('should build an OpenAI-compatible connector from a base URL', () => {
+    const connector = createConnector({ provider: 'openai-compatible', baseURL: 'http://localhost:11434/v1' });
+    expect(connector).toBeInstanceOf(OpenAICompatibleConnector);
+  });
+});
@@ -0,0 +1,42 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  LLMConnector,
+  CassetteRecorder,
+  RecordingConnector,
+  ReplayConnector,
+} from '../../src/connectors/index.js';
+
+const CASSETTE_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'cassettes');
+
+export interface CassetteSession {
+  connector: LLMConnector;
+  recording: boolean;
+  /** Saves the cassette when recording; otherwise fails if the run drifted from it */
+  finish(): void;
+}
+
+/**
+ * Connector for a test backed by `test/cassettes/<name>.json`. By default calls are
+ * replayed from the cassette with no network; with `LANGELOT_RECORD=1` they go to the
+ * connector `createLive` builds and the cassette is rewritten from the run.
+ */
+export function useCassette(name: string, createLive: () => LLMConnector): CassetteSession {
+  const file = path.join(CASSETTE_DIR, `${name}.json`);
+
+  if (process.env.LANGELOT_RECORD === '1') {
+    const cassette = new CassetteRecorder();
+    return {
+      connector: new RecordingConnector(createLive(), cassette),
+      recording: true,
+      finish: () => cassette.save(file),
+    };
+  }
+
+  const replay = new ReplayConnector(file);
+  return {
+    connector: replay,
+    recording: false,
+    finish: () => replay.verify(),
+  };
+}
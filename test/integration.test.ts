@@ -2,30 +2,26 @@ import { describe, it, expect, beforeAll } from 'vitest';
 import { OpenAIConnector } from '../src/connectors/index.js';
 import { FlexibleOrchestrator } from '../src/orchestrator.js';
 import { OrchestratorOptions } from '../src/types/index.js';
-
-describe('Langelot Integration Tests', () => {
-  let connector: OpenAIConnector;
-  let orchestrator: FlexibleOrchestrator;
-
-  beforeAll(() => {
-    // Check if OpenAI API key is available
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY environment variable is required for integration tests');
-    }
-
-    connector = new OpenAIConnector();
+import { useCassette } from './helpers/cassette.js';
+
+// Replayed from test/cassettes/sinequa-founder.json, so this runs in CI without an API key.
+// That cassette is a synthetic fixture, not a recording: its responses and usage numbers
+// were written by hand to exercise the planner, a search worker and the synthesizer, and
+// its prompts are kept in step with the code. Running with LANGELOT_RECORD=1 and
+// OPENAI_API_KEY set replaces it with a live recording.
+describe('Langelot Integration Tests (recorded)', () => {
+  it('should successfully orchestrate a simple research task', async () => {
+    const session = useCassette('sinequa-founder', () => new OpenAIConnector());
     const options: OrchestratorOptions = {
-      model: 'gpt-3.5-turbo', // Use cheaper model for testing
+      model: 'gpt-4.1-mini', // Use cheaper model for testing
       temperature: 0.7,
       maxTokens: 1000,
     };
-    orchestrator = new FlexibleOrchestrator(connector, options);
-  });
-
-  it('should successfully orchestrate a simple research task', async () => {
+    const orchestrator = new FlexibleOrchestrator(session.connector, options);
     const task = 'Find the name of the founder of Sinequa';
     
     const result = await orchestrator.orchestrate(task);
+    session.finish();
 
     // Verify the structure of the result
     expect(result).toBeDefined();
@@ -80,6 +76,14 @@ describe('Langelot Integration Tests', () => {
     const hasSubstantialContent = result.results.some(r => r.result.length > 50);
     expect(hasSubstantialContent).toBe(true);
   }, 60000); // 60 second timeout for API calls
+});
+
+describe.skipIf(!process.env.OPENAI_API_KEY)('Langelot Integration Tests (live)', () => {
+  let connector: OpenAIConnector;
+
+  beforeAll(() => {
+    connector = new OpenAIConnector();
+  });
 
   it('should handle context-enhanced tasks', async () => {
     const task = 'Find information about Sinequa as a company';
@@ -89,7 +93,7 @@ describe('Langelot Integration Tests', () => {
     };
 
     const options: OrchestratorOptions = {
-      model: 'gpt-3.5-turbo',
+      model: 'gpt-4.1-mini',
       temperature: 0.7,
       maxTokens: 1000,
       context
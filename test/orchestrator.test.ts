@@ -0,0 +1,1247 @@
+import { describe, it, expect, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MockConnector, RequestScheduler } from '../src/connectors/index.js';
+import { FlexibleOrchestrator } from '../src/orchestrator.js';
+import { RunReportRecorder } from '../src/utils/report.js';
+import { WebSearchWorker, WorkerRegistry, createLibrarianWorkerDefinition, createSearchWorkerDefinition, simpleWorkerDefinition } from '../src/workers/index.js';
+import { LocalSearchProvider } from '../src/search/index.js';
+import { ContextBudget, countTokens } from '../src/utils/context-budget.js';
+
+const PLAN = `
+<approach>Founder Lookup</approach>
+<agent>simple</agent>
+<description>Recall who founded Sinequa from training data</description>
+
+<approach>Current Leadership</approach>
+<agent>search</agent>
+<description>Search the web for Sinequa's founding team</description>
+`;
+
+const JSON_PLAN = JSON.stringify({
+  approaches: [
+    { name: 'Founder Lookup', id: 'lookup', agent: 'simple', depends_on: [], description: 'Recall who founded Sinequa from training data' },
+    { name: 'Current Leadership', id: 'leadership', agent: 'search', depends_on: [], description: "Search the web for Sinequa's founding team" },
+  ],
+});
+
+describe('FlexibleOrchestrator (offline)', () => {
+  it('should orchestrate end to end against scripted responses', async () => {
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: PLAN,
+        'SIMPLE-WORKER': '<result>Sinequa was founded by Alexandre Bilger in 2002.</result>',
+        'WEB-SEARCH-WORKER': {
+          content: 'Sinequa was co-founded by Alexandre Bilger.',
+          sources: [{ title: 'Sinequa - About', url: 'https://www.sinequa.com/company/' }],
+        },
+        SYNTHESIZER: 'Sinequa was founded by Alexandre Bilger.',
+      },
+    });
+    const orchestrator = new FlexibleOrchestrator(connector);
+
+    const result = await orchestrator.orchestrate('Find the name of the founder of Sinequa');
+
+    expect(result.strategies).toHaveLength(2);
+    expect(result.results).toHaveLength(2);
+    expect(result.results[0].workerType).toBe('simple');
+    expect(result.results[0].result).toBe('Sinequa was founded by Alexandre Bilger in 2002.');
+    expect(result.results[1].workerType).toBe('search');
+    expect(result.results[1].searchPerformed).toBe(true);
+    expect(result.results[1].sources).toHaveLength(1);
+    expect(result.synthesis).toMatch(/sinequa/i);
+
+    const roles = connector.getCallLogs().map(log => log.role);
+    expect(roles[0]).toBe('ORCHESTRATOR');
+    expect(roles).toContain('SIMPLE-WORKER (Founder Lookup)');
+    expect(roles).toContain('WEB-SEARCH-WORKER (Current Leadership)');
+    expect(roles[roles.length - 1]).toBe('SYNTHESIZER');
+  });
+
+  it('should carry citation ids from workers through synthesis into a bibliography', async () => {
+    let synthesisPrompt = '';
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: `<approach>Founder</approach><agent>search</agent><description>Find the founder</description>
+<approach>Founding Year</approach><agent>search</agent><description>Find the founding year</description>`,
+        'WEB-SEARCH-WORKER (Founder)': {
+          content: 'Alexandre Bilger founded Sinequa ([sinequa.com](https://www.sinequa.com/company/?utm_source=openai)).',
+          sources: [{ title: 'About Sinequa', url: 'https://www.sinequa.com/company/?utm_source=openai' }],
+        },
+        'WEB-SEARCH-WORKER (Founding Year)': {
+          content: 'Sinequa was founded in 2002.',
+          sources: [
+            { title: 'Sinequa - Company', url: 'https://www.sinequa.com/company' },
+            { title: 'Sinequa on Wikipedia', url: 'https://en.wikipedia.org/wiki/Sinequa' },
+          ],
+        },
+        SYNTHESIZER: prompt => {
+          synthesisPrompt = prompt;
+          return 'Alexandre Bilger founded Sinequa [S1]. It was founded in 2002 [S1, S2]. It has 500 staff [S7].';
+        },
+      },
+    });
+    const orchestrator = new FlexibleOrchestrator(connector);
+
+    const result = await orchestrator.orchestrate('Who founded Sinequa and when?');
+
+    expect(result.results[0].result).toContain('Alexandre Bilger founded Sinequa [S1].');
+    expect(result.results[0].result).toContain('[S1] About Sinequa - https://www.sinequa.com/company/?utm_source=openai');
+    expect(result.results[1].sources!.map(source => source.id)).toEqual(['S1', 'S2']);
+    expect(synthesisPrompt).toContain('Citable sources:\n[S1] About Sinequa - https://www.sinequa.com/company/?utm_source=openai\n[S2] Sinequa on Wikipedia - https://en.wikipedia.org/wiki/Sinequa');
+    expect(synthesisPrompt).toContain('5. Keeps citation markers such as [S1] after the claims they support');
+    expect(result.bibliography).toEqual([
+      { id: 'S1', kind: 'source', title: 'About Sinequa', url: 'https://www.sinequa.com/company/?utm_source=openai', approaches: ['Founder', 'Founding Year'] },
+      { id: 'S2', kind: 'source', title: 'Sinequa on Wikipedia', url: 'https://en.wikipedia.org/wiki/Sinequa', approaches: ['Founding Year'] },
+    ]);
+    expect(result.citationIssues).toEqual([{ id: 'S7', claim: 'It has 500 staff [S7].' }]);
+  });
+
+  it('should replay array responses in order and fail when exhausted', async () => {
+    const connector = new MockConnector({
+      responses: { LLM: ['first', { content: 'second' }] },
+    });
+
+    expect((await connector.llmCall('a')).content).toBe('first');
+    expect((await connector.llmCall('b')).content).toBe('second');
+    await expect(connector.llmCall('c')).rejects.toThrow(/ran out of responses/);
+  });
+
+  it('should prefer the longest matching role prefix', async () => {
+    const connector = new MockConnector({
+      responses: {
+        'SIMPLE-WORKER': 'generic',
+        'SIMPLE-WORKER (Dates)': 'specific',
+        '*': 'fallback',
+      },
+    });
+
+    expect((await connector.llmCall('p', 'm', 100, 0, 'SIMPLE-WORKER (Dates)')).content).toBe('specific');
+    expect((await connector.llmCall('p', 'm', 100, 0, 'SIMPLE-WORKER (Names)')).content).toBe('generic');
+    expect((await connector.llmCall('p', 'm', 100, 0, 'SYNTHESIZER')).content).toBe('fallback');
+  });
+
+  it('should route roles to their configured connector and model', async () => {
+    const main = new MockConnector({
+      responses: {
+        ORCHESTRATOR: PLAN,
+        'WEB-SEARCH-WORKER': 'search result',
+        SYNTHESIZER: 'final',
+      },
+    });
+    const simple = new MockConnector({
+      responses: { 'SIMPLE-WORKER': '<result>from the other vendor</result>' },
+    });
+    const orchestrator = new FlexibleOrchestrator(main, {
+      roles: { simple: { connector: simple, model: 'claude-haiku-4-5' } },
+    });
+
+    const result = await orchestrator.orchestrate('Find the name of the founder of Sinequa');
+
+    expect(result.results[0].result).toBe('from the other vendor');
+    expect(result.results[0].model).toBe('claude-haiku-4-5');
+    expect(main.getCallLogs().map(log => log.role)).not.toContain('SIMPLE-WORKER (Founder Lookup)');
+    expect(simple.getCallLogs()[0].model).toBe('claude-haiku-4-5');
+    expect(orchestrator.getCallLogs()).toHaveLength(4);
+  });
+
+  it('should stream plan, worker and synthesis events', async () => {
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: PLAN,
+        'SIMPLE-WORKER': '<result>Alexandre Bilger founded Sinequa.</result>',
+        'WEB-SEARCH-WORKER': 'Sinequa was co-founded by Alexandre Bilger.',
+        SYNTHESIZER: 'Sinequa was founded by Alexandre Bilger.',
+      },
+    });
+    const orchestrator = new FlexibleOrchestrator(connector);
+
+    const events = [];
+    for await (const event of orchestrator.orchestrateStream('Find the name of the founder of Sinequa')) {
+      events.push(event);
+    }
+
+    const types = events.map(event => event.type);
+    expect(types[0]).toBe('plan:created');
+    expect(types.filter(type => type === 'worker:start')).toHaveLength(2);
+    expect(types.filter(type => type === 'worker:end')).toHaveLength(2);
+    expect(types.indexOf('synthesis:start')).toBeGreaterThan(types.lastIndexOf('worker:end'));
+    expect(types[types.length - 1]).toBe('done');
+
+    const workerText = events
+      .filter(event => event.type === 'worker:delta' && event.index === 0)
+      .map(event => (event.type === 'worker:delta' ? event.delta : ''))
+      .join('');
+    expect(workerText).toBe('<result>Alexandre Bilger founded Sinequa.</result>');
+
+    const synthesisText = events
+      .map(event => (event.type === 'synthesis:delta' ? event.delta : ''))
+      .join('');
+    const done = events[events.length - 1];
+    expect(done.type === 'done' && done.result.synthesis).toBe(synthesisText);
+    expect(synthesisText).toBe('Sinequa was founded by Alexandre Bilger.');
+  });
+
+  it('should emit lifecycle events with durations and usage', async () => {
+    const usage = { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 };
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: { content: PLAN, usage },
+        'SIMPLE-WORKER': { content: '<result>Alexandre Bilger</result>', usage },
+        'WEB-SEARCH-WORKER': { content: 'Alexandre Bilger', usage },
+        SYNTHESIZER: { content: 'Alexandre Bilger founded Sinequa.', usage },
+      },
+    });
+    const orchestrator = new FlexibleOrchestrator(connector);
+
+    const names: string[] = [];
+    const workerEnds: any[] = [];
+    const calls: any[] = [];
+    let synthesisEnd: any;
+
+    orchestrator
+      .on('plan:created', () => names.push('plan:created'))
+      .on('worker:start', () => names.push('worker:start'))
+      .on('worker:end', event => {
+        names.push('worker:end');
+        workerEnds.push(event);
+      })
+      .on('synthesis:start', () => names.push('synthesis:start'))
+      .on('synthesis:end', event => {
+        names.push('synthesis:end');
+        synthesisEnd = event;
+      })
+      .on('llm:call', log => calls.push(log));
+
+    await orchestrator.orchestrate('Find the name of the founder of Sinequa');
+
+    expect(names).toEqual([
+      'plan:created',
+      'worker:start',
+      'worker:start',
+      'worker:end',
+      'worker:end',
+      'synthesis:start',
+      'synthesis:end',
+    ]);
+    expect(workerEnds.map(event => event.agentType).sort()).toEqual(['search', 'simple']);
+    workerEnds.forEach(event => {
+      expect(event.duration).toBeGreaterThanOrEqual(0);
+      expect(event.usage).toEqual(usage);
+    });
+    expect(synthesisEnd.synthesis).toBe('Alexandre Bilger founded Sinequa.');
+    expect(synthesisEnd.usage).toEqual(usage);
+    expect(calls.map(log => log.role)).toEqual(connector.getCallLogs().map(log => log.role));
+  });
+
+  it('should build a run report with usage, timings and call logs', async () => {
+    const usage = { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 };
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: { content: PLAN, usage },
+        'SIMPLE-WORKER': { content: '<result>Alexandre Bilger</result>', usage },
+        'WEB-SEARCH-WORKER': { content: 'Alexandre Bilger', usage },
+        SYNTHESIZER: { content: 'Alexandre Bilger founded Sinequa.', usage },
+      },
+    });
+    const orchestrator = new FlexibleOrchestrator(connector);
+    const recorder = new RunReportRecorder(orchestrator);
+
+    recorder.start();
+    const report = recorder.toReport(await orchestrator.orchestrate('Find the name of the founder of Sinequa'));
+
+    expect(report.synthesis).toBe('Alexandre Bilger founded Sinequa.');
+    expect(report.usage).toMatchObject({ prompt_tokens: 40, completion_tokens: 20, total_tokens: 60, calls: 4 });
+    expect(report.callLogs).toHaveLength(4);
+    expect(report.timings.workers.map(worker => worker.index)).toEqual([0, 1]);
+    expect(report.timings.synthesisMs).toBeGreaterThanOrEqual(0);
+    expect(JSON.parse(JSON.stringify(report)).results).toHaveLength(2);
+  });
+
+  it('should retry transient failures using the orchestrator retry policy', async () => {
+    let synthesisCalls = 0;
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: PLAN,
+        'SIMPLE-WORKER': '<result>Alexandre Bilger</result>',
+        'WEB-SEARCH-WORKER': 'Alexandre Bilger',
+        SYNTHESIZER: () => {
+          if (++synthesisCalls === 1) {
+            throw Object.assign(new Error('Overloaded'), { status: 529 });
+          }
+          return 'Alexandre Bilger founded Sinequa.';
+        },
+      },
+    });
+    const orchestrator = new FlexibleOrchestrator(connector, { retry: { initialDelayMs: 1 } });
+
+    const result = await orchestrator.orchestrate('Find the name of the founder of Sinequa');
+
+    expect(result.synthesis).toBe('Alexandre Bilger founded Sinequa.');
+    const synthesisLog = connector.getCallLogs().find(log => log.role === 'SYNTHESIZER');
+    expect(synthesisLog?.attempts).toBe(2);
+    expect(synthesisLog?.retries?.[0].error).toContain('Overloaded');
+  });
+
+  it('should break usage and cost down by role and model', async () => {
+    const usage = { prompt_tokens: 1000, completion_tokens: 500, total_tokens: 1500 };
+    const connector = new MockConnector({
+      model: 'gpt-4.1',
+      responses: {
+        ORCHESTRATOR: { content: PLAN, usage },
+        'SIMPLE-WORKER': { content: '<result>Alexandre Bilger</result>', usage },
+        'WEB-SEARCH-WORKER': { content: 'Alexandre Bilger', usage },
+        SYNTHESIZER: { content: 'Alexandre Bilger founded Sinequa.', usage },
+      },
+    });
+    const orchestrator = new FlexibleOrchestrator(connector, {
+      simpleModel: 'local-llama',
+      pricing: { 'local-llama': { input: 0, output: 0 } },
+    });
+
+    const result = await orchestrator.orchestrate('Find the name of the founder of Sinequa');
+
+    // gpt-4.1 at $2 / $8 per million tokens: 1000 * 2e-6 + 500 * 8e-6 = $0.006 per call
+    expect(result.usage!.calls).toBe(4);
+    expect(result.usage!.total_tokens).toBe(6000);
+    expect(result.usage!.cost).toBeCloseTo(0.018);
+    expect(result.usage!.byRole['SIMPLE-WORKER (Founder Lookup)']).toMatchObject({ calls: 1, cost: 0 });
+    expect(result.usage!.byRole.SYNTHESIZER.cost).toBeCloseTo(0.006);
+    expect(result.usage!.byModel['gpt-4.1'].calls).toBe(3);
+    expect(result.usage!.unpricedModels).toEqual([]);
+  });
+
+  it('should abort the run before a call would exceed the budget', async () => {
+    const usage = { prompt_tokens: 1000, completion_tokens: 500, total_tokens: 1500 };
+    const connector = new MockConnector({
+      model: 'gpt-4.1',
+      responses: {
+        ORCHESTRATOR: { content: PLAN, usage },
+        'SIMPLE-WORKER': { content: '<result>Alexandre Bilger</result>', usage },
+        'WEB-SEARCH-WORKER': { content: 'Alexandre Bilger', usage },
+        SYNTHESIZER: 'unreachable',
+      },
+    });
+    // The plan and the simple worker commit $0.0071; the web search worker's worst case (100 output tokens) no longer fits
+    const orchestrator = new FlexibleOrchestrator(connector, {
+      model: 'gpt-4.1',
+      simpleModel: 'gpt-4.1',
+      maxTokens: 100,
+      budgetUsd: 0.0075,
+    });
+
+    await expect(orchestrator.orchestrate('Find the name of the founder of Sinequa')).rejects.toThrow(
+      /Budget of \$0\.0075 exceeded: WEB-SEARCH-WORKER \(Current Leadership\) call to gpt-4\.1/
+    );
+    expect(connector.getCallLogs().map(log => log.role)).not.toContain('SYNTHESIZER');
+  });
+
+  it('should share one scheduler across orchestrators', async () => {
+    let running = 0;
+    let peak = 0;
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: PLAN,
+        'SIMPLE-WORKER': '<result>Alexandre Bilger</result>',
+        'WEB-SEARCH-WORKER': 'Alexandre Bilger',
+        SYNTHESIZER: 'Alexandre Bilger founded Sinequa.',
+      },
+    });
+    const scheduler = new RequestScheduler({ maxConcurrency: 1 });
+    // Watch in-flight calls from the scheduler's point of view
+    const acquire = scheduler.acquire.bind(scheduler);
+    scheduler.acquire = async (call, client) => {
+      const release = await acquire(call, client);
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      return usage => {
+        running--;
+        release(usage);
+      };
+    };
+
+    const first = new FlexibleOrchestrator(connector, { scheduler });
+    const second = new FlexibleOrchestrator(connector, { scheduler });
+    const results = await Promise.all([
+      first.orchestrate('Find the name of the founder of Sinequa'),
+      second.orchestrate('Find the name of the founder of Sinequa'),
+    ]);
+
+    expect(results.map(result => result.synthesis)).toEqual(['Alexandre Bilger founded Sinequa.', 'Alexandre Bilger founded Sinequa.']);
+    expect(peak).toBe(1);
+    expect(connector.getCallLogs()).toHaveLength(8);
+  });
+
+  it('should emit worker:error before the run fails', async () => {
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: PLAN,
+        'SIMPLE-WORKER': () => {
+          throw new Error('model overloaded');
+        },
+        'WEB-SEARCH-WORKER': 'ok',
+      },
+    });
+    const orchestrator = new FlexibleOrchestrator(connector, { workerFailure: { mode: 'fail-fast' } });
+    const errors: any[] = [];
+    orchestrator.on('worker:error', event => errors.push(event));
+
+    await expect(orchestrator.orchestrate('test task')).rejects.toThrow(/model overloaded/);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ index: 0, approach: 'Founder Lookup', agentType: 'simple' });
+    expect(errors[0].error.message).toMatch(/model overloaded/);
+  });
+
+  it('should synthesize from the remaining workers and report the missing approach', async () => {
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: PLAN,
+        'SIMPLE-WORKER': () => {
+          throw new Error('model overloaded');
+        },
+        'WEB-SEARCH-WORKER': 'Alexandre Bilger',
+        SYNTHESIZER: 'Alexandre Bilger founded Sinequa.',
+      },
+    });
+    const orchestrator = new FlexibleOrchestrator(connector);
+
+    const result = await orchestrator.orchestrate('Find the name of the founder of Sinequa');
+
+    expect(result.synthesis).toBe('Alexandre Bilger founded Sinequa.');
+    expect(result.results[0]).toMatchObject({ approach: 'Founder Lookup', result: '', workerType: 'simple' });
+    expect(result.results[0].error).toMatch(/model overloaded/);
+    expect(result.results[1].error).toBeUndefined();
+
+    const synthesisPrompt = connector.getCallLogs().find(log => log.role === 'SYNTHESIZER')!.prompt;
+    expect(synthesisPrompt).toContain('Missing approaches');
+    expect(synthesisPrompt).toMatch(/- Founder Lookup: .*model overloaded/);
+  });
+
+  it('should fail when fewer workers than minSuccesses succeed', async () => {
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: PLAN,
+        'SIMPLE-WORKER': () => {
+          throw new Error('model overloaded');
+        },
+        'WEB-SEARCH-WORKER': 'Alexandre Bilger',
+      },
+    });
+    const orchestrator = new FlexibleOrchestrator(connector, { workerFailure: { mode: 'best-effort', minSuccesses: 2 } });
+
+    await expect(orchestrator.orchestrate('test task')).rejects.toThrow(/Only 1 of 2 workers succeeded \(minimum 2\)/);
+  });
+
+  it('should rerun a failed strategy on the fallback agent type', async () => {
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: PLAN,
+        'SIMPLE-WORKER (Founder Lookup)': '<result>Alexandre Bilger</result>',
+        'SIMPLE-WORKER (Current Leadership)': '<result>Confirmed from memory</result>',
+        'WEB-SEARCH-WORKER': () => {
+          throw new Error('search backend down');
+        },
+        'FALLBACK-WORKER': () => {
+          throw new Error('search backend down');
+        },
+        SYNTHESIZER: 'Alexandre Bilger founded Sinequa.',
+      },
+    });
+    const orchestrator = new FlexibleOrchestrator(connector, { workerFailure: { mode: 'fallback' } });
+
+    const result = await orchestrator.orchestrate('Find the name of the founder of Sinequa');
+
+    expect(result.results[1]).toMatchObject({
+      approach: 'Current Leadership',
+      result: 'Confirmed from memory',
+      workerType: 'simple',
+      fallbackFrom: 'search',
+    });
+  });
+
+  const DAG_PLAN = `
+<approach>Gather Facts</approach>
+<id>facts</id>
+<agent>search</agent>
+<depends_on>none</depends_on>
+<description>Search the web for Sinequa's founding team</description>
+
+<approach>Recall</approach>
+<id>recall</id>
+<agent>simple</agent>
+<depends_on>none</depends_on>
+<description>Recall who founded Sinequa</description>
+
+<approach>Draft</approach>
+<id>draft</id>
+<agent>simple</agent>
+<depends_on>facts, recall</depends_on>
+<description>Draft a short answer from the facts found</description>
+`;
+
+  it('should run dependent strategies after their upstream and hand them its results', async () => {
+    const order: string[] = [];
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: DAG_PLAN,
+        'WEB-SEARCH-WORKER': prompt => {
+          order.push('facts');
+          return 'Sinequa was co-founded by Alexandre Bilger.';
+        },
+        'SIMPLE-WORKER': (prompt, role) => {
+          order.push(role);
+          return role === 'SIMPLE-WORKER (Draft)' ? `<result>${prompt}</result>` : '<result>Alexandre Bilger, 2002</result>';
+        },
+        SYNTHESIZER: 'Alexandre Bilger founded Sinequa.',
+      },
+    });
+    const orchestrator = new FlexibleOrchestrator(connector);
+
+    const result = await orchestrator.orchestrate('Find the name of the founder of Sinequa');
+
+    expect(order[order.length - 1]).toBe('SIMPLE-WORKER (Draft)');
+    expect(result.strategies[2].dependsOn).toEqual(['facts', 'recall']);
+    const draftPrompt = result.results[2].result;
+    expect(draftPrompt).toContain('Results of the approaches this one builds on');
+    expect(draftPrompt).toMatch(/### Gather Facts\n[\s\S]*Sinequa was co-founded by Alexandre Bilger\./);
+    expect(draftPrompt).toContain('### Recall\nAlexandre Bilger, 2002');
+  });
+
+  it('should skip strategies whose upstream failed', async () => {
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: DAG_PLAN,
+        'SIMPLE-WORKER (Recall)': '<result>Alexandre Bilger</result>',
+        SYNTHESIZER: 'Alexandre Bilger founded Sinequa.',
+      },
+    });
+    const orchestrator = new FlexibleOrchestrator(connector);
+
+    const result = await orchestrator.orchestrate('Find the name of the founder of Sinequa');
+
+    expect(result.results[0].error).toBeDefined();
+    expect(result.results[1].error).toBeUndefined();
+    expect(result.results[2].error).toBe('Skipped because approaches it depends on failed: facts');
+    expect(connector.getCallLogs().map(log => log.role)).not.toContain('SIMPLE-WORKER (Draft)');
+  });
+
+  it('should reject plans with cycles before running any worker', async () => {
+    const connector = new MockConnector({
+      responses: { ORCHESTRATOR: DAG_PLAN.replace('<depends_on>none</depends_on>', '<depends_on>draft</depends_on>') },
+    });
+    const orchestrator = new FlexibleOrchestrator(connector, { planRepairs: 0 });
+
+    await expect(orchestrator.orchestrate('Find the name of the founder of Sinequa'))
+      .rejects.toThrow('Strategy dependencies form a cycle: facts -> draft -> facts');
+    expect(connector.getCallLogs()).toHaveLength(1);
+  });
+
+  it('should request the plan as JSON when the backend supports structured output', async () => {
+    const prompts: string[] = [];
+    const connector = new MockConnector({
+      structuredOutput: true,
+      responses: {
+        ORCHESTRATOR: JSON_PLAN,
+        'SIMPLE-WORKER': '<result>Alexandre Bilger</result>',
+        'WEB-SEARCH-WORKER': 'Alexandre Bilger',
+        SYNTHESIZER: 'Alexandre Bilger founded Sinequa.',
+      },
+    });
+    connector.onCall(log => prompts.push(log.prompt));
+    const orchestrator = new FlexibleOrchestrator(connector);
+
+    const result = await orchestrator.orchestrate('Find the name of the founder of Sinequa');
+
+    expect(result.strategies.map(strategy => strategy.id)).toEqual(['lookup', 'leadership']);
+    expect(connector.getCallLogs().filter(log => log.role?.startsWith('ORCHESTRATOR'))).toHaveLength(1);
+    expect(prompts[0]).toContain('Respond with a JSON object with an "approaches" array');
+    expect(prompts[0]).not.toContain('<approach>');
+  });
+
+  it('should send malformed JSON back once with the validation errors', async () => {
+    const prompts: string[] = [];
+    const connector = new MockConnector({
+      structuredOutput: true,
+      responses: {
+        ORCHESTRATOR: ['{"approaches": [{"name": "Founder Lookup", "agent": "oracle"}]}', JSON_PLAN],
+        'SIMPLE-WORKER': '<result>Alexandre Bilger</result>',
+        'WEB-SEARCH-WORKER': 'Alexandre Bilger',
+        SYNTHESIZER: 'Alexandre Bilger founded Sinequa.',
+      },
+    });
+    connector.onCall(log => prompts.push(log.prompt));
+    const orchestrator = new FlexibleOrchestrator(connector);
+
+    const result = await orchestrator.orchestrate('Find the name of the founder of Sinequa');
+
+    expect(result.strategies).toHaveLength(2);
+    const roles = connector.getCallLogs().map(log => log.role);
+    expect(roles.slice(0, 2)).toEqual(['ORCHESTRATOR', 'ORCHESTRATOR (format fix)']);
+    expect(prompts[1]).toContain('- approaches[0].description must be a non-empty string.');
+    expect(prompts[1]).toContain('- approaches[0].agent must be one of simple, search, librarian, got "oracle".');
+  });
+
+  it('should fall back to the XML format when the JSON plan stays malformed', async () => {
+    const prompts: string[] = [];
+    const connector = new MockConnector({
+      structuredOutput: true,
+      responses: {
+        ORCHESTRATOR: ['not json', '{"plan": []}', PLAN],
+        'SIMPLE-WORKER': '<result>Alexandre Bilger</result>',
+        'WEB-SEARCH-WORKER': 'Alexandre Bilger',
+        SYNTHESIZER: 'Alexandre Bilger founded Sinequa.',
+      },
+    });
+    connector.onCall(log => prompts.push(log.prompt));
+    const orchestrator = new FlexibleOrchestrator(connector);
+
+    const result = await orchestrator.orchestrate('Find the name of the founder of Sinequa');
+
+    expect(result.strategies.map(strategy => strategy.approach)).toEqual(['Founder Lookup', 'Current Leadership']);
+    const roles = connector.getCallLogs().map(log => log.role);
+    expect(roles.slice(0, 3)).toEqual(['ORCHESTRATOR', 'ORCHESTRATOR (format fix)', 'ORCHESTRATOR']);
+    expect(prompts[2]).toContain('Format your response as follows:');
+  });
+
+  it('should ask the planner to repair a plan that breaks the constraints', async () => {
+    const prompts: string[] = [];
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: [
+          `<approach>Recall</approach><agent>simple</agent><description>Recall the founder</description>
+<approach>Reason</approach><agent>simple</agent><description>Reason about it</description>`,
+          PLAN,
+        ],
+        'SIMPLE-WORKER': '<result>Alexandre Bilger</result>',
+        'WEB-SEARCH-WORKER': 'Alexandre Bilger',
+        SYNTHESIZER: 'Alexandre Bilger founded Sinequa.',
+      },
+    });
+    connector.onCall(log => prompts.push(log.prompt));
+    const orchestrator = new FlexibleOrchestrator(connector, {
+      maxStrategies: 5,
+      allowedAgents: ['simple', 'search'],
+      agentQuotas: { search: 1 },
+    });
+
+    const result = await orchestrator.orchestrate('Find the name of the founder of Sinequa');
+
+    expect(result.strategies.map(strategy => strategy.agentType)).toEqual(['simple', 'search']);
+    const roles = connector.getCallLogs().map(log => log.role);
+    expect(roles.slice(0, 2)).toEqual(['ORCHESTRATOR', 'ORCHESTRATOR (repair 1)']);
+    expect(prompts[0]).toContain('break it down into 2-5 distinct subtask approaches');
+    expect(prompts[0]).toContain('The plan must include at least 1 SEARCH approach.');
+    expect(prompts[0]).toContain('<agent>simple|search</agent>');
+    expect(prompts[0]).not.toContain('- LIBRARIAN');
+    expect(prompts[1]).toContain('- The plan needs at least 1 search approach but has 0.');
+  });
+
+  it('should give up once the plan repairs are used up', async () => {
+    const connector = new MockConnector({ responses: { ORCHESTRATOR: PLAN } });
+    const orchestrator = new FlexibleOrchestrator(connector, { allowedAgents: ['simple'], planRepairs: 1 });
+
+    await expect(orchestrator.orchestrate('Find the name of the founder of Sinequa')).rejects.toThrow(
+      'Failed to generate subtask strategies after 1 repair attempt: "Current Leadership" uses the search agent, which is not allowed; use simple.'
+    );
+    expect(connector.getCallLogs()).toHaveLength(2);
+  });
+
+  it('should dispatch approaches to registered custom workers', async () => {
+    const prompts: string[] = [];
+    let setups = 0;
+    const workers = new WorkerRegistry().register({
+      name: 'legal',
+      description: 'Reviews contracts and regulations',
+      useFor: 'legal questions',
+      setup: async () => ++setups,
+      execute: async ({ connector, model, role, approach, description, state }) => {
+        const response = await connector.llmCall(`Legal review: ${description}`, model, 500, 0, role);
+        return { result: `${response.content} (setup ${state})` };
+      },
+    });
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: `<approach>Contract Terms</approach><agent>legal</agent><description>Check the contract terms</description>
+<approach>Regulations</approach><agent>legal</agent><description>Check the regulations</description>`,
+        'LEGAL-WORKER': 'No issues found',
+        SYNTHESIZER: 'The contract is fine.',
+      },
+    });
+    connector.onCall(log => prompts.push(log.prompt));
+    const orchestrator = new FlexibleOrchestrator(connector, { workers, roles: { legal: { model: 'legal-model' } } });
+
+    const result = await orchestrator.orchestrate('Review the supplier contract');
+
+    expect(prompts[0]).toContain('- LEGAL (legal-model): Reviews contracts and regulations');
+    expect(prompts[0]).toContain('<agent>simple|search|librarian|legal</agent>');
+    expect(prompts[0]).toContain('and LEGAL for legal questions.');
+    expect(result.results).toEqual([
+      { approach: 'Contract Terms', result: 'No issues found (setup 1)', workerType: 'legal' },
+      { approach: 'Regulations', result: 'No issues found (setup 1)', workerType: 'legal' },
+    ]);
+    expect(setups).toBe(1);
+    const legalCalls = connector.getCallLogs().filter(log => log.role?.startsWith('LEGAL-WORKER'));
+    expect(legalCalls.map(log => log.model)).toEqual(['legal-model', 'legal-model']);
+    expect(Object.keys(result.usage!.byRole)).toContain('LEGAL-WORKER (Contract Terms)');
+  });
+
+  it('should hand approaches of a worker whose setup fails to the simple worker', async () => {
+    const workers = new WorkerRegistry().register({
+      name: 'legal',
+      description: 'Reviews contracts',
+      setup: async () => {
+        throw new Error('license server unreachable');
+      },
+      execute: async () => ({ result: 'unreachable' }),
+    });
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: `<approach>Contract Terms</approach><agent>legal</agent><description>Check the contract terms</description>
+<approach>Summary</approach><agent>simple</agent><description>Summarize the contract</description>`,
+        'SIMPLE-WORKER': '<result>Looks fine</result>',
+        SYNTHESIZER: 'The contract is fine.',
+      },
+    });
+    const orchestrator = new FlexibleOrchestrator(connector, { workers });
+
+    const result = await orchestrator.orchestrate('Review the supplier contract');
+
+    expect(result.results.map(workerResult => workerResult.workerType)).toEqual(['simple', 'simple']);
+    expect(result.strategies[0].agentType).toBe('legal');
+  });
+
+  it('should feed a failing script back to the code worker until it runs', async () => {
+    const prompts: string[] = [];
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: `<approach>Compound Interest</approach><agent>code</agent><description>Compute 1000 at 5% for 10 years</description>
+<approach>Explanation</approach><agent>simple</agent><description>Explain compound interest</description>`,
+        'CODE-WORKER': [
+          '<language>javascript</language><code>console.log(principal * 1.05 ** 10)</code>',
+          '<language>javascript</language><code>\n```js\nconsole.log((1000 * 1.05 ** 10).toFixed(2))\n```\n</code>',
+        ],
+        'SIMPLE-WORKER': '<result>Interest earns interest.</result>',
+        SYNTHESIZER: 'About 1628.89.',
+      },
+    });
+    connector.onCall(log => prompts.push(log.prompt));
+    const orchestrator = new FlexibleOrchestrator(connector, { workers: new WorkerRegistry({ code: true }) });
+
+    const result = await orchestrator.orchestrate('How much is 1000 worth after 10 years at 5%?');
+
+    const codeResult = result.results[0];
+    expect(codeResult.workerType).toBe('code');
+    expect(codeResult.result).toBe('Output of a javascript script:\n1628.89');
+    expect(codeResult.code).toMatchObject({
+      language: 'javascript',
+      source: 'console.log((1000 * 1.05 ** 10).toFixed(2))',
+      exitCode: 0,
+      attempts: 2,
+    });
+    const repairPrompt = prompts.filter(prompt => prompt.includes('Your previous script'))[0];
+    expect(repairPrompt).toContain('It exited with code 1.');
+    expect(repairPrompt).toContain('ReferenceError: principal is not defined');
+  });
+
+  it('should answer librarian approaches from locally indexed passages', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'langelot-docs-'));
+    fs.writeFileSync(path.join(directory, 'handbook.md'), '# Leave\n\nEmployees get 25 days of paid leave per year.\n\n# Travel\n\nTrain travel is preferred under 500 km.');
+    fs.writeFileSync(path.join(directory, 'faq.html'), '<p>Unused leave days expire in March.</p>');
+    const prompts: string[] = [];
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: `<approach>Leave Policy</approach><agent>librarian</agent><description>Find how many paid leave days employees get</description>`,
+        'LIBRARIAN-WORKER': '<result>25 days per year [handbook.md#1].</result>',
+        SYNTHESIZER: 'Employees get 25 days.',
+      },
+    });
+    connector.onCall(log => prompts.push(log.prompt));
+    const workers = new WorkerRegistry({ builtins: false })
+      .register(simpleWorkerDefinition)
+      .register(createLibrarianWorkerDefinition({ mode: 'local', chunking: { chunkSize: 80 } }));
+    const orchestrator = new FlexibleOrchestrator(connector, {
+      workers,
+      minStrategies: 1,
+      documents: [path.join(directory, 'handbook.md'), path.join(directory, 'faq.html')],
+    });
+
+    const stdout = vi.spyOn(console, 'log');
+    try {
+      const result = await orchestrator.orchestrate('How much paid leave do employees get?');
+
+      expect(stdout).not.toHaveBeenCalled();
+      expect(connector.getCallLogs().some(log => log.prompt.startsWith('[FILE-BASED]'))).toBe(false);
+      const librarianPrompt = prompts.find(prompt => prompt.includes('Retrieved passages:'))!;
+      expect(librarianPrompt).toContain('[handbook.md#1]\n# Leave\n\nEmployees get 25 days of paid leave per year.');
+      expect(librarianPrompt).toContain('[faq.html#1]\nUnused leave days expire in March.');
+      expect(librarianPrompt).not.toContain('Train travel');
+      expect(result.results[0]).toMatchObject({
+        workerType: 'librarian',
+        result: '25 days per year [handbook.md#1].',
+        filesUsed: ['handbook.md', 'faq.html'],
+      });
+      expect(result.results[0].passages!.map(passage => passage.id)).toEqual(['handbook.md#1', 'faq.html#1']);
+    } finally {
+      stdout.mockRestore();
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should search, read and cite pages through a search provider', async () => {
+    const provider = new LocalSearchProvider([
+      { url: 'https://example.com/sinequa', title: 'Sinequa history', text: 'Sinequa was founded in 2002 by Alexandre Bilger and Xavier Pornain.' },
+      { url: 'https://example.com/paris', title: 'Paris', text: 'Paris is the capital of France.' },
+      { url: 'https://blocked.example/sinequa', title: 'Sinequa mirror', text: 'Sinequa was founded in 2002.' },
+    ]);
+    const prompts: string[] = [];
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: `<approach>Founders</approach><agent>search</agent><description>Find who founded Sinequa</description>`,
+        'WEB-SEARCH-WORKER': [
+          '<query>Sinequa founded</query><query>Sinequa founders</query>',
+          '<result>Sinequa was founded by Alexandre Bilger and Xavier Pornain [S1].</result>',
+        ],
+        SYNTHESIZER: 'Alexandre Bilger and Xavier Pornain founded Sinequa [S1].',
+      },
+    });
+    connector.onCall(log => prompts.push(log.prompt));
+    const workers = new WorkerRegistry({ builtins: false })
+      .register(simpleWorkerDefinition)
+      .register(createSearchWorkerDefinition({ provider, search: { blockedDomains: ['blocked.example'] } }));
+    const orchestrator = new FlexibleOrchestrator(connector, { workers, minStrategies: 1 });
+
+    const result = await orchestrator.orchestrate('Who founded Sinequa?');
+
+    expect(prompts.some(prompt => prompt.includes('search for current, relevant information'))).toBe(false);
+    const answerPrompt = prompts.find(prompt => prompt.includes('Pages read:'))!;
+    expect(answerPrompt).toContain('[S1] Sinequa history - https://example.com/sinequa\nSinequa was founded in 2002 by Alexandre Bilger and Xavier Pornain.');
+    expect(answerPrompt).not.toContain('blocked.example');
+    expect(result.results[0]).toMatchObject({ workerType: 'search', searchPerformed: true });
+    expect(result.results[0].result).toContain('Sinequa was founded by Alexandre Bilger and Xavier Pornain [S1].');
+    expect(result.results[0].sources).toEqual([
+      expect.objectContaining({ id: 'S1', title: 'Sinequa history', url: 'https://example.com/sinequa' }),
+    ]);
+    expect(result.bibliography!.map(citation => citation.url)).toEqual(['https://example.com/sinequa']);
+  });
+
+  it('should reject agent types that are not registered', () => {
+    const connector = new MockConnector({ responses: {} });
+    expect(() => new FlexibleOrchestrator(connector, { allowedAgents: ['simple', 'legal'] })).toThrow(
+      'Unknown agent type "legal"; registered workers: simple, search, librarian'
+    );
+  });
+
+  it('should reject planner constraints that contradict each other', () => {
+    const connector = new MockConnector({ responses: {} });
+    expect(() => new FlexibleOrchestrator(connector, { minStrategies: 4, maxStrategies: 3 })).toThrow(/Invalid strategy range/);
+    expect(() => new FlexibleOrchestrator(connector, { allowedAgents: ['simple'], agentQuotas: { search: 1 } })).toThrow(/conflicts with the allowed agents/);
+    expect(() => new FlexibleOrchestrator(connector, { maxStrategies: 2, agentQuotas: { search: 2, simple: 1 } })).toThrow(/need 3 approaches/);
+  });
+
+  it('should run another round for the gaps the evaluator finds', async () => {
+    const synthesisPrompts: string[] = [];
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: PLAN,
+        'SIMPLE-WORKER': '<result>Sinequa was founded by Alexandre Bilger.</result>',
+        'WEB-SEARCH-WORKER': 'Alexandre Bilger co-founded Sinequa in 2002.',
+        SYNTHESIZER: prompt => {
+          synthesisPrompts.push(prompt);
+          return `Synthesis ${synthesisPrompts.length}`;
+        },
+        EVALUATOR: [
+          `<verdict>revise</verdict>
+<critique>The founding year is missing.</critique>
+<approach>Founding Year</approach>
+<agent>search</agent>
+<description>Find the year Sinequa was founded</description>
+<approach>Founder Lookup</approach>
+<agent>simple</agent>
+<description>Already run in the first round</description>`,
+          '<verdict>accept</verdict><critique>Names the founder and the year.</critique>',
+        ],
+      },
+    });
+    const orchestrator = new FlexibleOrchestrator(connector, { maxRounds: 3 });
+    const workerIndices: number[] = [];
+    orchestrator.on('worker:end', event => workerIndices.push(event.index));
+
+    const result = await orchestrator.orchestrate('Find the name of the founder of Sinequa');
+
+    expect(result.stopReason).toBe('accepted');
+    expect(result.rounds).toHaveLength(2);
+    expect(result.rounds![0].evaluation?.accepted).toBe(false);
+    expect(result.rounds![1].strategies.map(strategy => strategy.approach)).toEqual(['Founding Year']);
+    expect(result.rounds![1].evaluation?.accepted).toBe(true);
+    expect(result.strategies.map(strategy => strategy.approach)).toEqual(['Founder Lookup', 'Current Leadership', 'Founding Year']);
+    expect(result.results).toHaveLength(3);
+    expect(workerIndices.sort()).toEqual([0, 1, 2]);
+    expect(result.synthesis).toBe('Synthesis 2');
+    // The second synthesis covers every round's results and the evaluator's critique
+    expect(synthesisPrompts[1]).toContain('Approach: Founder Lookup');
+    expect(synthesisPrompts[1]).toContain('Approach: Founding Year');
+    expect(synthesisPrompts[1]).toContain('The founding year is missing.');
+  });
+
+  it('should rename reused ids and drop unknown dependencies in the evaluator plan', async () => {
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: `<approach>Founder Lookup</approach><id>a</id><agent>simple</agent><depends_on>none</depends_on><description>Recall who founded Sinequa</description>`,
+        'SIMPLE-WORKER': '<result>Alexandre Bilger, in 2002.</result>',
+        SYNTHESIZER: 'Alexandre Bilger founded Sinequa.',
+        EVALUATOR: `<verdict>revise</verdict>
+<critique>The founding year is missing.</critique>
+<approach>Founding Year</approach>
+<id>a</id>
+<agent>simple</agent>
+<depends_on>a</depends_on>
+<description>Find the year Sinequa was founded</description>
+<approach>Head Office</approach>
+<id>office</id>
+<agent>simple</agent>
+<depends_on>missing</depends_on>
+<description>Find where Sinequa has its head office</description>`,
+      },
+    });
+    const orchestrator = new FlexibleOrchestrator(connector, { maxRounds: 2, allowedAgents: ['simple'], minStrategies: 1 });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    try {
+      const result = await orchestrator.orchestrate('Find the name of the founder of Sinequa');
+
+      expect(result.stopReason).toBe('max-rounds');
+      expect(result.rounds).toHaveLength(2);
+      expect(result.rounds![1].strategies.map(strategy => [strategy.id, strategy.dependsOn])).toEqual([
+        ['a-2', ['a']],
+        ['office', []],
+      ]);
+      expect(warn).toHaveBeenCalledWith('Evaluator plan: Strategy "Founding Year" reuses id "a"; renamed to "a-2"');
+      expect(warn).toHaveBeenCalledWith('Evaluator plan: Strategy "Head Office" depends on unknown id "missing"; dependency dropped');
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('should keep the last completed round when a later round or its evaluation fails', async () => {
+    const revise = `<verdict>revise</verdict>
+<critique>The founding year is missing.</critique>
+<approach>Founding Year</approach>
+<agent>simple</agent>
+<description>Find the year Sinequa was founded</description>`;
+    const responses = {
+      ORCHESTRATOR: PLAN,
+      'SIMPLE-WORKER': '<result>Alexandre Bilger</result>',
+      'WEB-SEARCH-WORKER': 'Alexandre Bilger',
+    };
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    try {
+      // The round-2 evaluation fails after round 2 has its synthesis
+      const evaluatorFails = await new FlexibleOrchestrator(
+        new MockConnector({ responses: { ...responses, SYNTHESIZER: ['Synthesis 1', 'Synthesis 2'], EVALUATOR: [revise] } }),
+        { maxRounds: 3 }
+      ).orchestrate('Find the name of the founder of Sinequa');
+
+      expect(evaluatorFails.stopReason).toBe('error');
+      expect(evaluatorFails.stopError).toBe('MockConnector ran out of responses for role "EVALUATOR" after 1 calls');
+      expect(evaluatorFails.rounds).toHaveLength(2);
+      expect(evaluatorFails.synthesis).toBe('Synthesis 2');
+
+      // Round 2 fails before it has a synthesis, so round 1's stands
+      const roundFails = await new FlexibleOrchestrator(
+        new MockConnector({ responses: { ...responses, SYNTHESIZER: ['Synthesis 1'], EVALUATOR: [revise] } }),
+        { maxRounds: 3 }
+      ).orchestrate('Find the name of the founder of Sinequa');
+
+      expect(roundFails.stopReason).toBe('error');
+      expect(roundFails.stopError).toContain('ran out of responses for role "SYNTHESIZER"');
+      expect(roundFails.rounds).toHaveLength(1);
+      expect(roundFails.strategies.map(strategy => strategy.approach)).toEqual(['Founder Lookup', 'Current Leadership']);
+      expect(roundFails.synthesis).toBe('Synthesis 1');
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('should stop starting rounds once the token budget is used', async () => {
+    const usage = { prompt_tokens: 800, completion_tokens: 200, total_tokens: 1000 };
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: { content: PLAN, usage },
+        'SIMPLE-WORKER': { content: '<result>Alexandre Bilger</result>', usage },
+        'WEB-SEARCH-WORKER': { content: 'Alexandre Bilger', usage },
+        SYNTHESIZER: { content: 'Alexandre Bilger founded Sinequa.', usage },
+      },
+    });
+    const orchestrator = new FlexibleOrchestrator(connector, { maxRounds: 3, tokenBudget: 4000 });
+
+    const result = await orchestrator.orchestrate('Find the name of the founder of Sinequa');
+
+    expect(result.stopReason).toBe('token-budget');
+    expect(result.rounds).toHaveLength(1);
+    expect(result.rounds![0].usage?.total_tokens).toBe(3000);
+    expect(connector.getCallLogs().map(log => log.role)).not.toContain('EVALUATOR');
+  });
+
+  it('should condense each result before merging them in map-reduce synthesis', async () => {
+    const prompts: Record<string, string> = {};
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: PLAN,
+        'SIMPLE-WORKER': '<result>Sinequa was founded by Alexandre Bilger in 2002, with a long history of the company.</result>',
+        'WEB-SEARCH-WORKER': 'Sinequa was co-founded by Alexandre Bilger.',
+        'SYNTHESIZER (summary': (prompt, role) => `Summary of ${role.match(/summary: (.*)\)/)![1]}`,
+        SYNTHESIZER: prompt => {
+          prompts.final = prompt;
+          return 'Sinequa was founded by Alexandre Bilger.';
+        },
+      },
+    });
+    const orchestrator = new FlexibleOrchestrator(connector, { synthesis: { mode: 'map-reduce' } });
+
+    const result = await orchestrator.orchestrate('Find the name of the founder of Sinequa');
+
+    expect(result.synthesisMode).toBe('map-reduce');
+    expect(result.rounds![0].synthesisTrace?.summaries).toEqual([
+      { approach: 'Founder Lookup', summary: 'Summary of Founder Lookup' },
+      { approach: 'Current Leadership', summary: 'Summary of Current Leadership' },
+    ]);
+    expect(prompts.final).toContain('Approach: Founder Lookup\nResult:\nSummary of Founder Lookup');
+    expect(prompts.final).not.toContain('long history');
+  });
+
+  it('should revise a draft against a critic in debate synthesis', async () => {
+    let revisionPrompt = '';
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: PLAN,
+        'SIMPLE-WORKER': '<result>Alexandre Bilger</result>',
+        'WEB-SEARCH-WORKER': 'Alexandre Bilger',
+        'SYNTHESIZER (draft)': 'Sinequa was founded by Jean Ferré.',
+        'SYNTHESIZER (critic)': 'No result names Jean Ferré; both name Alexandre Bilger.',
+        SYNTHESIZER: prompt => {
+          revisionPrompt = prompt;
+          return 'Sinequa was founded by Alexandre Bilger.';
+        },
+      },
+    });
+    const orchestrator = new FlexibleOrchestrator(connector, { synthesis: { mode: 'debate' } });
+
+    const result = await orchestrator.orchestrate('Find the name of the founder of Sinequa');
+
+    expect(result.synthesis).toBe('Sinequa was founded by Alexandre Bilger.');
+    expect(revisionPrompt).toContain('A first draft of this synthesis:\nSinequa was founded by Jean Ferré.');
+    expect(revisionPrompt).toContain("A critic's objections to the draft:\nNo result names Jean Ferré");
+    expect(result.rounds![0].synthesisTrace).toMatchObject({ mode: 'debate', draft: 'Sinequa was founded by Jean Ferré.' });
+    const roles = connector.getCallLogs().map(log => log.role);
+    expect(roles.slice(-3)).toEqual(['SYNTHESIZER (draft)', 'SYNTHESIZER (critic)', 'SYNTHESIZER']);
+  });
+
+  it('should leave out results a judge scores below the threshold', async () => {
+    let synthesisPrompt = '';
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: PLAN,
+        'SIMPLE-WORKER': '<result>Sinequa was founded by Jean Ferré.</result>',
+        'WEB-SEARCH-WORKER': 'Sinequa was co-founded by Alexandre Bilger.',
+        'SYNTHESIZER (judge)': `
+<assessment><approach>Founder Lookup</approach><score>2</score><rationale>Unsupported recollection.</rationale></assessment>
+<assessment><approach>Current Leadership</approach><score>9</score><rationale>Backed by the company site.</rationale></assessment>`,
+        SYNTHESIZER: prompt => {
+          synthesisPrompt = prompt;
+          return 'Sinequa was founded by Alexandre Bilger.';
+        },
+      },
+    });
+    const orchestrator = new FlexibleOrchestrator(connector, { synthesis: { mode: 'judge', minScore: 6 } });
+
+    const result = await orchestrator.orchestrate('Find the name of the founder of Sinequa');
+
+    expect(result.rounds![0].synthesisTrace?.scores).toEqual([
+      { approach: 'Founder Lookup', score: 2, rationale: 'Unsupported recollection.' },
+      { approach: 'Current Leadership', score: 9, rationale: 'Backed by the company site.' },
+    ]);
+    expect(synthesisPrompt).not.toContain('Approach: Founder Lookup');
+    expect(synthesisPrompt).toContain('Approach: Current Leadership');
+    expect(synthesisPrompt).toContain('results under 6 were left out');
+  });
+
+  it('should sample several syntheses and keep the one the judge picks in best-of-n synthesis', async () => {
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: PLAN,
+        'SIMPLE-WORKER': '<result>Alexandre Bilger</result>',
+        'WEB-SEARCH-WORKER': 'Alexandre Bilger',
+        'SYNTHESIZER (judge)': '<choice>2</choice> It is the only one naming the founder.',
+        SYNTHESIZER: (prompt, role) => `Draft from ${role}`,
+      },
+    });
+    const orchestrator = new FlexibleOrchestrator(connector, { synthesis: { mode: 'best-of-n', samples: 3 } });
+    const events: string[] = [];
+
+    for await (const event of orchestrator.orchestrateStream('Find the name of the founder of Sinequa')) {
+      if (event.type === 'synthesis:delta') events.push(event.delta);
+      if (event.type === 'done') {
+        expect(event.result.synthesis).toBe('Draft from SYNTHESIZER (sample 2)');
+        expect(event.result.rounds![0].synthesisTrace).toMatchObject({ mode: 'best-of-n', chosen: 1 });
+        expect(event.result.rounds![0].synthesisTrace?.candidates).toHaveLength(3);
+      }
+    }
+
+    expect(events).toEqual(['Draft from SYNTHESIZER (sample 2)']);
+  });
+
+  it('should reject an unknown synthesis mode', () => {
+    const connector = new MockConnector({ responses: {} });
+    expect(() => new FlexibleOrchestrator(connector, { synthesis: { mode: 'vote' as any } })).toThrow(/Unknown synthesis mode "vote"/);
+  });
+
+  it('should truncate worker results that do not fit the synthesizer window and report it', async () => {
+    let synthesisPrompt = '';
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: PLAN,
+        'SIMPLE-WORKER': `<result>${'Sinequa was founded by Alexandre Bilger in 2002. '.repeat(600)}</result>`,
+        'WEB-SEARCH-WORKER': 'Sinequa was co-founded by Alexandre Bilger.',
+        SYNTHESIZER: prompt => {
+          synthesisPrompt = prompt;
+          return 'Sinequa was founded by Alexandre Bilger.';
+        },
+      },
+    });
+    const orchestrator = new FlexibleOrchestrator(connector, {
+      simpleModel: 'gpt-4.1',
+      contextWindows: { 'gpt-4.1': { context: 4000, maxOutput: 1000 } },
+    });
+    const adjusted: string[] = [];
+    orchestrator.on('context:adjust', event => adjusted.push(event.input));
+
+    const result = await orchestrator.orchestrate('Find the name of the founder of Sinequa');
+
+    expect(result.contextAdjustments).toEqual([
+      expect.objectContaining({ role: 'SYNTHESIZER', model: 'gpt-4.1', input: 'result of Founder Lookup', action: 'truncated' }),
+    ]);
+    expect(adjusted).toEqual(['result of Founder Lookup']);
+    expect(synthesisPrompt).toContain('Sinequa was co-founded by Alexandre Bilger.');
+    expect(synthesisPrompt).toMatch(/\[truncated: \d+ tokens cut to \d+\]/);
+    expect(countTokens(synthesisPrompt)).toBeLessThanOrEqual(2800);
+    // Output is capped at what the model can produce, web search calls included
+    expect(connector.getCallLogs().map(log => [log.role, log.maxTokens])).toEqual([
+      ['ORCHESTRATOR', 1000],
+      ['SIMPLE-WORKER (Founder Lookup)', 1000],
+      ['WEB-SEARCH-WORKER (Current Leadership)', 1000],
+      ['SYNTHESIZER', 1000],
+    ]);
+  });
+
+  it('should fit the search fallback to the window and its output limit', async () => {
+    const connector = new MockConnector({
+      responses: {
+        'WEB-SEARCH-WORKER': () => {
+          throw new Error('search backend down');
+        },
+        'FALLBACK-WORKER': '<result>Alexandre Bilger</result>',
+      },
+    });
+    const adjustments: string[] = [];
+    const worker = new WebSearchWorker(connector, {
+      model: 'gpt-4.1',
+      maxTokens: 1000,
+      temperature: 0.1,
+      contextBudget: new ContextBudget({ 'gpt-4.1': { context: 4000, maxOutput: 1000 } }, adjustment => adjustments.push(`${adjustment.role}: ${adjustment.input}`)),
+    });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    try {
+      const result = await worker.execute('Find the name of the founder of Sinequa', 'Current Leadership', 'Search the web', {
+        notes: 'Background on the enterprise search market. '.repeat(600),
+      });
+
+      expect(result.searchPerformed).toBe(false);
+      expect(adjustments).toEqual(['FALLBACK-WORKER (Current Leadership): context']);
+      const fallback = connector.getCallLogs().find(log => log.role === 'FALLBACK-WORKER (Current Leadership)')!;
+      expect([fallback.maxTokens, fallback.temperature]).toEqual([1000, 0.1]);
+      expect(countTokens(fallback.prompt)).toBeLessThanOrEqual(3000);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('should condense oversized worker results in summarize overflow mode', async () => {
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: PLAN,
+        'SIMPLE-WORKER': `<result>${'Sinequa was founded by Alexandre Bilger in 2002. '.repeat(600)}</result>`,
+        'WEB-SEARCH-WORKER': 'Sinequa was co-founded by Alexandre Bilger.',
+        'SYNTHESIZER (summary: Founder Lookup)': 'Alexandre Bilger founded Sinequa in 2002.',
+        SYNTHESIZER: 'Sinequa was founded by Alexandre Bilger.',
+      },
+    });
+    const orchestrator = new FlexibleOrchestrator(connector, {
+      simpleModel: 'gpt-4.1',
+      contextWindows: { 'gpt-4.1': { context: 4000, maxOutput: 1000 } },
+      contextOverflow: 'summarize',
+    });
+
+    const result = await orchestrator.orchestrate('Find the name of the founder of Sinequa');
+
+    // The result is too long even for the summary prompt, so that prompt gets a truncated copy
+    expect(result.contextAdjustments).toEqual([
+      expect.objectContaining({ role: 'SYNTHESIZER (summary: Founder Lookup)', input: 'result of Founder Lookup', action: 'truncated' }),
+      expect.objectContaining({ role: 'SYNTHESIZER', input: 'result of Founder Lookup', action: 'summarized' }),
+    ]);
+    const summaryLog = connector.getCallLogs().find(log => log.role === 'SYNTHESIZER (summary: Founder Lookup)')!;
+    expect(countTokens(summaryLog.prompt)).toBeLessThanOrEqual(2800);
+    expect(connector.getCallLogs().find(log => log.role === 'SYNTHESIZER')!.prompt).toContain('Alexandre Bilger founded Sinequa in 2002.');
+  });
+
+  it('should shrink a long context and refuse a prompt that cannot fit', async () => {
+    const connector = new MockConnector({
+      responses: {
+        ORCHESTRATOR: PLAN,
+        'SIMPLE-WORKER': '<result>Alexandre Bilger</result>',
+        'WEB-SEARCH-WORKER': 'Alexandre Bilger',
+        SYNTHESIZER: 'Sinequa was founded by Alexandre Bilger.',
+      },
+    });
+    const options = {
+      simpleModel: 'gpt-4.1',
+      contextWindows: { 'gpt-4.1': { context: 4000, maxOutput: 1000 } },
+      context: { audience: 'analysts', notes: 'Background on the enterprise search market. '.repeat(300) },
+    };
+
+    const result = await new FlexibleOrchestrator(connector, options).orchestrate('Find the name of the founder of Sinequa');
+
+    expect(result.contextAdjustments).toEqual([
+      expect.objectContaining({ role: '*', input: 'context.notes', action: 'truncated' }),
+    ]);
+    const planPrompt = connector.getCallLogs()[0].prompt;
+    expect(planPrompt).toContain('"audience": "analysts"');
+    expect(planPrompt).toMatch(/\[truncated: \d+ tokens cut to \d+\]/);
+
+    await expect(new FlexibleOrchestrator(connector, options).orchestrate(`Summarize: ${'word '.repeat(4000)}`))
+      .rejects.toThrow(/ORCHESTRATOR prompt is \d+ tokens, over the 2800 tokens gpt-4.1 can take/);
+  });
+
+  it('should reject the stream when orchestration fails', async () => {
+    const connector = new MockConnector({ responses: { ORCHESTRATOR: 'no strategies here' } });
+    const orchestrator = new FlexibleOrchestrator(connector);
+
+    const consume = async () => {
+      for await (const _event of orchestrator.orchestrateStream('test task')) {
+        // drain
+      }
+    };
+
+    await expect(consume()).rejects.toThrow(/Failed to generate subtask strategies/);
+  });
+
+  it('should surface a missing role as an orchestration error', async () => {
+    const connector = new MockConnector({ responses: { ORCHESTRATOR: PLAN } });
+    const orchestrator = new FlexibleOrchestrator(connector);
+
+    await expect(orchestrator.orchestrate('test task')).rejects.toThrow(/no response for role/);
+  });
+});
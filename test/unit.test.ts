@@ -1,5 +1,27 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { extractXml, extractSingleXml, parseSubtaskStrategies, parseWorkerResults } from '../src/utils/xml-parser.js';
+import { extractXml, extractSingleXml, parseStrategyBlocks, parseSubtaskStrategies, parseWorkerResults } from '../src/utils/xml-parser.js';
+import { parseStrategyJson, planSchema } from '../src/utils/plan-schema.js';
+import { formatJsonLine, formatMarkdownReport } from '../src/utils/report.js';
+import { findPricing, summarizeUsage } from '../src/utils/cost.js';
+import { sortTaskGraph, repairTaskGraph } from '../src/utils/task-graph.js';
+import { checkPlan, validatePlanConstraints } from '../src/utils/plan-constraints.js';
+import { WorkerRegistry } from '../src/workers/registry.js';
+import { runProcess, runSandboxed } from '../src/utils/sandbox.js';
+import { DocumentIndex, chunkText, htmlToText } from '../src/utils/document-index.js';
+import { globToRegExp, resolveDocuments } from '../src/utils/document-selection.js';
+import { findCitations, markCitations } from '../src/utils/citations.js';
+import { parseChoice, parseResultScores, selectByScore } from '../src/utils/synthesis.js';
+import { ContextBudget, FALLBACK_CONTEXT_WINDOW, countTokens, describeAdjustment, findContextWindow, shareTokens, truncateToTokens } from '../src/utils/context-budget.js';
+import { ContextAdjustment } from '../src/types/index.js';
+import { BraveSearchProvider, LocalSearchProvider, PageFetcher, SearxngSearchProvider, extractReadableText, parseRobots, robotsAllow } from '../src/search/index.js';
+import http from 'http';
+import { AddressInfo } from 'net';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { spawnSync } from 'child_process';
+
+const hasPython = spawnSync('python3', ['--version'], { stdio: 'ignore' }).status === 0;
 
 describe('XML Parser Utils', () => {
   describe('extractXml', () => {
@@ -33,6 +55,23 @@ describe('XML Parser Utils', () => {
     });
   });
 
+  describe('extractXml with attributes and nesting', () => {
+    it('should accept opening tags with attributes', () => {
+      expect(extractXml('<agent type="x">search</agent>', 'agent')).toEqual(['search']);
+    });
+
+    it('should keep nested elements of the same tag inside their parent', () => {
+      expect(extractXml('<note>outer <note>inner</note> end</note><note>second</note>', 'note')).toEqual([
+        'outer <note>inner</note> end',
+        'second',
+      ]);
+    });
+
+    it('should not match tags that only share a prefix', () => {
+      expect(extractXml('<agents>all</agents><agent>simple</agent>', 'agent')).toEqual(['simple']);
+    });
+  });
+
   describe('extractSingleXml', () => {
     it('should extract first occurrence', () => {
       const text = '<test>First</test><test>Second</test>';
@@ -96,6 +135,104 @@ describe('XML Parser Utils', () => {
       expect(result).toHaveLength(1);
       expect(result[0].agentType).toBe('simple');
     });
+
+    it('should read ids and dependencies from each approach block', () => {
+      const text = `
+        <approach>Gather Facts</approach>
+        <id>facts</id>
+        <agent>search</agent>
+        <depends_on>none</depends_on>
+        <description>Search for the founding facts</description>
+        <approach>Recall</approach>
+        <agent>simple</agent>
+        <description>Recall from memory</description>
+        <approach>Draft</approach>
+        <id>draft</id>
+        <agent>simple</agent>
+        <depends_on>facts, recall</depends_on>
+        <description>Draft the answer</description>
+      `;
+
+      const result = parseSubtaskStrategies(text);
+      expect(result[0]).toEqual({ approach: 'Gather Facts', id: 'facts', agentType: 'search', description: 'Search for the founding facts' });
+      expect(result[1]).toEqual({ approach: 'Recall', agentType: 'simple', description: 'Recall from memory' });
+      expect(result[2].dependsOn).toEqual(['facts', 'recall']);
+    });
+  });
+
+  describe('parseStrategyBlocks', () => {
+    it('should drop an approach missing its description instead of shifting the others', () => {
+      const { strategies, errors } = parseStrategyBlocks(`
+        <approach>First</approach>
+        <agent>search</agent>
+        <approach>Second</approach>
+        <agent>simple</agent>
+        <description>Second desc</description>
+      `);
+
+      expect(strategies).toEqual([{ approach: 'Second', agentType: 'simple', description: 'Second desc' }]);
+      expect(errors).toEqual(['Approach 1 ("First") is missing <description>.']);
+    });
+
+    it('should report unknown agents', () => {
+      const { strategies, errors } = parseStrategyBlocks('<approach>Test</approach><agent>oracle</agent><description>Desc</description>');
+      expect(strategies[0].agentType).toBe('simple');
+      expect(errors).toEqual(['Approach 1 ("Test") has unknown agent "oracle"; use one of simple, search, librarian, code.']);
+    });
+
+    it('should read tags with attributes', () => {
+      const { strategies, errors } = parseStrategyBlocks('<approach n="1">Test</approach><agent kind="a">search</agent><description lang="en">Desc</description>');
+      expect(errors).toEqual([]);
+      expect(strategies).toEqual([{ approach: 'Test', agentType: 'search', description: 'Desc' }]);
+    });
+  });
+
+  describe('parseStrategyJson', () => {
+    const plan = {
+      approaches: [
+        { name: 'Gather Facts', id: 'facts', agent: 'search', depends_on: [], description: 'Search for the founding facts' },
+        { name: 'Draft', id: 'draft', agent: 'simple', depends_on: ['facts'], description: 'Draft the answer' },
+      ],
+    };
+
+    it('should read approaches that follow the plan schema', () => {
+      const { strategies, errors } = parseStrategyJson(JSON.stringify(plan));
+      expect(errors).toEqual([]);
+      expect(strategies).toEqual([
+        { approach: 'Gather Facts', id: 'facts', agentType: 'search', description: 'Search for the founding facts' },
+        { approach: 'Draft', id: 'draft', agentType: 'simple', description: 'Draft the answer', dependsOn: ['facts'] },
+      ]);
+    });
+
+    it('should accept JSON wrapped in a code fence', () => {
+      expect(parseStrategyJson('```json\n' + JSON.stringify(plan) + '\n```').strategies).toHaveLength(2);
+    });
+
+    it('should report invalid JSON and a missing approaches array', () => {
+      expect(parseStrategyJson('{"approaches": [').errors[0]).toMatch(/^The plan is not valid JSON/);
+      expect(parseStrategyJson('[]').errors).toEqual(['The plan must be an object with an "approaches" array.']);
+    });
+
+    it('should validate each approach on its own', () => {
+      const { strategies, errors } = parseStrategyJson(JSON.stringify({
+        approaches: [
+          { name: 'Bad', agent: 'oracle', description: '' },
+          plan.approaches[0],
+          'not an approach',
+        ],
+      }));
+      expect(strategies.map(strategy => strategy.approach)).toEqual(['Gather Facts']);
+      expect(errors).toEqual([
+        'approaches[0].description must be a non-empty string.',
+        'approaches[0].agent must be one of simple, search, librarian, code, got "oracle".',
+        'approaches[2] must be an object.',
+      ]);
+    });
+
+    it('should limit the schema to the allowed agents', () => {
+      const { schema } = planSchema(['simple', 'search']) as any;
+      expect(schema.properties.approaches.items.properties.agent.enum).toEqual(['simple', 'search']);
+    });
   });
 
   describe('parseWorkerResults', () => {
@@ -138,4 +275,589 @@ describe('XML Parser Utils', () => {
       expect(result).toHaveLength(2); // Limited by approaches length
     });
   });
-});
\ No newline at end of file
+});
+
+describe('Task Graph', () => {
+  const strategy = (id: string, dependsOn?: string[]) => ({ approach: `Approach ${id}`, description: '', agentType: 'simple' as const, id, dependsOn });
+
+  it('should order strategies after the ones they depend on', () => {
+    const order = sortTaskGraph([strategy('draft', ['facts', 'analysis']), strategy('analysis', ['facts']), strategy('facts')]);
+    expect(order).toEqual([2, 1, 0]);
+  });
+
+  it('should accept dependencies on approaches that already ran', () => {
+    expect(sortTaskGraph([strategy('check', ['facts'])], ['facts'])).toEqual([0]);
+  });
+
+  it('should reject unknown ids, duplicates and cycles', () => {
+    expect(() => sortTaskGraph([strategy('draft', ['facts'])])).toThrow('Strategy "Approach draft" depends on unknown id "facts"');
+    expect(() => sortTaskGraph([strategy('a'), strategy('a')])).toThrow('Duplicate strategy id "a"');
+    expect(() => sortTaskGraph([strategy('a', ['c']), strategy('b', ['a']), strategy('c', ['b'])]))
+      .toThrow('Strategy dependencies form a cycle: a -> c -> b -> a');
+  });
+
+  it('should repair a later round plan so it can be sorted', () => {
+    const { strategies, problems } = repairTaskGraph(
+      [strategy('facts'), strategy('a', ['b']), strategy('b', ['a']), strategy('draft', ['facts', 'b', 'ghost'])],
+      ['facts']
+    );
+
+    expect(strategies.map(s => [s.id, s.dependsOn])).toEqual([['facts-2', undefined], ['draft', ['facts']]]);
+    expect(problems).toEqual([
+      'Strategy "Approach facts" reuses id "facts"; renamed to "facts-2"',
+      'Strategy "Approach draft" depends on unknown id "ghost"; dependency dropped',
+      'Strategies "Approach a", "Approach b" depend on each other in a cycle; dropped',
+      'Strategy "Approach draft" depends on unknown id "b"; dependency dropped',
+    ]);
+    expect(() => sortTaskGraph(strategies, ['facts'])).not.toThrow();
+  });
+});
+
+describe('Plan Constraints', () => {
+  const constraints = { minStrategies: 2, maxStrategies: 3, allowedAgents: ['simple' as const, 'search' as const], agentQuotas: { search: 1 } };
+  const strategy = (approach: string, agentType: 'simple' | 'search' | 'librarian') => ({ approach, description: '', agentType });
+
+  it('should accept a plan that meets the constraints', () => {
+    expect(checkPlan([strategy('Recall', 'simple'), strategy('Lookup', 'search')], constraints)).toEqual([]);
+  });
+
+  it('should list every problem with a plan', () => {
+    expect(checkPlan([strategy('Recall', 'simple'), strategy('Docs', 'librarian'), strategy('Reason', 'simple'), strategy('Check', 'simple')], constraints)).toEqual([
+      'The plan has 4 approaches but may have at most 3.',
+      '"Docs" uses the librarian agent, which is not allowed; use simple or search.',
+      'The plan needs at least 1 search approach but has 0.',
+    ]);
+    expect(checkPlan([strategy('Lookup', 'search')], constraints)).toEqual(['The plan has 1 approaches but needs at least 2.']);
+  });
+
+  it('should reject constraints that contradict each other', () => {
+    expect(() => validatePlanConstraints({ ...constraints, minStrategies: 0 })).toThrow('Invalid strategy range');
+    expect(() => validatePlanConstraints({ ...constraints, allowedAgents: [] })).toThrow('At least one agent type must be allowed');
+    expect(() => validatePlanConstraints({ ...constraints, agentQuotas: { search: 2, simple: 2 } })).toThrow('Agent quotas need 4 approaches but maxStrategies is 3');
+  });
+});
+
+describe('Worker Registry', () => {
+  const legal = { name: 'legal', description: 'Reviews contracts', execute: async () => ({ result: '' }) };
+
+  it('should start with the built-in workers and add custom ones after them', () => {
+    const registry = new WorkerRegistry().register(legal);
+    expect(registry.names()).toEqual(['simple', 'search', 'librarian', 'legal']);
+    expect(registry.get('legal')).toBe(legal);
+    expect(new WorkerRegistry({ builtins: false }).names()).toEqual([]);
+    expect(new WorkerRegistry({ code: true }).names()).toEqual(['simple', 'search', 'librarian', 'code']);
+  });
+
+  it('should reject duplicate and malformed worker names', () => {
+    expect(() => new WorkerRegistry().register({ ...legal, name: 'search' })).toThrow('Worker "search" is already registered');
+    expect(() => new WorkerRegistry().register({ ...legal, name: 'Legal Review' })).toThrow('Invalid worker name "Legal Review"');
+  });
+
+  it('should accept registered worker names when parsing plans', () => {
+    const { strategies, errors } = parseStrategyBlocks('<approach>Terms</approach><agent>legal</agent><description>Check terms</description>', ['simple', 'legal']);
+    expect(errors).toEqual([]);
+    expect(strategies[0].agentType).toBe('legal');
+  });
+});
+
+describe('Document Index', () => {
+  it('should chunk along paragraphs and split paragraphs longer than a chunk', () => {
+    expect(chunkText('First paragraph.\n\nSecond paragraph.\n\n\nThird.', { chunkSize: 40 })).toEqual([
+      'First paragraph.\n\nSecond paragraph.',
+      'Third.',
+    ]);
+    expect(chunkText('abcdefghij', { chunkSize: 4, overlap: 1 })).toEqual(['abcd', 'defg', 'ghij']);
+  });
+
+  it('should reduce HTML to its readable text', () => {
+    expect(htmlToText('<html><style>p { color: red }</style><h1>Title</h1><p>Fish &amp; chips</p><script>alert(1)</script></html>'))
+      .toBe('Title\n\nFish & chips');
+  });
+
+  it('should rank passages by BM25 relevance and cite them by file and chunk', () => {
+    const index = new DocumentIndex({ chunkSize: 60 });
+    index.add('docs/pricing.md', 'The enterprise plan costs 40 euros per seat.\n\nThe team plan is free for five seats.');
+    index.add('docs/history.md', 'Sinequa was founded in 2002 in Paris.');
+    index.add('archive/pricing.md', 'Old prices are no longer valid.');
+
+    const passages = index.search('How much does the enterprise plan cost per seat?', 2);
+
+    expect(passages.map(passage => passage.id)).toEqual(['pricing.md#1', 'pricing.md#2']);
+    expect(index.files()).toEqual(['pricing.md', 'history.md', 'archive/pricing.md']);
+    expect(index.search('quantum chromodynamics')).toEqual([]);
+  });
+});
+
+describe('Document Selection', () => {
+  it('should translate globs into path-aware regular expressions', () => {
+    expect(globToRegExp('docs/*.md').test('docs/notes.md')).toBe(true);
+    expect(globToRegExp('docs/*.md').test('docs/sub/notes.md')).toBe(false);
+    expect(globToRegExp('docs/**/*.{md,txt}').test('docs/notes.txt')).toBe(true);
+    expect(globToRegExp('docs/**/*.{md,txt}').test('docs/a/b/notes.md')).toBe(true);
+    expect(globToRegExp('report-[0-9].csv').test('report-7.csv')).toBe(true);
+  });
+
+  it('should expand directories and globs and report why files were skipped', () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'langelot-selection-'));
+    const file = (name: string, content: string) => {
+      fs.mkdirSync(path.dirname(path.join(directory, name)), { recursive: true });
+      fs.writeFileSync(path.join(directory, name), content);
+      return path.join(directory, name);
+    };
+    file('guide.md', '# Guide');
+    file('notes/meeting.txt', 'Notes');
+    file('notes/draft.txt', 'Draft');
+    file('scan.pdf', '%PDF');
+    file('empty.md', '');
+    file('big.csv', 'x'.repeat(2048));
+    file('.git/config', '[core]');
+
+    try {
+      const selection = resolveDocuments([directory, path.join(directory, '**/*.txt'), path.join(directory, 'missing.md')], {
+        exclude: ['draft.*'],
+        maxFileSize: 1024,
+        extensions: ['.md', '.txt', '.csv'],
+      });
+
+      expect(selection.files.map(selected => path.relative(directory, selected.path))).toEqual(['guide.md', 'notes/meeting.txt']);
+      expect(selection.skipped.map(skipped => [path.relative(directory, skipped.path), skipped.reason])).toEqual([
+        ['big.csv', '2 KB is over the 1 KB limit'],
+        ['empty.md', 'empty file'],
+        ['notes/draft.txt', 'excluded by draft.*'],
+        ['scan.pdf', 'no handler for .pdf files'],
+        ['missing.md', 'not found'],
+      ]);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Citations', () => {
+  it('should find citation markers with the sentence they support', () => {
+    expect(findCitations('Paid leave is 25 days [handbook.md#2]. See [the FAQ](https://example.com) [S1; S3].\n[Note] nothing cited.')).toEqual([
+      { id: 'handbook.md#2', claim: 'Paid leave is 25 days [handbook.md#2].' },
+      { id: 'S1', claim: 'See [the FAQ](https://example.com) [S1; S3].' },
+      { id: 'S3', claim: 'See [the FAQ](https://example.com) [S1; S3].' },
+    ]);
+  });
+
+  it('should turn links to known sources into markers', () => {
+    const sources = [{ id: 'S4', title: 'Example', url: 'https://example.com/a?utm_source=openai' }];
+    expect(markCitations('Fact ([example.com](https://example.com/a)). Other [site](https://other.org).', sources))
+      .toBe('Fact [S4]. Other [site](https://other.org).');
+  });
+
+  it('should mark cited ranges that carry no link after the claim they support', () => {
+    const text = 'Sinequa was founded in 2002.\nIt is based in Paris.\n';
+    const sources = [
+      { id: 'S1', title: 'Wikipedia', url: 'https://en.wikipedia.org/wiki/Sinequa', startIndex: 0, endIndex: 29 },
+      { id: 'S2', title: 'About', url: 'https://www.sinequa.com/', startIndex: 29, endIndex: 51 },
+      { id: 'S3', title: 'Press', url: 'https://press.example/', startIndex: 29, endIndex: 51 },
+    ];
+
+    expect(markCitations(text, sources)).toBe('Sinequa was founded in 2002. [S1]\nIt is based in Paris. [S2, S3]\n');
+  });
+});
+
+describe('Synthesis', () => {
+  const results = ['Founder Lookup', 'Current Leadership', 'Press Archive'].map(approach => ({ approach, result: approach }));
+
+  it('should read a judge\'s scores and ignore unknown approaches', () => {
+    const content = `
+<assessment><approach>founder lookup</approach><score>7/10</score><rationale>Plausible.</rationale></assessment>
+<assessment><approach>Someone Else</approach><score>9</score></assessment>
+<assessment><approach>Current Leadership</approach><score>12</score><rationale>Sourced.</rationale></assessment>`;
+
+    expect(parseResultScores(content, results.map(result => result.approach))).toEqual([
+      { approach: 'Founder Lookup', score: 7, rationale: 'Plausible.' },
+      { approach: 'Current Leadership', score: 10, rationale: 'Sourced.' },
+    ]);
+  });
+
+  it('should keep passing and unscored results, best first', () => {
+    const scores = [
+      { approach: 'Founder Lookup', score: 4, rationale: '' },
+      { approach: 'Current Leadership', score: 8, rationale: '' },
+    ];
+
+    expect(selectByScore(results, scores, 5).map(result => result.approach)).toEqual(['Current Leadership', 'Press Archive']);
+    expect(selectByScore(results.slice(0, 2), scores, 9).map(result => result.approach)).toEqual(['Current Leadership']);
+  });
+
+  it('should fall back to the first candidate when the choice is unclear', () => {
+    expect(parseChoice('<choice>3</choice>', 3)).toBe(2);
+    expect(parseChoice('<choice>7</choice>', 3)).toBe(0);
+    expect(parseChoice('The second one.', 3)).toBe(0);
+  });
+});
+
+describe('Context Budget', () => {
+  it('should find context windows by model prefix, with a fallback for unknown models', () => {
+    expect(findContextWindow('gpt-4o-mini-2024-07-18')).toEqual({ context: 128_000, maxOutput: 16_384 });
+    expect(findContextWindow('gpt-3.5-turbo-0125')).toEqual({ context: 16_385, maxOutput: 4_096 });
+    expect(findContextWindow('llama3.1:8b')).toEqual(FALLBACK_CONTEXT_WINDOW);
+    expect(findContextWindow('llama3.1:8b', { '*': { context: 32_768, maxOutput: 8_192 } })).toEqual({ context: 32_768, maxOutput: 8_192 });
+  });
+
+  it('should warn once per model that falls back to the default window', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      const budget = new ContextBudget();
+      budget.inputTokens('llama3.1:8b', 1000);
+      budget.inputTokens('llama3.1:8b', 1000);
+      budget.inputTokens('gpt-4.1', 1000);
+
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0][0]).toContain('No context window is known for llama3.1:8b; assuming 8192 tokens');
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('should truncate text to a token count and mark the cut', () => {
+    const text = 'Sinequa was founded by Alexandre Bilger in 2002. '.repeat(50);
+    const truncated = truncateToTokens(text, 100);
+
+    expect(countTokens(truncated)).toBeLessThanOrEqual(100);
+    expect(truncated).toMatch(/^Sinequa was founded/);
+    expect(truncated).toMatch(/\[truncated: \d+ tokens cut to 100\]$/);
+    expect(truncateToTokens('short', 100)).toBe('short');
+  });
+
+  it('should share tokens evenly, or in rank order', () => {
+    expect(shareTokens([100, 10, 50], 90)).toEqual([40, 10, 40]);
+    expect(shareTokens([100, 10, 50], 200)).toEqual([100, 10, 50]);
+    expect(shareTokens([60, 10, 50], 90, true)).toEqual([60, 10, 20]);
+  });
+
+  it('should cap output tokens and refuse prompts that leave no room for them', () => {
+    const budget = new ContextBudget({ small: { context: 2000, maxOutput: 500 } });
+
+    expect(budget.outputTokens('small', 1500)).toBe(500);
+    expect(budget.inputTokens('small', 1500)).toBe(1400);
+    expect(() => budget.acquire({ prompt: 'word '.repeat(2000), model: 'small', maxTokens: 1500, role: 'SYNTHESIZER' }))
+      .toThrow(/SYNTHESIZER prompt is \d+ tokens, over the 1400 tokens small can take with 500 tokens of output/);
+  });
+
+  it('should shrink inputs until the prompt fits and report each one', async () => {
+    const adjustments: ContextAdjustment[] = [];
+    const budget = new ContextBudget({ small: { context: 2000, maxOutput: 500 } }, adjustment => adjustments.push(adjustment));
+    const passages = ['alpha '.repeat(800), 'beta '.repeat(800), 'gamma '.repeat(800)];
+
+    const { prompt, texts } = await budget.fit({
+      role: 'LIBRARIAN-WORKER (Policy)',
+      model: 'small',
+      maxTokens: 500,
+      inputs: passages.map((text, i) => ({ input: `passage ${i + 1}`, text })),
+      ranked: true,
+      build: texts => `Passages:\n${texts.join('\n\n')}`,
+    });
+
+    expect(countTokens(prompt)).toBeLessThanOrEqual(1400);
+    expect(texts[0]).toBe(passages[0]);
+    expect(texts[1]).toMatch(/\[truncated/);
+    expect(texts[2]).toBe('');
+    expect(adjustments.map(adjustment => [adjustment.input, adjustment.action])).toEqual([
+      ['passage 2', 'truncated'],
+      ['passage 3', 'dropped'],
+    ]);
+    expect(describeAdjustment(adjustments[1])).toMatch(/^passage 3 dropped \(\d+ tokens\) for LIBRARIAN-WORKER \(Policy\) \(small\)$/);
+  });
+});
+
+// Serves fixed responses by path, or redirects to `location`; unknown paths are 404s
+function startSite(routes: Record<string, { type: string; body: string; delayMs?: number; location?: string }>) {
+  const requested: string[] = [];
+  const server = http.createServer((req, res) => {
+    requested.push(`${req.url} ${req.headers['user-agent']}`);
+    const route = routes[req.url || ''];
+    setTimeout(() => {
+      if (res.destroyed) return;
+      res.writeHead(route ? (route.location ? 302 : 200) : 404, {
+        'content-type': route?.type || 'text/plain',
+        ...(route?.location ? { location: route.location } : {}),
+      });
+      res.end(route?.body || 'not found');
+    }, route?.delayMs || 0);
+  });
+  return new Promise<{ server: http.Server; origin: string; requested: string[] }>(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ server, origin: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, requested });
+    });
+  });
+}
+
+describe('Search', () => {
+  it('should apply the robots.txt group for the agent, with the longest rule winning', () => {
+    const robots = `User-agent: *
+Disallow: /
+
+User-agent: LangelotBot
+User-agent: OtherBot
+Disallow: /private
+Allow: /private/press
+Disallow: /*.pdf$  # no documents
+`;
+    const rules = parseRobots(robots, 'LangelotBot');
+
+    expect(robotsAllow(rules, '/news/2024')).toBe(true);
+    expect(robotsAllow(rules, '/private/salaries')).toBe(false);
+    expect(robotsAllow(rules, '/private/press/launch')).toBe(true);
+    expect(robotsAllow(rules, '/report.pdf')).toBe(false);
+    expect(robotsAllow(rules, '/report.pdf?download=1')).toBe(true);
+    expect(robotsAllow(parseRobots(robots, 'SomeoneElse'), '/news')).toBe(false);
+  });
+
+  it('should keep the main content of a page and drop its navigation', () => {
+    const html = `<html><head><title>Sinequa &amp; search</title><style>p { color: red }</style></head><body>
+<nav><a href="/">Home</a></nav>
+<main><h1>About</h1><p>${'Sinequa builds enterprise search. '.repeat(8)}</p></main>
+<footer>Cookie settings</footer></body></html>`;
+
+    const page = extractReadableText(html);
+
+    expect(page.title).toBe('Sinequa & search');
+    expect(page.text).toMatch(/^About\n\nSinequa builds enterprise search\./);
+    expect(page.text).not.toContain('Home');
+    expect(page.text).not.toContain('Cookie');
+  });
+
+  it('should fetch readable pages, refusing those robots.txt disallows and those that time out', async () => {
+    const site = await startSite({
+      '/robots.txt': { type: 'text/plain', body: 'User-agent: *\nDisallow: /private' },
+      '/article': { type: 'text/html; charset=utf-8', body: '<title>Article</title><p>Readable text.</p><script>track()</script>' },
+      '/private/page': { type: 'text/html', body: '<p>Secret</p>' },
+      '/slow': { type: 'text/html', body: '<p>Late</p>', delayMs: 500 },
+      '/image': { type: 'image/png', body: 'PNG' },
+    });
+
+    try {
+      const fetcher = new PageFetcher({ timeoutMs: 200 });
+
+      await expect(fetcher.fetch(`${site.origin}/article`)).resolves.toEqual({ url: `${site.origin}/article`, title: 'Article', text: 'Readable text.' });
+      await expect(fetcher.fetch(`${site.origin}/private/page`)).rejects.toThrow('robots.txt disallows fetching');
+      await expect(fetcher.fetch(`${site.origin}/slow`)).rejects.toThrow('Timed out after 200 ms');
+      await expect(fetcher.fetch(`${site.origin}/image`)).rejects.toThrow('Unsupported content type image/png');
+      expect(site.requested.filter(request => request.startsWith('/robots.txt'))).toEqual(['/robots.txt LangelotBot/1.0']);
+      expect(site.requested.some(request => request.startsWith('/private'))).toBe(false);
+
+      await expect(new PageFetcher({ respectRobots: false }).fetch(`${site.origin}/private/page`)).resolves.toMatchObject({ text: 'Secret' });
+    } finally {
+      site.server.close();
+    }
+  });
+
+  it('should check robots.txt for redirect targets and stop reading long pages', async () => {
+    const other = await startSite({
+      '/robots.txt': { type: 'text/plain', body: 'User-agent: *\nDisallow: /private' },
+      '/private/page': { type: 'text/html', body: '<p>Secret</p>' },
+      '/public/page': { type: 'text/html', body: '<p>Public</p>' },
+    });
+    const site = await startSite({
+      '/to-private': { type: 'text/plain', body: '', location: `${other.origin}/private/page` },
+      '/to-public': { type: 'text/plain', body: '', location: `${other.origin}/public/page` },
+      '/loop': { type: 'text/plain', body: '', location: '/loop' },
+      '/long': { type: 'text/plain', body: 'x'.repeat(200_000) },
+    });
+
+    try {
+      const fetcher = new PageFetcher({ maxBytes: 1000 });
+
+      await expect(fetcher.fetch(`${site.origin}/to-private`)).rejects.toThrow(`robots.txt disallows fetching ${other.origin}/private/page (redirected from ${site.origin}/to-private)`);
+      expect(other.requested.some(request => request.startsWith('/private'))).toBe(false);
+      await expect(fetcher.fetch(`${site.origin}/to-public`)).resolves.toEqual({ url: `${other.origin}/public/page`, title: '127.0.0.1', text: 'Public' });
+      await expect(fetcher.fetch(`${site.origin}/loop`)).rejects.toThrow('took more than 5 redirects');
+      await expect(fetcher.fetch(`${site.origin}/long`)).resolves.toMatchObject({ text: `${'x'.repeat(1000)}\n[page truncated]` });
+    } finally {
+      site.server.close();
+      other.server.close();
+    }
+  });
+
+  it('should map SearXNG and Brave results into search hits', async () => {
+    const site = await startSite({
+      '/search?q=sinequa+founder&format=json': {
+        type: 'application/json',
+        body: JSON.stringify({ query: 'sinequa founder', results: [{ url: 'https://www.sinequa.com/', title: 'Sinequa', content: 'Enterprise search', engine: 'duckduckgo', score: 1 }] }),
+      },
+      '/res/v1/web/search?q=sinequa+founder&count=5': {
+        type: 'application/json',
+        body: JSON.stringify({ type: 'search', web: { type: 'search', results: [{ title: '<strong>Sinequa</strong> - Wikipedia', url: 'https://en.wikipedia.org/wiki/Sinequa', description: 'Founded by <strong>Alexandre Bilger</strong>.' }] } }),
+      },
+    });
+
+    try {
+      await expect(new SearxngSearchProvider(`${site.origin}/`).search('sinequa founder')).resolves.toEqual([
+        { title: 'Sinequa', url: 'https://www.sinequa.com/', snippet: 'Enterprise search' },
+      ]);
+      await expect(new BraveSearchProvider('key', `${site.origin}/res/v1/web/search`).search('sinequa founder', { limit: 5 })).resolves.toEqual([
+        { title: 'Sinequa - Wikipedia', url: 'https://en.wikipedia.org/wiki/Sinequa', snippet: 'Founded by Alexandre Bilger.' },
+      ]);
+    } finally {
+      site.server.close();
+    }
+  });
+
+  it('should rank the pages of a local corpus and read them back', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'langelot-corpus-'));
+    fs.writeFileSync(path.join(directory, 'founders.md'), '# Sinequa founders\n\nAlexandre Bilger founded Sinequa in 2002.');
+    fs.writeFileSync(path.join(directory, 'paris.html'), '<title>Paris</title><p>Sinequa has its head office in Paris.</p>');
+    fs.writeFileSync(path.join(directory, 'weather.txt'), 'It rains a lot in Brittany.');
+
+    try {
+      const provider = await LocalSearchProvider.fromDirectory(directory);
+      const hits = await provider.search('who founded sinequa');
+
+      expect(hits.map(hit => hit.title)).toEqual(['Sinequa founders', 'Paris']);
+      expect(hits[0].url).toMatch(/^file:\/\/.*founders\.md$/);
+      await expect(provider.read(hits[1])).resolves.toMatchObject({ title: 'Paris', text: 'Sinequa has its head office in Paris.' });
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Sandbox', () => {
+  it('should run JavaScript in a temporary directory and capture its output', async () => {
+    const run = await runSandboxed('javascript', `require('fs').writeFileSync('out.txt', '42'); console.log(require('fs').readFileSync('out.txt', 'utf-8'));`);
+    expect(run).toMatchObject({ stdout: '42\n', exitCode: 0, timedOut: false });
+  });
+
+  it('should keep scripts away from the network and from files outside their directory', async () => {
+    const network = await runSandboxed('javascript', `require('http').get('http://example.com')`);
+    expect(network.exitCode).toBe(1);
+    expect(network.stderr).toContain('Module "http" is not available in the sandbox');
+
+    const files = await runSandboxed('javascript', `require('fs').readFileSync('/etc/hostname')`);
+    expect(files.exitCode).toBe(1);
+    expect(files.stderr).toContain('ERR_ACCESS_DENIED');
+  });
+
+  it('should kill scripts that run past the timeout', async () => {
+    const run = await runSandboxed('javascript', 'while (true) {}', { timeoutMs: 500 });
+    expect(run).toMatchObject({ exitCode: null, timedOut: true });
+  });
+
+  it('should kill the processes a command starts when it times out', async () => {
+    const run = await runProcess('sh', ['-c', 'sleep 30 & echo started; wait'], {
+      cwd: os.tmpdir(),
+      env: { PATH: process.env.PATH || '' },
+      timeoutMs: 500,
+      maxOutputChars: 1000,
+    });
+    expect(run).toMatchObject({ stdout: 'started\n', exitCode: null, timedOut: true });
+    expect(run.duration).toBeLessThan(5000);
+  });
+
+  it.skipIf(!hasPython)('should run Python with sockets disabled', async () => {
+    const run = await runSandboxed('python', `print(6 * 7)\nimport socket\nsocket.create_connection(('example.com', 80))`);
+    expect(run.stdout).toBe('42\n');
+    expect(run.stderr).toContain('Network access is not available in the sandbox');
+  });
+
+  it.skipIf(!hasPython)('should keep Python inside its directory and unable to start processes', async () => {
+    const local = await runSandboxed('python', `open('out.txt', 'w').write('42')\nprint(open('out.txt').read())`);
+    expect(local).toMatchObject({ stdout: '42\n', exitCode: 0 });
+
+    const files = await runSandboxed('python', `print(open('/etc/hostname').read())`);
+    expect(files.exitCode).toBe(1);
+    expect(files.stderr).toContain('File access outside the working directory is not available in the sandbox: /etc/hostname');
+
+    const listing = await runSandboxed('python', `import os\nprint(os.listdir('/'))`);
+    expect(listing.stderr).toContain('File access outside the working directory');
+
+    const processes = await runSandboxed('python', `import subprocess\nsubprocess.Popen(['sleep', '30'])`);
+    expect(processes.stderr).toContain('Starting processes is not available in the sandbox');
+
+    const sockets = await runSandboxed('python', `import _socket\n_socket.socket().connect(('127.0.0.1', 80))`);
+    expect(sockets.stderr).toContain('Network access is not available in the sandbox');
+  });
+});
+
+describe('Report Formatting', () => {
+  const result = {
+    task: 'Find the name of the founder of Sinequa',
+    strategies: [
+      { approach: 'Web Lookup', agentType: 'search' as const, description: 'Search the web' },
+    ],
+    results: [
+      {
+        approach: 'Web Lookup',
+        result: 'Alexandre Bilger',
+        workerType: 'search' as const,
+        searchPerformed: true,
+        sources: [{ title: 'Sinequa', url: 'https://www.sinequa.com', snippet: 'About us' }],
+      },
+    ],
+    synthesis: 'Sinequa was founded by Alexandre Bilger.',
+  };
+
+  describe('formatMarkdownReport', () => {
+    it('should render strategies, worker sections, sources and synthesis', () => {
+      const markdown = formatMarkdownReport(result);
+
+      expect(markdown).toContain('**Task:** Find the name of the founder of Sinequa');
+      expect(markdown).toContain('1. **Web Lookup** (`search`) — Search the web');
+      expect(markdown).toContain('### 1. Web Lookup');
+      expect(markdown).toContain('_Worker: search · Web search performed_');
+      expect(markdown).toContain('- [Sinequa](https://www.sinequa.com) — About us');
+      expect(markdown).toMatch(/## Synthesis\n\nSinequa was founded by Alexandre Bilger\./);
+    });
+  });
+
+  describe('formatJsonLine', () => {
+    it('should serialize one event per line with error messages preserved', () => {
+      const line = formatJsonLine({
+        type: 'worker:error',
+        index: 0,
+        approach: 'Web Lookup',
+        agentType: 'search',
+        duration: 12,
+        error: new Error('rate limited'),
+      });
+
+      expect(line).not.toContain('\n');
+      const parsed = JSON.parse(line);
+      expect(parsed.type).toBe('worker:error');
+      expect(parsed.error).toEqual({ message: 'rate limited' });
+      expect(parsed.timestamp).toBeDefined();
+    });
+  });
+});
+
+describe('Cost Accounting', () => {
+  describe('findPricing', () => {
+    it('should match dated model versions to the longest priced prefix', () => {
+      expect(findPricing('gpt-4.1-mini-2025-04-14')).toEqual({ input: 0.4, output: 1.6 });
+      expect(findPricing('gpt-4.1-2025-04-14')).toEqual({ input: 2.0, output: 8.0 });
+      expect(findPricing('llama3.1')).toBeUndefined();
+    });
+  });
+
+  describe('summarizeUsage', () => {
+    it('should total tokens and cost and list unpriced models', () => {
+      const log = (role: string, model: string, prompt_tokens: number, completion_tokens: number) => ({
+        timestamp: new Date(),
+        role,
+        prompt: '',
+        model,
+        maxTokens: 0,
+        temperature: 0,
+        response: '',
+        usage: { prompt_tokens, completion_tokens, total_tokens: prompt_tokens + completion_tokens },
+        duration: 0,
+      });
+
+      const summary = summarizeUsage(
+        [log('ORCHESTRATOR', 'gpt-4.1', 1_000_000, 0), log('SIMPLE-WORKER (A)', 'llama3.1', 10, 10)],
+        { 'gpt-4.1': { input: 2, output: 8 } }
+      );
+
+      expect(summary).toMatchObject({ calls: 2, prompt_tokens: 1_000_010, completion_tokens: 10, cost: 2 });
+      expect(summary.byRole.ORCHESTRATOR.cost).toBe(2);
+      expect(summary.byRole['SIMPLE-WORKER (A)']).toMatchObject({ calls: 1, cost: 0 });
+      expect(summary.unpricedModels).toEqual(['llama3.1']);
+    });
+  });
+});